@@ -1,8 +1,9 @@
 #!/usr/bin/env node
 
-import { program } from 'commander';
+import { program, Option } from 'commander';
 import { deepAgentsInitCommand } from './cli/init-command.js';
 import { runCommand } from './cli/run-command.js';
+import { OUTPUT_FORMATS } from './cli/run-output.js';
 import { dashboardCommand } from './cli/dashboard-command.js';
 import { interactiveMode } from './cli/interactive.js';
 import { installCommand } from './commands/install.js';
@@ -19,6 +20,12 @@ import { sshCommand } from './commands/ssh.js';
 import { brainstormCommand } from './commands/brainstorm.js';
 import { ninetyNineCommand } from './commands/ninety-nine.js';
 import { shellCommand } from './commands/shell.js';
+import { replayCommand } from './commands/replay.js';
+import { runsCommand } from './commands/runs.js';
+import { planCommand, applyCommand } from './commands/plan.js';
+import { contextCommand } from './commands/context.js';
+import { undoCommand } from './commands/undo.js';
+import { intentCommand } from './commands/intent.js';
 import { checkForUpdates } from './core/update-notifier.js';
 import { MODELS } from './core/models.js';
 import { resolvedVersion } from './core/version.js';
@@ -69,6 +76,12 @@ program
   .option('-a, --agent <name>', 'Agent role (engineer, researcher, etc)', 'engineer')
   .option('-g, --goal <goal>', 'Agent goal')
   .option('-m, --model <model>', 'LLM model', MODELS.DEFAULT)
+  .addOption(
+    new Option('-o, --output <format>', 'Output format: text, ndjson (one event per line) or json (final document)')
+      .choices(OUTPUT_FORMATS)
+      .default('text')
+  )
+  .option('--no-context', "Don't send the workspace snapshot (directory, git state, stack, tree)")
   .action(runCommand);
 
 // Dashboard command
@@ -161,6 +174,13 @@ program.addCommand(sshCommand);
 program.addCommand(brainstormCommand);
 program.addCommand(ninetyNineCommand);
 program.addCommand(shellCommand);
+program.addCommand(replayCommand);
+program.addCommand(runsCommand);
+program.addCommand(planCommand);
+program.addCommand(applyCommand);
+program.addCommand(contextCommand);
+program.addCommand(undoCommand);
+program.addCommand(intentCommand);
 
 // Default: interactive mode when no command
 if (!process.argv.slice(2).length) {
@@ -0,0 +1,147 @@
+// src/cli/change-review.ts — review a BUILD run's file changes before they land
+import chalk from 'chalk';
+import {
+  diffFile,
+  formatUnifiedDiff,
+  resultOf,
+  writeChanges,
+  type ChangeJournal,
+  type ChangeSet,
+  type FileDiff,
+  type FileWrite,
+  type Hunk,
+} from '../core/file-changes.js';
+
+const ACTION_LABELS: Record<FileDiff['action'], string> = {
+  create: chalk.green('new     '),
+  modify: chalk.yellow('modified'),
+  delete: chalk.red('deleted '),
+};
+
+function colorDiffLine(line: string): string {
+  if (line.startsWith('+++') || line.startsWith('---')) return chalk.bold(line);
+  if (line.startsWith('@@')) return chalk.cyan(line);
+  if (line.startsWith('+')) return chalk.green(line);
+  if (line.startsWith('-')) return chalk.red(line);
+  return chalk.gray(line);
+}
+
+export function displayChangeSummary(diffs: readonly FileDiff[]): void {
+  console.log('');
+  console.log(chalk.bold(`📝 ${diffs.length} file${diffs.length === 1 ? '' : 's'} changed by the run`));
+  for (const diff of diffs) {
+    const counts = chalk.green(`+${diff.added}`) + ' ' + chalk.red(`-${diff.removed}`);
+    const by = diff.agent ? chalk.gray(`  (${diff.agent})`) : '';
+    console.log(`   ${ACTION_LABELS[diff.action]}  ${chalk.white(diff.path)}  ${counts}${by}`);
+  }
+  console.log('');
+}
+
+export function displayFileDiff(diff: FileDiff): void {
+  for (const line of formatUnifiedDiff(diff).trimEnd().split('\n')) console.log(colorDiffLine(line));
+  console.log('');
+}
+
+function displayHunk(diff: FileDiff, hunk: Hunk, index: number): void {
+  const header = formatUnifiedDiff({ ...diff, hunks: [hunk] }).trimEnd().split('\n');
+  console.log(chalk.bold(`${diff.path}`) + chalk.gray(`  hunk ${index + 1}/${diff.hunks.length}`));
+  // Skip the ---/+++ file header; the path is shown above
+  for (const line of header.slice(2)) console.log(colorDiffLine(line));
+}
+
+/**
+ * Ask about each hunk in turn. Returns, per file, which hunks were
+ * accepted. `a`/`d` accept or reject the rest of the file, `q` the rest
+ * of the review.
+ */
+async function selectHunks(diffs: readonly FileDiff[], ask: (q: string) => Promise<string>): Promise<boolean[][]> {
+  const selected = diffs.map((diff) => diff.hunks.map(() => false));
+  console.log(chalk.gray('  y apply · n skip · a apply rest of file · d skip rest of file · q stop reviewing'));
+  for (let f = 0; f < diffs.length; f++) {
+    const diff = diffs[f];
+    for (let h = 0; h < diff.hunks.length; h++) {
+      console.log('');
+      displayHunk(diff, diff.hunks[h], h);
+      const answer = (await ask(chalk.bold('Apply this hunk? [y/n/a/d/q] '))).trim().toLowerCase();
+      if (answer === 'q') return selected;
+      if (answer === 'a') {
+        for (let rest = h; rest < diff.hunks.length; rest++) selected[f][rest] = true;
+        break;
+      }
+      if (answer === 'd') break;
+      if (answer === 'y' || answer === 'yes') selected[f][h] = true;
+    }
+  }
+  return selected;
+}
+
+/**
+ * Show the run's proposed file changes as diffs and let the user apply all
+ * of them, pick hunks, or reject them. Applied changes are journalled so
+ * `buildwithnexus undo` can revert them. Returns the journal, or null when
+ * nothing was written.
+ */
+export async function reviewChanges(
+  changes: ChangeSet,
+  ask: (q: string) => Promise<string>,
+  meta: { task?: string; runId?: string } = {}
+): Promise<ChangeJournal | null> {
+  for (const rejected of changes.rejected) {
+    console.log(chalk.yellow(`⚠ Ignored a change to ${rejected.path}: ${rejected.reason}`));
+  }
+
+  const diffs: FileDiff[] = [];
+  for (const change of changes.changes()) {
+    try {
+      const diff = diffFile(change, changes.root);
+      if (diff.hunks.length > 0) diffs.push(diff);
+    } catch (err) {
+      console.log(chalk.yellow(`⚠ Ignored a change to ${change.path}: ${(err as Error).message}`));
+    }
+  }
+  if (diffs.length === 0) {
+    if (changes.size > 0) console.log(chalk.gray('The run\'s file changes already match your working tree.'));
+    return null;
+  }
+
+  displayChangeSummary(diffs);
+  while (true) {
+    console.log(chalk.gray('Options: ') + chalk.bold('[a]') + chalk.gray(' Apply all  ') + chalk.bold('[s]') + chalk.gray(' Select hunks  ') + chalk.bold('[v]') + chalk.gray(' View diffs  ') + chalk.bold('[n]') + chalk.gray(' Reject'));
+    const answer = (await ask(chalk.bold('Apply these changes? '))).trim().toLowerCase();
+
+    let writes: FileWrite[];
+    if (answer === 'v' || answer === 'view') {
+      console.log('');
+      diffs.forEach(displayFileDiff);
+      continue;
+    } else if (answer === 'a' || answer === 'y' || answer === 'all') {
+      writes = diffs.map((diff) => ({ path: diff.path, content: diff.after }));
+    } else if (answer === 's' || answer === 'select') {
+      const selected = await selectHunks(diffs, ask);
+      writes = diffs.flatMap((diff, f) => {
+        const content = resultOf(diff, selected[f]);
+        return content === undefined ? [] : [{ path: diff.path, content }];
+      });
+    } else if (answer === 'n' || answer === 'reject') {
+      console.log(chalk.yellow('Changes rejected — nothing written.'));
+      return null;
+    } else {
+      continue;
+    }
+
+    if (writes.length === 0) {
+      console.log(chalk.yellow('No hunks selected — nothing written.'));
+      return null;
+    }
+    try {
+      const journal = writeChanges(changes.root, writes, meta);
+      console.log(chalk.green(`✔ Applied changes to ${writes.length} file${writes.length === 1 ? '' : 's'}`));
+      console.log(chalk.gray(`  Undo with: buildwithnexus undo ${journal.id}`));
+      return journal;
+    } catch (err) {
+      console.log(chalk.red(`Could not apply the changes: ${err instanceof Error ? err.message : String(err)}`));
+      console.log(chalk.gray('  Anything already written can be reverted with: buildwithnexus undo'));
+      return null;
+    }
+  }
+}
@@ -0,0 +1,39 @@
+// src/cli/external-editor.ts — round-trip text through the user's $EDITOR
+import { spawnSync } from 'node:child_process';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { shellEscape } from '../core/dlp.js';
+
+/** The editor command: $VISUAL, then $EDITOR, then a platform default. */
+export function editorCommand(): string {
+  return process.env.VISUAL || process.env.EDITOR || (process.platform === 'win32' ? 'notepad' : 'vi');
+}
+
+/**
+ * Open `initial` in the user's editor and return the saved text. Throws if
+ * the editor cannot be started or exits non-zero. The temp file is private
+ * to the user and removed afterwards.
+ */
+export function editInEditor(initial: string, extension = '.md'): string {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'buildwithnexus-'));
+  const file = path.join(dir, `edit${extension}`);
+  fs.writeFileSync(file, initial, { mode: 0o600 });
+
+  // Hand the terminal over cleanly; readline may have it in raw mode
+  const stdin = process.stdin;
+  const wasRaw = stdin.isTTY ? stdin.isRaw : false;
+  if (stdin.isTTY) stdin.setRawMode(false);
+
+  try {
+    // The editor setting may carry arguments (e.g. "code --wait")
+    const quoted = process.platform === 'win32' ? `"${file}"` : shellEscape(file);
+    const result = spawnSync(`${editorCommand()} ${quoted}`, { stdio: 'inherit', shell: true });
+    if (result.error) throw new Error(`Could not start editor "${editorCommand()}": ${result.error.message}`);
+    if (result.status !== 0) throw new Error(`Editor "${editorCommand()}" exited with code ${result.status}`);
+    return fs.readFileSync(file, 'utf-8');
+  } finally {
+    if (stdin.isTTY) stdin.setRawMode(wasRaw);
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+}
@@ -0,0 +1,291 @@
+// src/cli/intent-backends.ts — the ways the shell can suggest a mode
+//
+// `keywords` is the built-in heuristic (plus anything learned from the
+// user's choices). `rules` applies a team's intent-rules.yaml — regexes
+// mapped to modes — before falling back to keywords. `backend` asks the
+// NEXUS backend with a quick Haiku-tier call and falls back to keywords when
+// the backend is offline, slow or gives an unusable answer. The choice comes
+// from NEXUS_INTENT_CLASSIFIER or `intentClassifier` in config.json.
+import fs from 'node:fs';
+import path from 'node:path';
+import YAML from 'yaml';
+import { NEXUS_HOME, loadConfig } from '../core/secrets.js';
+import { workspaceRoot } from '../core/attachments.js';
+import {
+  analyzeIntent,
+  type Intent,
+  type IntentClassification,
+  type IntentClassifier,
+  type IntentLearner,
+} from './intent-classifier.js';
+
+export const INTENT_CLASSIFIERS = ['keywords', 'rules', 'backend'] as const;
+export type IntentClassifierName = (typeof INTENT_CLASSIFIERS)[number];
+
+const INTENTS: Intent[] = ['plan', 'build', 'brainstorm'];
+
+export const INTENT_RULES_FILE = 'intent-rules.yaml';
+
+/** How long the backend gets to answer before keywords take over. */
+export const BACKEND_CLASSIFY_TIMEOUT_MS = 8000;
+
+// Weight given to a rule or backend answer, so scores read like keyword scores
+const DECISIVE_WEIGHT = 3;
+
+function isIntent(value: unknown): value is Intent {
+  return INTENTS.includes(value as Intent);
+}
+
+function decisive(task: string, intent: Intent, confidence: number, signal: IntentClassification['signals'][number], classifier: string): IntentClassification {
+  const scores: Record<Intent, number> = { plan: 0, build: 0, brainstorm: 0 };
+  scores[intent] = signal.weight;
+  // Questions and compound stages still come from the task's wording
+  const { question, stages } = analyzeIntent(task);
+  return { intent, confidence, scores, signals: [signal], question, classifier, ...(stages ? { stages } : {}) };
+}
+
+/** The keyword heuristic, with learned signals when given a learner. */
+export class KeywordClassifier implements IntentClassifier {
+  readonly name = 'keywords';
+
+  constructor(private readonly learner?: IntentLearner) {}
+
+  async classify(task: string): Promise<IntentClassification> {
+    return analyzeIntent(task, this.learner);
+  }
+}
+
+export interface IntentRule {
+  pattern: RegExp;
+  mode: Intent;
+  /** 0–1, default 1: a rule is the team saying so. */
+  confidence: number;
+}
+
+/**
+ * Parse intent-rules.yaml:
+ *
+ *   rules:
+ *     - match: "^(hotfix|fix)\\b"
+ *       mode: build
+ *     - match: "\\b(rfc|adr)\\b"
+ *       mode: plan
+ *       confidence: 0.9
+ *
+ * Patterns are case-insensitive regular expressions tested against the
+ * whole task. Throws, naming the rule, for anything malformed.
+ */
+export function parseIntentRules(text: string, file = INTENT_RULES_FILE): IntentRule[] {
+  let doc: unknown;
+  try {
+    doc = YAML.parse(text);
+  } catch (err) {
+    throw new Error(`${file}: ${(err as Error).message}`);
+  }
+  const list = (doc as { rules?: unknown } | null)?.rules;
+  if (!Array.isArray(list)) throw new Error(`${file}: expected a top-level "rules" list`);
+
+  return list.map((raw: unknown, i) => {
+    const where = `${file}: rule ${i + 1}`;
+    const rule = (raw ?? {}) as { match?: unknown; mode?: unknown; confidence?: unknown };
+    if (typeof rule.match !== 'string' || !rule.match) throw new Error(`${where} needs a "match" pattern`);
+    if (rule.mode === undefined) throw new Error(`${where} needs a "mode": plan, build or brainstorm`);
+    const mode = typeof rule.mode === 'string' ? rule.mode.toLowerCase() : rule.mode;
+    if (!isIntent(mode)) throw new Error(`${where} has mode ${JSON.stringify(rule.mode)} — use plan, build or brainstorm`);
+    const confidence = rule.confidence ?? 1;
+    if (typeof confidence !== 'number' || confidence < 0 || confidence > 1) {
+      throw new Error(`${where} has a confidence outside 0–1`);
+    }
+    let pattern: RegExp;
+    try {
+      pattern = new RegExp(rule.match, 'i');
+    } catch (err) {
+      throw new Error(`${where}: ${(err as Error).message}`);
+    }
+    return { pattern, mode, confidence };
+  });
+}
+
+/**
+ * The rules file in effect: the repository's `.buildwithnexus/intent-rules.yaml`
+ * (shared by the team), else the user's `~/.buildwithnexus/intent-rules.yaml`.
+ */
+export function findIntentRules(cwd: string = process.cwd()): string | null {
+  const candidates = [path.join(workspaceRoot(cwd), '.buildwithnexus', INTENT_RULES_FILE), path.join(NEXUS_HOME, INTENT_RULES_FILE)];
+  return candidates.find((file) => fs.existsSync(file)) ?? null;
+}
+
+/** First matching team rule wins; tasks no rule matches go to the fallback. */
+export class RulesClassifier implements IntentClassifier {
+  readonly name = 'rules';
+
+  constructor(
+    private readonly rules: IntentRule[],
+    private readonly fallback: IntentClassifier
+  ) {}
+
+  static fromFile(file: string, fallback: IntentClassifier): RulesClassifier {
+    return new RulesClassifier(parseIntentRules(fs.readFileSync(file, 'utf-8'), file), fallback);
+  }
+
+  async classify(task: string): Promise<IntentClassification> {
+    const rule = this.rules.find((r) => r.pattern.test(task));
+    if (!rule) return this.fallback.classify(task);
+    const signal = { intent: rule.mode, phrase: rule.pattern.source, weight: DECISIVE_WEIGHT, source: 'rule' as const };
+    return decisive(task, rule.mode, rule.confidence, signal, this.name);
+  }
+}
+
+/** Sends a prompt to the backend and resolves to its reply text. */
+export type IntentPrompter = (prompt: string, signal: AbortSignal) => Promise<string>;
+
+/** Instructions for the backend's classification run. */
+export const CLASSIFY_GOAL = 'Classify the request. Reply with the JSON object only.';
+
+export function classifyPrompt(task: string): string {
+  return [
+    'Which mode suits this developer request?',
+    '- plan: design, scope or break down the work before doing it',
+    '- build: make a concrete change now',
+    '- brainstorm: explore ideas, ask questions, weigh options',
+    'Reply with only JSON: {"mode": "plan" | "build" | "brainstorm", "confidence": <0 to 1>, "reason": "<at most 8 words>"}',
+    '',
+    'Request:',
+    task,
+  ].join('\n');
+}
+
+/** The mode, confidence and reason in a backend reply. Throws when there's no usable answer. */
+export function parseClassifierReply(reply: string): { intent: Intent; confidence: number; reason: string } {
+  const json = /\{[\s\S]*\}/.exec(reply)?.[0];
+  if (json) {
+    try {
+      const parsed = JSON.parse(json) as { mode?: unknown; confidence?: unknown; reason?: unknown };
+      const mode = typeof parsed.mode === 'string' ? parsed.mode.toLowerCase() : parsed.mode;
+      if (isIntent(mode)) {
+        const confidence = typeof parsed.confidence === 'number' ? Math.min(1, Math.max(0, parsed.confidence)) : 0.5;
+        const reason = typeof parsed.reason === 'string' ? parsed.reason.trim().slice(0, 80) : '';
+        return { intent: mode, confidence, reason };
+      }
+    } catch {
+      // Fall through to looking for a bare mode name
+    }
+  }
+  const named = INTENTS.filter((intent) => new RegExp(`\\b${intent}\\b`, 'i').test(reply));
+  if (named.length === 1) return { intent: named[0], confidence: 0.5, reason: '' };
+  throw new Error('the backend did not name a mode');
+}
+
+/** Asks the backend, via `prompter`, to pick the mode. Throws on any failure; wrap with FallbackClassifier. */
+export class BackendClassifier implements IntentClassifier {
+  readonly name = 'backend';
+
+  constructor(
+    private readonly prompter: IntentPrompter,
+    private readonly timeoutMs: number = BACKEND_CLASSIFY_TIMEOUT_MS
+  ) {}
+
+  async classify(task: string): Promise<IntentClassification> {
+    const controller = new AbortController();
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        controller.abort();
+        reject(new Error(`no answer from the backend within ${this.timeoutMs / 1000}s`));
+      }, this.timeoutMs);
+    });
+    try {
+      const reply = await Promise.race([this.prompter(classifyPrompt(task), controller.signal), timeout]);
+      const { intent, confidence, reason } = parseClassifierReply(reply);
+      const signal = { intent, phrase: reason || intent, weight: DECISIVE_WEIGHT, source: 'backend' as const };
+      return decisive(task, intent, confidence, signal, this.name);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
+
+/** Uses `primary`, or `fallback` (noting why) when `primary` throws. */
+export class FallbackClassifier implements IntentClassifier {
+  constructor(
+    private readonly primary: IntentClassifier,
+    private readonly fallback: IntentClassifier
+  ) {}
+
+  get name(): string {
+    return this.primary.name;
+  }
+
+  async classify(task: string): Promise<IntentClassification> {
+    try {
+      return await this.primary.classify(task);
+    } catch (err) {
+      const result = await this.fallback.classify(task);
+      return { ...result, fallbackReason: `${this.primary.name} classifier unavailable: ${err instanceof Error ? err.message : String(err)}` };
+    }
+  }
+}
+
+/** The configured classifier name: NEXUS_INTENT_CLASSIFIER, then config.json, then keywords. */
+export function configuredIntentClassifier(
+  env: NodeJS.ProcessEnv = process.env,
+  configured: string | undefined = loadConfigQuietly()?.intentClassifier
+): IntentClassifierName {
+  const name = (env.NEXUS_INTENT_CLASSIFIER?.trim() || configured || 'keywords').toLowerCase();
+  if (!(INTENT_CLASSIFIERS as readonly string[]).includes(name)) {
+    throw new Error(`Unknown intent classifier "${name}" — use ${INTENT_CLASSIFIERS.join(', ')}`);
+  }
+  return name as IntentClassifierName;
+}
+
+function loadConfigQuietly(): ReturnType<typeof loadConfig> {
+  try {
+    return loadConfig();
+  } catch {
+    return null;
+  }
+}
+
+export interface IntentClassifierOptions {
+  learner?: IntentLearner;
+  /** Required for the backend classifier. */
+  prompter?: IntentPrompter;
+  /** Rules file for the rules classifier; found with findIntentRules by default. */
+  rulesFile?: string | null;
+  /** Told about problems that mean falling back to keywords for the session. */
+  warn?: (message: string) => void;
+}
+
+/**
+ * Build the named classifier. Anything that stops it working at all — no
+ * rules file, a malformed one, no backend client — is reported through
+ * `warn` and the keyword classifier is used instead.
+ */
+export function createIntentClassifier(name: IntentClassifierName, options: IntentClassifierOptions = {}): IntentClassifier {
+  const keywords = new KeywordClassifier(options.learner);
+  const warn = options.warn ?? (() => {});
+
+  if (name === 'rules') {
+    const file = options.rulesFile === undefined ? findIntentRules() : options.rulesFile;
+    if (!file) {
+      warn(`No ${INTENT_RULES_FILE} found (looked in .buildwithnexus/ and ${NEXUS_HOME}) — suggesting modes by keywords`);
+      return keywords;
+    }
+    try {
+      return RulesClassifier.fromFile(file, keywords);
+    } catch (err) {
+      warn(`Ignoring the intent rules — ${(err as Error).message}`);
+      return keywords;
+    }
+  }
+
+  if (name === 'backend') {
+    if (!options.prompter) {
+      warn('The backend classifier needs a backend connection — suggesting modes by keywords');
+      return keywords;
+    }
+    return new FallbackClassifier(new BackendClassifier(options.prompter), keywords);
+  }
+
+  return keywords;
+}
@@ -1,51 +1,342 @@
 export type Intent = 'plan' | 'build' | 'brainstorm';
 
-const PLAN_KEYWORDS = [
-  'design', 'plan', 'architect', 'structure', 'outline', 'roadmap',
-  'strategy', 'organize', 'breakdown', 'scope', 'model', 'schema',
-];
+/** One piece of evidence the classifier found in a task. */
+export interface IntentSignal {
+  /** The intent this signal counts towards. */
+  intent: Intent;
+  /** The words that matched, as written in the task (normalised to lower case). */
+  phrase: string;
+  weight: number;
+  /**
+   * The match was negated ("don't build yet"). A negated signal counts
+   * towards the intent the user is turning to instead, at half weight.
+   */
+  negated?: boolean;
+  /**
+   * Where the signal came from when not the keyword lists: the user's
+   * earlier mode choices, a team rule in intent-rules.yaml, or the backend.
+   */
+  source?: 'learned' | 'rule' | 'backend';
+}
+
+export interface IntentClassification {
+  intent: Intent;
+  /** 0–1: how clearly the signals point at `intent`. 0 when nothing matched. */
+  confidence: number;
+  scores: Record<Intent, number>;
+  /** Strongest first. */
+  signals: IntentSignal[];
+  /** The task reads as a question. */
+  question: boolean;
+  /** The IntentClassifier that produced this, when not plain keywords. */
+  classifier?: string;
+  /** Why the configured classifier was passed over for keywords. */
+  fallbackReason?: string;
+  /** Set when the task asks for several modes in turn; see detectStages. */
+  stages?: IntentStage[];
+}
+
+/** One part of a compound task, e.g. "then design it". */
+export interface IntentStage {
+  intent: Intent;
+  /** The part of the task this stage came from, as written. */
+  text: string;
+}
+
+/** A way of suggesting a mode for a task; see intent-backends.ts for the implementations. */
+export interface IntentClassifier {
+  readonly name: string;
+  classify(task: string): Promise<IntentClassification>;
+}
+
+/** Extra signals from outside the keyword lists, such as the user's past choices. */
+export interface IntentLearner {
+  signals(words: string[]): IntentSignal[];
+}
+
+/** Confidence at or above which interactive mode picks the mode without asking. */
+export const AUTO_SELECT_CONFIDENCE = 0.75;
+
+// Keywords by intent. Multi-word entries match as consecutive words; single
+// words also match their regular inflections ("plans", "building", "fixed").
+// Weights: 2 names the mode outright, 1 is a clear hint, 0.5 is weak on its own.
+const KEYWORDS: Record<Intent, Array<[string, number]>> = {
+  plan: [
+    ['plan', 2], ['design', 2], ['architect', 2], ['architecture', 1.5], ['roadmap', 2],
+    ['outline', 1.5], ['break down', 1.5], ['breakdown', 1.5], ['strategy', 1],
+    ['structure', 1], ['organize', 1], ['scope', 1], ['schema', 1], ['model', 0.5],
+    ['step by step', 1], ['spec', 1], ['before we build', 1.5],
+  ],
+  build: [
+    ['build', 2], ['implement', 2], ['create', 1.5], ['write', 1.5], ['fix', 1.5],
+    ['make', 1], ['code', 1], ['generate', 1], ['add', 1], ['update', 1], ['deploy', 1],
+    ['run', 1], ['start', 0.5], ['launch', 1], ['install', 1], ['set up', 1], ['setup', 1],
+    ['refactor', 1.5], ['migrate', 1], ['rename', 1], ['delete', 1], ['remove', 1],
+    ['just do it', 2], ['go ahead', 1.5],
+    // Polite requests ("could you add…") aren't questions
+    ['can you', 0.5], ['could you', 0.5], ['would you', 0.5], ['please', 0.5],
+  ],
+  brainstorm: [
+    ['brainstorm', 2], ['idea', 1], ['think', 1], ['consider', 1], ['suggest', 1],
+    ['explore', 1], ['wonder', 1], ['options', 1], ['alternatives', 1], ['thoughts', 1],
+    ['advice', 1.5], ['recommend', 1], ['approach', 1], ['improve', 0.5], ['optimize', 0.5],
+    ['automate', 0.5], ['figure out', 1.5], ['help me', 1.5], ['how about', 1.5], ['what if', 1.5],
+    ['how can', 1.5], ['how do', 1.5], ['how should', 1.5], ['best way', 1.5],
+    ['pros and cons', 1.5], ['trade offs', 1.5], ['tradeoffs', 1.5], ['compare', 1],
+    ['what', 0.5], ['why', 0.5], ['should', 0.5], ['could', 0.5], ['would', 0.5], ['might', 0.5],
+  ],
+};
+
+// Words that negate the next few words of their clause
+const NEGATIONS = new Set(['not', 'no', 'never', 'without', 'avoid', 'dont', 'cant', 'wont', 'shouldnt']);
+const NEGATION_REACH = 3;
+
+// Words that end a negation's reach, besides punctuation
+const CLAUSE_BREAKS = new Set(['but', 'just', 'instead', 'rather', 'then', 'and', 'so']);
+
+// Where a negated signal points: "don't build yet" means plan first;
+// "no need to plan" or "don't overthink it" mean get on with it.
+const NEGATED_INTENT: Record<Intent, Intent> = { build: 'plan', plan: 'build', brainstorm: 'build' };
+
+// Words that open a question; "do" and "can" open requests as often as questions
+const QUESTION_WORDS = new Set(['what', 'why', 'how', 'which', 'should', 'could', 'would', 'is', 'are', 'does']);
+const QUESTION_WEIGHT = 1.5;
+
+// The order a compound task's stages must come in to run as a pipeline
+const STAGE_ORDER: Intent[] = ['brainstorm', 'plan', 'build'];
+
+// Words that separate the stages of a compound task ("…, then build it").
+// All but "and" also mark what follows as a step of its own.
+const SEQUENCE_WORDS = new Set(['then', 'and', 'afterwards', 'finally', 'first']);
+
+// Words that may come before a stage's verb: "then please design it", "and we plan"
+const LEAD_INS = new Set(['please', 'now', 'also', 'just', 'let', 'lets', 'us', 'we', 'i', 'to', 'can', 'you', 'should', 'will']);
+
+interface Token {
+  word: string;
+  /** The token ends a clause (followed by , . ; ! ? or similar). */
+  clauseEnd: boolean;
+  /** Offsets of the word in the task. */
+  start: number;
+  end: number;
+}
+
+/**
+ * Lower-cased words with contractions folded ("don't" → "dont",
+ * "what's" → "what"), marking the words that end a clause.
+ */
+function tokenize(task: string): Token[] {
+  const tokens: Token[] = [];
+  const text = task.toLowerCase().replace(/[‘’]/g, "'");
+  for (const match of text.matchAll(/([a-z0-9]+(?:'[a-z]+)?)([^a-z0-9']*)/g)) {
+    let word = match[1];
+    word = word.endsWith("n't") ? word.replace("n't", 'nt') : word.replace(/'.*$/, '');
+    const start = match.index ?? 0;
+    tokens.push({ word, clauseEnd: /[,.;:!?()]/.test(match[2]), start, end: start + match[1].length });
+  }
+  return tokens;
+}
+
+/** The task's words as the classifier sees them. */
+export function taskWords(task: string): string[] {
+  return tokenize(task).map((t) => t.word);
+}
+
+/** The regular inflections of a word: plan → plans, planned, planning… */
+function inflections(word: string): string[] {
+  const forms = [word, word + 's', word + 'es', word + 'ed', word + 'ing'];
+  if (word.endsWith('e')) forms.push(word + 'd', word.slice(0, -1) + 'ing');
+  if (word.endsWith('y')) forms.push(word.slice(0, -1) + 'ies', word.slice(0, -1) + 'ied');
+  // plan → planning, run → running, but not build → buildding
+  if (/[^aeiou][aeiou][bdgklmnprt]$/.test(word)) {
+    const last = word[word.length - 1];
+    forms.push(word + last + 'ed', word + last + 'ing');
+  }
+  return forms;
+}
+
+interface Pattern {
+  intent: Intent;
+  words: string[][];
+  weight: number;
+}
+
+// Longest phrases first, so "how can" claims "how" before a single-word match would
+const PATTERNS: Pattern[] = (Object.keys(KEYWORDS) as Intent[])
+  .flatMap((intent) =>
+    KEYWORDS[intent].map(([keyword, weight]) => {
+      const parts = keyword.split(' ');
+      // Inflect a phrase's first word only: "breaking down" but not "break downs"
+      const words = parts.map((part, i) => (i === 0 ? inflections(part) : [part]));
+      return { intent, words, weight };
+    })
+  )
+  .sort((a, b) => b.words.length - a.words.length);
+
+function matchAt(tokens: Token[], start: number, pattern: Pattern): number {
+  if (start + pattern.words.length > tokens.length) return 0;
+  for (let i = 0; i < pattern.words.length; i++) {
+    if (!pattern.words[i].includes(tokens[start + i].word)) return 0;
+    // A phrase doesn't run across a comma or full stop
+    if (i < pattern.words.length - 1 && tokens[start + i].clauseEnd) return 0;
+  }
+  return pattern.words.length;
+}
+
+/** Whether the token at `index` is within a negation's reach. */
+function negatedAt(tokens: Token[], index: number): boolean {
+  for (let i = index - 1; i >= 0 && i >= index - NEGATION_REACH; i--) {
+    if (tokens[i].clauseEnd || CLAUSE_BREAKS.has(tokens[i].word)) return false;
+    if (NEGATIONS.has(tokens[i].word)) return true;
+  }
+  return false;
+}
+
+function isQuestion(task: string, tokens: Token[]): boolean {
+  if (/\?\s*$/.test(task)) return true;
+  if (tokens.length < 2 || tokens[1].word === 'you') return false;
+  return QUESTION_WORDS.has(tokens[0].word);
+}
 
-const BUILD_KEYWORDS = [
-  'build', 'create', 'make', 'write', 'implement', 'code', 'generate',
-  'add', 'fix', 'update', 'deploy', 'run', 'start', 'launch', 'install',
-  'set up', 'setup', 'refactor', 'migrate',
-];
+/**
+ * Score a task against each intent and explain the result. Keywords match
+ * whole words (so "address" isn't "add" and "prune" isn't "run"), longer
+ * phrases take precedence over the words inside them, negated keywords
+ * point away from their intent, and questions lean towards brainstorming.
+ * A `learner` adds signals of its own on top. Compound tasks also get their
+ * `stages`.
+ */
+export function analyzeIntent(task: string, learner?: IntentLearner): IntentClassification {
+  const result = scoreIntent(task, learner);
+  const stages = detectStages(task);
+  return stages.length > 0 ? { ...result, stages } : result;
+}
+
+function scoreIntent(task: string, learner?: IntentLearner): IntentClassification {
+  const tokens = tokenize(task);
+  const signals: IntentSignal[] = [];
 
-const BRAINSTORM_KEYWORDS = [
-  'what', 'should', 'idea', 'ideas', 'think', 'consider', 'suggest',
-  'brainstorm', 'explore', 'wonder', 'might', 'could', 'would', 'how about',
-  'what if', 'options', 'alternatives', 'thoughts', 'why', 'advice',
-  'how can', 'how do', 'how should', 'best way', 'recommend', 'approach',
-  'improve', 'optimize', 'automate', 'help me',
-];
+  const claimed = new Array<boolean>(tokens.length).fill(false);
+  for (const pattern of PATTERNS) {
+    for (let i = 0; i < tokens.length; i++) {
+      if (claimed.slice(i, i + pattern.words.length).some(Boolean)) continue;
+      const length = matchAt(tokens, i, pattern);
+      if (length === 0) continue;
+      claimed.fill(true, i, i + length);
+      const phrase = tokens.slice(i, i + length).map((t) => t.word).join(' ');
+      if (negatedAt(tokens, i)) {
+        signals.push({ intent: NEGATED_INTENT[pattern.intent], phrase, weight: pattern.weight / 2, negated: true });
+      } else {
+        signals.push({ intent: pattern.intent, phrase, weight: pattern.weight });
+      }
+    }
+  }
 
-export function classifyIntent(task: string): Intent {
-  const lower = task.toLowerCase().trim();
+  const question = isQuestion(task, tokens);
+  if (question) signals.push({ intent: 'brainstorm', phrase: 'question', weight: QUESTION_WEIGHT });
+  if (learner) signals.push(...learner.signals(tokens.map((t) => t.word)));
+  signals.sort((a, b) => b.weight - a.weight);
 
-  let planScore = 0;
-  let buildScore = 0;
-  let brainstormScore = 0;
+  const scores: Record<Intent, number> = { plan: 0, build: 0, brainstorm: 0 };
+  for (const signal of signals) scores[signal.intent] += signal.weight;
 
-  for (const kw of PLAN_KEYWORDS) {
-    if (lower.includes(kw)) planScore++;
+  const total = scores.plan + scores.build + scores.brainstorm;
+  if (total === 0) {
+    // Nothing to go on: longer tasks usually need planning, short ones are quick jobs
+    return { intent: tokens.length > 6 ? 'plan' : 'build', confidence: 0, scores, signals, question };
   }
-  for (const kw of BUILD_KEYWORDS) {
-    if (lower.includes(kw)) buildScore++;
+
+  // Ties go to the more cautious mode: brainstorm, then plan, then build
+  const ranked = (['brainstorm', 'plan', 'build'] as Intent[]).sort((a, b) => scores[b] - scores[a]);
+  const top = scores[ranked[0]];
+  // The share of the evidence for the winner, discounted when there is little evidence at all
+  const confidence = (top / total) * (top / (top + 1));
+  return { intent: ranked[0], confidence: Math.round(confidence * 100) / 100, scores, signals, question };
+}
+
+/** Whether `text` opens, after any lead-in words, with a keyword for `intent`. */
+function opensWith(text: string, intent: Intent): boolean {
+  const tokens = tokenize(text);
+  let i = 0;
+  while (i < tokens.length && LEAD_INS.has(tokens[i].word)) i++;
+  return PATTERNS.some((pattern) => pattern.intent === intent && matchAt(tokens, i, pattern) > 0);
+}
+
+/**
+ * The stages of a compound task such as "figure out the best caching
+ * approach, then design it and build it" → brainstorm, plan, build. The
+ * task is split at clause ends and sequencing words and each part is
+ * scored on its own. A part only starts a stage when it reads as a step —
+ * it opens with its mode's verb ("design it") or follows "then", "first"
+ * or the like — so "add a plan view and build the page" stays one task.
+ * Neighbouring parts with the same intent are merged. Returns [] unless
+ * there are at least two stages in pipeline order (brainstorm before plan
+ * before build); "fix it and explain why" is one task, not a pipeline.
+ */
+export function detectStages(task: string): IntentStage[] {
+  const tokens = tokenize(task);
+  const segments: Array<{ start: number; end: number; sequenced: boolean }> = [];
+  let first: Token | undefined;
+  let last: Token | undefined;
+  let sequenced = false;
+  const flush = () => {
+    if (first && last) segments.push({ start: first.start, end: last.end, sequenced });
+    first = last = undefined;
+    sequenced = false;
+  };
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    if (SEQUENCE_WORDS.has(token.word) || (token.word === 'after' && tokens[i + 1]?.word === 'that')) {
+      flush();
+      sequenced = token.word !== 'and';
+      if (token.word === 'after') i++;
+      continue;
+    }
+    first ??= token;
+    last = token;
+    if (token.clauseEnd) flush();
   }
-  for (const kw of BRAINSTORM_KEYWORDS) {
-    if (lower.includes(kw)) brainstormScore++;
+  flush();
+
+  const stages: Array<{ intent: Intent; start: number; end: number }> = [];
+  let pendingStart: number | undefined;
+  for (const segment of segments) {
+    const text = task.slice(segment.start, segment.end);
+    const result = scoreIntent(text);
+    const previous = stages[stages.length - 1];
+    const isStep = segment.sequenced || opensWith(text, result.intent);
+    if (result.signals.length === 0 || previous?.intent === result.intent || !isStep) {
+      // Words that aren't a step of their own belong to the stage around them
+      if (previous) previous.end = segment.end;
+      else pendingStart ??= segment.start;
+      continue;
+    }
+    stages.push({ intent: result.intent, start: pendingStart ?? segment.start, end: segment.end });
+    pendingStart = undefined;
   }
 
-  // Tiebreak: longer/more complex tasks default to plan
-  const wordCount = lower.split(/\s+/).length;
-  if (wordCount > 12 && planScore === buildScore && buildScore === brainstormScore) {
-    return 'plan';
+  if (stages.length < 2) return [];
+  for (let i = 1; i < stages.length; i++) {
+    if (STAGE_ORDER.indexOf(stages[i].intent) <= STAGE_ORDER.indexOf(stages[i - 1].intent)) return [];
   }
+  return stages.map(({ intent, start, end }) => ({ intent, text: task.slice(start, end) }));
+}
 
-  if (brainstormScore >= planScore && brainstormScore > buildScore) return 'brainstorm';
-  if (buildScore > planScore && buildScore > brainstormScore) return 'build';
-  if (planScore > 0) return 'plan';
+export function classifyIntent(task: string, learner?: IntentLearner): Intent {
+  return analyzeIntent(task, learner).intent;
+}
+
+function describeSignal(signal: IntentSignal): string {
+  if (signal.source === 'learned') return `your past choices ("${signal.phrase}")`;
+  if (signal.source === 'rule') return `team rule /${signal.phrase}/`;
+  if (signal.source === 'backend') return `backend: ${signal.phrase}`;
+  if (signal.phrase === 'question') return 'phrased as a question';
+  return signal.negated ? `"not ${signal.phrase}"` : `"${signal.phrase}"`;
+}
 
-  // Default: complex tasks → plan, simple short tasks → build
-  return wordCount > 6 ? 'plan' : 'build';
+/** A short explanation of a classification, e.g. `"build", "not plan"`. */
+export function describeSignals(result: IntentClassification, limit = 3): string {
+  const shown = result.signals.filter((s) => s.intent === result.intent).slice(0, limit);
+  if (shown.length === 0) return result.signals.length === 0 ? 'no keywords matched' : 'no clear signals';
+  return shown.map(describeSignal).join(', ');
 }
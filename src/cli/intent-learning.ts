@@ -0,0 +1,260 @@
+// src/cli/intent-learning.ts — learn from the modes the user actually picks
+//
+// Each time the shell suggests a mode and the user answers the prompt, the
+// task's words, the suggestion and the choice are appended to
+// ~/.buildwithnexus/intent-feedback.jsonl (redacted, never the raw task).
+// Auto-selected modes are logged too — as kept, or as rejected when the user
+// switches straight away — so a learned habit can still be corrected.
+// IntentModel is a small naive-Bayes model over those records; once there
+// are enough of them it adds a learned signal to the keyword classifier, so
+// a user who always brainstorms "dashboard" tasks stops being offered BUILD.
+import fs from 'node:fs';
+import path from 'node:path';
+import { redact } from '../core/dlp.js';
+import { NEXUS_HOME } from '../core/secrets.js';
+import { taskWords, type Intent, type IntentLearner, type IntentSignal } from './intent-classifier.js';
+
+export const INTENT_FEEDBACK_FILE = path.join(NEXUS_HOME, 'intent-feedback.jsonl');
+
+/** Bump when the record format changes incompatibly. */
+export const INTENT_FEEDBACK_VERSION = 1;
+
+/** Records needed before the model's signal is used at all. */
+export const MIN_FEEDBACK_RECORDS = 5;
+
+// Only the most recent records train the model, so old habits fade
+const MAX_TRAINING_RECORDS = 1000;
+const MAX_FEATURES = 40;
+// Weight of the learned signal at full certainty; keywords weigh 0.5–2
+const LEARNED_WEIGHT = 4;
+// Records at which the learned signal reaches half its weight: about ten
+// consistent overrides outweigh an outright "build"
+const LEARNED_RAMP = 10;
+
+const INTENTS: Intent[] = ['plan', 'build', 'brainstorm'];
+
+const STOPWORDS = new Set([
+  'a', 'an', 'the', 'and', 'or', 'of', 'to', 'in', 'on', 'for', 'with', 'at', 'by', 'from', 'it', 'is',
+  'be', 'this', 'that', 'we', 'i', 'me', 'my', 'our', 'you', 'your', 'so', 'as', 'into', 'some',
+]);
+
+export interface IntentFeedback {
+  version: number;
+  at: string;
+  /** The task's distinct words, stopwords left out, after redaction. */
+  features: string[];
+  suggested: Intent;
+  chosen: Intent;
+  confidence: number;
+  /** The mode was auto-selected rather than offered at the prompt. */
+  auto?: boolean;
+}
+
+/** The distinct, redacted words of a task that the model learns from. */
+export function intentFeatures(task: string): string[] {
+  const words = taskWords(redact(task)).filter((w) => w.length > 1 && !STOPWORDS.has(w) && !/^\d+$/.test(w));
+  return [...new Set(words)].slice(0, MAX_FEATURES);
+}
+
+/** Append one choice to the feedback log. Best-effort: never throws. */
+export function recordIntentFeedback(
+  task: string,
+  suggested: Intent,
+  chosen: Intent,
+  confidence: number,
+  options: { auto?: boolean; file?: string } = {}
+): IntentFeedback {
+  const record: IntentFeedback = {
+    version: INTENT_FEEDBACK_VERSION,
+    at: new Date().toISOString(),
+    features: intentFeatures(task),
+    suggested,
+    chosen,
+    confidence,
+    ...(options.auto ? { auto: true } : {}),
+  };
+  const file = options.file ?? INTENT_FEEDBACK_FILE;
+  try {
+    fs.mkdirSync(path.dirname(file), { recursive: true, mode: 0o700 });
+    fs.appendFileSync(file, JSON.stringify(record) + '\n', { mode: 0o600 });
+  } catch {
+    // Learning is a nicety; an unwritable home must not break the shell
+  }
+  return record;
+}
+
+function isIntent(value: unknown): value is Intent {
+  return INTENTS.includes(value as Intent);
+}
+
+/** The feedback log, oldest first. Malformed lines are skipped. */
+export function loadIntentFeedback(file: string = INTENT_FEEDBACK_FILE): IntentFeedback[] {
+  let text: string;
+  try {
+    text = fs.readFileSync(file, 'utf-8');
+  } catch {
+    return [];
+  }
+  const records: IntentFeedback[] = [];
+  for (const line of text.split('\n')) {
+    if (!line.trim()) continue;
+    try {
+      const record = JSON.parse(line) as IntentFeedback;
+      if (record.version !== INTENT_FEEDBACK_VERSION || !isIntent(record.suggested) || !isIntent(record.chosen)) continue;
+      if (!Array.isArray(record.features)) continue;
+      records.push(record);
+    } catch {
+      continue;
+    }
+  }
+  return records;
+}
+
+/** Delete the feedback log. Returns how many records it held. */
+export function resetIntentFeedback(file: string = INTENT_FEEDBACK_FILE): number {
+  const count = loadIntentFeedback(file).length;
+  fs.rmSync(file, { force: true });
+  return count;
+}
+
+/**
+ * Naive Bayes over the words of tasks, labelled with the mode the user
+ * chose. Features are present/absent (a word counts once per task) with
+ * add-one smoothing; words never seen in training are ignored.
+ */
+export class IntentModel implements IntentLearner {
+  private docs: Record<Intent, number> = { plan: 0, build: 0, brainstorm: 0 };
+  private counts: Record<Intent, Map<string, number>> = { plan: new Map(), build: new Map(), brainstorm: new Map() };
+  private vocabulary = new Set<string>();
+
+  static fromFeedback(records: readonly IntentFeedback[]): IntentModel {
+    const model = new IntentModel();
+    for (const record of records.slice(-MAX_TRAINING_RECORDS)) model.train(record.features, record.chosen);
+    return model;
+  }
+
+  get size(): number {
+    return this.docs.plan + this.docs.build + this.docs.brainstorm;
+  }
+
+  train(features: readonly string[], intent: Intent): void {
+    this.docs[intent]++;
+    for (const word of new Set(features)) {
+      this.counts[intent].set(word, (this.counts[intent].get(word) ?? 0) + 1);
+      this.vocabulary.add(word);
+    }
+  }
+
+  private logLikelihood(word: string, intent: Intent): number {
+    return Math.log(((this.counts[intent].get(word) ?? 0) + 1) / (this.docs[intent] + 2));
+  }
+
+  /** P(intent | words), or null when none of the words were seen in training. */
+  posterior(words: readonly string[]): Record<Intent, number> | null {
+    const known = [...new Set(words)].filter((w) => this.vocabulary.has(w));
+    if (known.length === 0 || this.size === 0) return null;
+
+    const logs = INTENTS.map((intent) => {
+      // Add-one smoothed prior, so a mode never chosen yet isn't ruled out
+      let log = Math.log((this.docs[intent] + 1) / (this.size + INTENTS.length));
+      for (const word of known) log += this.logLikelihood(word, intent);
+      return log;
+    });
+    const max = Math.max(...logs);
+    const exp = logs.map((l) => Math.exp(l - max));
+    const sum = exp.reduce((a, b) => a + b, 0);
+    return { plan: exp[0] / sum, build: exp[1] / sum, brainstorm: exp[2] / sum };
+  }
+
+  /**
+   * One signal for the mode the model favours, weighted by how far it leads
+   * and how much feedback there is, named after the word that says most
+   * about it. Nothing until MIN_FEEDBACK_RECORDS choices have been made.
+   */
+  signals(words: string[]): IntentSignal[] {
+    if (this.size < MIN_FEEDBACK_RECORDS) return [];
+    const posterior = this.posterior(words);
+    if (!posterior) return [];
+
+    const [best, second] = [...INTENTS].sort((a, b) => posterior[b] - posterior[a]);
+    const reliability = this.size / (this.size + LEARNED_RAMP);
+    const weight = Math.round(LEARNED_WEIGHT * (posterior[best] - posterior[second]) * reliability * 100) / 100;
+    if (weight <= 0) return [];
+
+    const others = INTENTS.filter((i) => i !== best);
+    let phrase = '';
+    let strongest = -Infinity;
+    for (const word of new Set(words)) {
+      if (!this.vocabulary.has(word)) continue;
+      const lift =
+        this.logLikelihood(word, best) - Math.max(...others.map((other) => this.logLikelihood(word, other)));
+      if (lift > strongest) {
+        strongest = lift;
+        phrase = word;
+      }
+    }
+    return [{ intent: best, phrase, weight, source: 'learned' }];
+  }
+}
+
+export interface IntentPeriod {
+  /** Monday of the week, YYYY-MM-DD (UTC). */
+  week: string;
+  total: number;
+  accepted: number;
+}
+
+export interface IntentStats {
+  /** Prompted choices; auto-selected modes are only counted below. */
+  total: number;
+  /** Choices that matched the suggestion. */
+  accepted: number;
+  /** Oldest first. */
+  weeks: IntentPeriod[];
+  /** confusion[suggested][chosen] = count */
+  confusion: Record<Intent, Record<Intent, number>>;
+  /** Modes started without asking. */
+  autoSelected: number;
+  /** Auto-selected modes the user switched away from straight away. */
+  autoRejected: number;
+}
+
+function weekOf(iso: string): string {
+  const date = new Date(iso);
+  if (Number.isNaN(date.getTime())) return 'unknown';
+  const monday = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  monday.setUTCDate(monday.getUTCDate() - ((monday.getUTCDay() + 6) % 7));
+  return monday.toISOString().slice(0, 10);
+}
+
+/**
+ * How often the suggestion was kept at the prompt, overall, per week and
+ * per mode. Auto-selected modes never reach the prompt, so they are only
+ * counted, with how many were switched away from.
+ */
+export function intentStats(records: readonly IntentFeedback[]): IntentStats {
+  const zero = (): Record<Intent, number> => ({ plan: 0, build: 0, brainstorm: 0 });
+  const prompted = records.filter((record) => !record.auto);
+  const auto = records.filter((record) => record.auto);
+  const stats: IntentStats = {
+    total: prompted.length,
+    accepted: 0,
+    weeks: [],
+    confusion: { plan: zero(), build: zero(), brainstorm: zero() },
+    autoSelected: auto.length,
+    autoRejected: auto.filter((record) => record.suggested !== record.chosen).length,
+  };
+  const weeks = new Map<string, IntentPeriod>();
+  for (const record of prompted) {
+    const hit = record.suggested === record.chosen;
+    if (hit) stats.accepted++;
+    stats.confusion[record.suggested][record.chosen]++;
+    const week = weekOf(record.at);
+    const period = weeks.get(week) ?? { week, total: 0, accepted: 0 };
+    period.total++;
+    if (hit) period.accepted++;
+    weeks.set(week, period);
+  }
+  stats.weeks = [...weeks.values()].sort((a, b) => a.week.localeCompare(b.week));
+  return stats;
+}
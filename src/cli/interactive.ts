@@ -1,35 +1,101 @@
 import * as readline from 'readline';
 import chalk from 'chalk';
 import { tui, type Mode } from './tui.js';
-import { classifyIntent } from './intent-classifier.js';
+import { AUTO_SELECT_CONFIDENCE, type Intent } from './intent-classifier.js';
+import { CLASSIFY_GOAL, configuredIntentClassifier, createIntentClassifier, type IntentClassifierName } from './intent-backends.js';
+import { MODELS } from '../core/models.js';
+import { ModePipeline, displayPipeline, offerPipeline, pipelineCheckpoint } from './pipeline.js';
+import { IntentModel, loadIntentFeedback, recordIntentFeedback } from './intent-learning.js';
 import { hasAnyKey, loadApiKeys, validateBackendUrl } from '../core/config.js';
 import { loadKeys, getBackendUrl } from '../core/secrets.js';
-import { parseSSEStream } from '../core/sse-parser.js';
 import { startBackend } from '../core/docker.js';
 import { resolvedVersion } from '../core/version.js';
-import { buildRunPayload, checkServerHealth } from '../core/api.js';
+import { NexusClient, NexusApiError, type StreamRunOptions } from '../core/client.js';
+import { errorMessage, eventText, isTerminalEvent } from '../core/events.js';
+import { PlanTracker } from '../core/plan-progress.js';
+import {
+  addMessage,
+  createSession,
+  DISTILL_REQUEST,
+  formatTaskBrief,
+  parseTaskBrief,
+  saveSession,
+  type TaskBrief,
+} from '../core/brainstorm-session.js';
+import { BrainstormContext } from '../core/brainstorm-context.js';
+import type { RunContext } from '../core/api.js';
+import { formatWorkspace, gatherWorkspace, workspaceSharingEnabled } from '../core/workspace.js';
+import { gatherRunContext } from './run-context.js';
+import { workspaceRoot } from '../core/attachments.js';
+import { ChangeSet } from '../core/file-changes.js';
+import { reviewChanges } from './change-review.js';
+import { editInEditor } from './external-editor.js';
+import { composeTaskInEditor, readTask, trackPastes } from './multiline.js';
+import { TranscriptWriter } from '../core/transcript.js';
+import { RunInterruptGuard, RunProgress } from './interrupt.js';
+import { RunSteering, STEERING_HELP, dueForApproval, type LineListener } from './steering.js';
+import { displayPlanDiff, displayPlanSteps, planDocument, runPlanEditor } from './plan-editor.js';
+import { PlanEditor, approvalSteps, planChanged, runSteps, stepsFromTexts, toRunSteps, writePlanFile, type PlanStep } from '../core/plan.js';
 
 const appVersion = resolvedVersion;
 
 // When the backend stops sending SSE events for this long, surface a hint to the
-// user so a silent stall doesn't look like a frozen terminal. The 120s
-// AbortSignal.timeout still bounds the total wait — this just prints a
+// user so a silent stall doesn't look like a frozen terminal. NexusClient's
+// idle timeout still drops and reconnects a dead stream — this just prints a
 // breadcrumb sooner.
 const SSE_STALL_WARNING_MS = 8000;
 
-async function reportBackendError(label: string, response: Response): Promise<void> {
-  let bodySnippet = '';
-  try {
-    const text = await response.text();
-    bodySnippet = text.slice(0, 300);
-  } catch {
-    bodySnippet = '(could not read response body)';
+// Agent goals for brainstorm side runs: /plan handoff and context summaries
+const DISTILL_GOAL = 'Turn the conversation into a concrete task statement with acceptance criteria.';
+const SUMMARY_GOAL = 'Summarise the conversation faithfully and concisely.';
+
+// Keep the user informed while NexusClient re-establishes a dropped stream
+const streamOptions: StreamRunOptions = {
+  onReconnecting: (info) => tui.displayReconnecting(info),
+  onReconnected: () => tui.displayReconnected(),
+};
+
+/** Stream a run while recording it to ~/.buildwithnexus/runs/<run_id>.jsonl. */
+function recordedStream(
+  client: NexusClient,
+  runId: string,
+  task: string,
+  mode: Mode,
+  options: Pick<StreamRunOptions, 'signal' | 'paused'> = {}
+) {
+  const transcript = TranscriptWriter.start({ run_id: runId, task, mode, backend_url: client.baseUrl });
+  return transcript.tee(client.streamRun(runId, { ...streamOptions, ...options }), options.signal);
+}
+
+function displayTaskLine(label: string, task: string, context: RunContext): void {
+  console.log(chalk.bold(label), chalk.white(task));
+  const attachments = context.attachments ?? [];
+  if (attachments.length > 0) {
+    console.log(chalk.gray(`  📎 ${attachments.length} attached file${attachments.length === 1 ? '' : 's'}: ${attachments.map((a) => a.path).join(', ')}`));
   }
-  console.error(chalk.red(`${label}: HTTP ${response.status} ${response.statusText}`));
-  if (bodySnippet) {
-    console.error(chalk.gray(`  body: ${bodySnippet}`));
+}
+
+/** What `/context` shows: the snapshot runs would send, and whether they do. */
+function displayWorkspacePreview(sharing: boolean): void {
+  console.log('');
+  formatWorkspace(gatherWorkspace()).split('\n').forEach((line) => console.log(chalk.gray(`  ${line}`)));
+  console.log('');
+  console.log(
+    sharing
+      ? chalk.green('  Sent with every run. Type /context off to stop sharing it.\n')
+      : chalk.yellow('  Not sent — type /context on to share it with runs.\n')
+  );
+}
+
+function reportBackendError(err: unknown): void {
+  const msg = err instanceof Error ? err.message : String(err);
+  console.error(chalk.red('Error: ' + msg));
+  if (err instanceof NexusApiError) {
+    if (err.body) {
+      console.error(chalk.gray(`  body: ${err.body}`));
+    }
+    console.error(chalk.gray('  Tip: stream backend logs with `buildwithnexus logs -f`'));
   }
-  console.error(chalk.gray('  Tip: stream backend logs with `buildwithnexus logs -f`'));
 }
 
 export async function interactiveMode() {
@@ -77,19 +143,21 @@ export async function interactiveMode() {
   console.log(chalk.gray(`  Google: ${keys.google ? '✓' : '✗'}`));
   console.log(chalk.gray(`  (Run 'da-init' to reconfigure)\n`));
 
+  const client = new NexusClient({ baseUrl: backendUrl });
+
   // Check backend health; auto-start if not running
   async function waitForBackend(): Promise<boolean> {
     const maxAttempts = 15;
     for (let i = 0; i < maxAttempts; i++) {
       await new Promise((resolve) => setTimeout(resolve, 2000));
-      if (await checkServerHealth(backendUrl)) return true;
+      if (await client.health()) return true;
       process.stdout.write(chalk.gray(`\r  Waiting for backend... ${i + 1}/${maxAttempts}`));
     }
     process.stdout.write('\n');
     return false;
   }
 
-  if (!(await checkServerHealth(backendUrl))) {
+  if (!(await client.health())) {
     console.log(chalk.yellow('⚠️  Backend not accessible, attempting to start...'));
     await startBackend();
     const ready = await waitForBackend();
@@ -121,12 +189,72 @@ export async function interactiveMode() {
       rl.question(question, resolve);
     });
 
+  // Lines typed while no question is open (e.g. steering a BUILD run)
+  const onLine: LineListener = (listener) => {
+    rl.on('line', listener);
+    return () => {
+      rl.removeListener('line', listener);
+    };
+  };
+
+  // readline swallows Ctrl+C; hand it to a streaming run's interrupt guard
+  // when one is armed, otherwise quit as before
+  rl.on('SIGINT', () => {
+    if (process.listenerCount('SIGINT') > 0) {
+      process.emit('SIGINT');
+      return;
+    }
+    console.log(chalk.yellow('\nGoodbye! 👋\n'));
+    rl.close();
+    process.exit(0);
+  });
+
+  // Pasted newlines stay part of the task instead of submitting it
+  const isPasting = trackPastes();
+
+  // Workspace snapshot sharing; NEXUS_NO_CONTEXT=1 starts with it off, /context toggles it
+  let shareWorkspace = workspaceSharingEnabled();
+  // Mode suggestions adapt to the choices made at the mode prompt
+  const intentModel = IntentModel.fromFeedback(loadIntentFeedback());
+  let classifierName: IntentClassifierName = 'keywords';
+  try {
+    classifierName = configuredIntentClassifier();
+  } catch (err) {
+    console.log(chalk.yellow(`⚠ ${(err as Error).message}; suggesting modes by keywords`));
+  }
+  const classifier = createIntentClassifier(classifierName, {
+    learner: intentModel,
+    prompter: (prompt, signal) =>
+      collectReply(client, prompt, 'Classify task', CLASSIFY_GOAL, { model: MODELS.HAIKU, signal, record: false }),
+    warn: (message) => console.log(chalk.yellow(`⚠ ${message}`)),
+  });
+
   console.clear();
   printAppHeader();
-  console.log(chalk.gray('  Describe what you want to build. Type "exit" to quit.\n'));
+  console.log(chalk.gray('  Describe what you want to build. Type "exit" to quit.'));
+  console.log(chalk.gray('  Paste multi-line text freely, end a line with \\ to continue, or type /edit to use $EDITOR.'));
+  console.log(chalk.gray('  Attach files with @path; /context shows the workspace snapshot sent with runs.\n'));
 
   while (true) {
-    const task = await ask(chalk.bold.blue('📝 Task: '));
+    let task = await readTask(rl, chalk.bold.blue('📝 Task: '), isPasting);
+
+    if (task.trim().toLowerCase() === '/edit') {
+      const composed = composeTaskInEditor();
+      if (!composed) {
+        console.log(chalk.gray('Nothing saved — no task entered.\n'));
+        continue;
+      }
+      task = composed;
+      console.log(chalk.bold('Task:'));
+      composed.split('\n').forEach((line) => console.log(chalk.white(`  ${line}`)));
+    }
+
+    const contextCommand = /^\/context(?:\s+(on|off))?$/i.exec(task.trim());
+    if (contextCommand) {
+      if (contextCommand[1]) shareWorkspace = contextCommand[1].toLowerCase() === 'on';
+      displayWorkspacePreview(shareWorkspace);
+      continue;
+    }
 
     if (task.toLowerCase() === 'exit') {
       console.log(chalk.yellow('\nGoodbye! 👋\n'));
@@ -139,26 +267,61 @@ export async function interactiveMode() {
       continue;
     }
 
-    // Classify intent and suggest a mode
-    const suggestedMode = classifyIntent(task).toUpperCase() as Mode;
-    tui.displaySuggestedMode(suggestedMode, task);
+    // @path files and the workspace snapshot go along with every run for this task
+    const context = gatherRunContext(task, { workspace: shareWorkspace, optOut: '/context off' });
 
-    // Let user confirm or override mode
-    const currentMode = await selectMode(suggestedMode, ask);
+    // Classify intent and suggest a mode
+    const classification = await classifier.classify(task);
+    if (classification.fallbackReason) console.log(chalk.gray(`(${classification.fallbackReason} — suggesting by keywords)`));
+    const suggestedMode = classification.intent.toUpperCase() as Mode;
+    tui.displaySuggestedMode(suggestedMode, task, classification);
+
+    // "…, then design it and build it": offer to run the stages in turn
+    if (classification.stages) {
+      const pipeline = new ModePipeline(classification.stages);
+      if (await offerPipeline(pipeline, ask)) {
+        await runModeLoop(pipeline.modes[0], task, context, client, ask, onLine, pipeline);
+        console.log('');
+        continue;
+      }
+    }
 
-    // Enter the mode loop
-    await runModeLoop(currentMode, task, backendUrl, ask);
+    // Let user confirm or override mode, unless the task leaves little doubt
+    const auto = classification.confidence >= AUTO_SELECT_CONFIDENCE;
+    const currentMode = await selectMode(suggestedMode, ask, auto);
+    const learn = (mode: Mode) => {
+      const chosen = mode.toLowerCase() as Intent;
+      const record = recordIntentFeedback(task, classification.intent, chosen, classification.confidence, { auto });
+      intentModel.train(record.features, chosen);
+    };
+    if (!auto) learn(currentMode);
+
+    // Enter the mode loop. An auto-selected mode is kept unless the user
+    // switches away from it straight away, which counts as picking another
+    let rejected = false;
+    await runModeLoop(currentMode, task, context, client, ask, onLine, undefined, (mode) => {
+      if (!auto) return;
+      rejected = true;
+      learn(mode);
+    });
+    if (auto && !rejected) learn(currentMode);
     console.log('');
   }
 }
 
-async function selectMode(suggested: Mode, ask: (q: string) => Promise<string>): Promise<Mode> {
+async function selectMode(suggested: Mode, ask: (q: string) => Promise<string>, auto = false): Promise<Mode> {
   const modeColor: Record<Mode, (s: string) => string> = {
     PLAN: chalk.cyan,
     BUILD: chalk.green,
     BRAINSTORM: chalk.blue,
   };
 
+  if (auto) {
+    // Every mode can switch to the others, so a wrong guess costs one keystroke
+    console.log(chalk.gray('Starting in ') + modeColor[suggested](suggested) + chalk.gray(' — you can switch modes from inside it.'));
+    return suggested;
+  }
+
   console.log('');
   console.log(
     chalk.gray('Press ') +
@@ -189,25 +352,48 @@ async function selectMode(suggested: Mode, ask: (q: string) => Promise<string>):
 async function runModeLoop(
   mode: Mode,
   task: string,
-  backendUrl: string,
-  ask: (q: string) => Promise<string>
+  context: RunContext,
+  client: NexusClient,
+  ask: (q: string) => Promise<string>,
+  onLine: LineListener,
+  pipeline?: ModePipeline,
+  onSwitchedAway?: (to: Mode) => void
 ): Promise<void> {
   let currentMode = mode;
+  // A pipeline stage starts from its own part of the task, not the stages after it
+  let currentTask = pipeline ? pipeline.taskFor(mode, task) : task;
+  let approvedPlan: ApprovedPlan | undefined;
+  // Until the starting mode hands on, switching away from it says it was the wrong mode
+  let firstMode = true;
+  const switchMode = async (): Promise<Mode> => {
+    const next = await promptModeSwitch(currentMode, ask);
+    if (firstMode && next !== currentMode) {
+      firstMode = false;
+      onSwitchedAway?.(next);
+    }
+    return next;
+  };
 
   while (true) {
     console.clear();
     printAppHeader();
     tui.displayModeBar(currentMode);
+    if (pipeline) displayPipeline(pipeline, currentMode);
     tui.displayModeHeader(currentMode);
 
     if (currentMode === 'PLAN') {
-      const next = await planModeLoop(task, backendUrl, currentMode, ask);
-      if (next === 'BUILD') {
+      const outcome = await planModeLoop(currentTask, context, client, ask);
+      if (outcome.next === 'BUILD') {
+        // Approving the plan is the checkpoint before a pipeline's BUILD stage
+        if (pipeline?.nextAfter('PLAN') !== 'BUILD') pipeline = undefined;
+        firstMode = false;
+        approvedPlan = outcome.plan;
         currentMode = 'BUILD';
         continue;
       }
-      if (next === 'switch') {
-        currentMode = await promptModeSwitch(currentMode, ask);
+      if (outcome.next === 'switch') {
+        pipeline = undefined;
+        currentMode = await switchMode();
         continue;
       }
       // cancelled or done
@@ -215,18 +401,47 @@ async function runModeLoop(
     }
 
     if (currentMode === 'BUILD') {
-      const next = await buildModeLoop(task, backendUrl, currentMode, ask);
+      const next = await buildModeLoop(currentTask, context, client, currentMode, ask, onLine, approvedPlan);
+      approvedPlan = undefined;
+      // The build ran, so switching afterwards is moving on rather than a wrong mode
+      firstMode = false;
       if (next === 'switch') {
-        currentMode = await promptModeSwitch(currentMode, ask);
+        currentMode = await switchMode();
         continue;
       }
       return;
     }
 
     if (currentMode === 'BRAINSTORM') {
-      const next = await brainstormModeLoop(task, backendUrl, currentMode, ask);
-      if (next === 'switch') {
-        currentMode = await promptModeSwitch(currentMode, ask);
+      const next = pipeline?.nextAfter('BRAINSTORM');
+      // In a pipeline the checkpoint confirms the distilled task, so /plan doesn't ask first
+      const outcome = await brainstormModeLoop(currentTask, context, client, ask, !next);
+      if (pipeline && next && outcome.next !== 'switch') {
+        // The distilled task carries over; without one, the original task up to the next stage does
+        const distilled = outcome.next === 'PLAN';
+        const checkpoint = await pipelineCheckpoint(
+          'BRAINSTORM',
+          next,
+          distilled ? outcome.task : pipeline.taskFor(next, task),
+          ask,
+          distilled ? undefined : 'The brainstorm ended without /plan, so the original task carries over.'
+        );
+        if (checkpoint.next === 'stop') return;
+        firstMode = false;
+        currentTask = checkpoint.task;
+        currentMode = next;
+        continue;
+      }
+      pipeline = undefined;
+      if (outcome.next === 'PLAN') {
+        // Plan the task distilled from the conversation
+        firstMode = false;
+        currentTask = outcome.task;
+        currentMode = 'PLAN';
+        continue;
+      }
+      if (outcome.next === 'switch') {
+        currentMode = await switchMode();
         continue;
       }
       return;
@@ -271,83 +486,54 @@ async function promptModeSwitch(current: Mode, ask: (q: string) => Promise<strin
 // ---------------------------------------------------------------------------
 // PLAN MODE
 // ---------------------------------------------------------------------------
+
+/** The plan the user approved, handed from PLAN to BUILD. */
+interface ApprovedPlan {
+  /** The planning run, reused by the BUILD run for its context. */
+  runId: string;
+  /** The steps to run, skipped ones left out. Empty when the backend never sent a plan. */
+  steps: PlanStep[];
+}
+
+type PlanOutcome =
+  | { next: 'BUILD'; plan: ApprovedPlan }
+  | { next: 'switch' | 'cancel' | 'done' };
+
 async function planModeLoop(
   task: string,
-  backendUrl: string,
-  currentMode: Mode,
+  context: RunContext,
+  client: NexusClient,
   ask: (q: string, m?: Mode) => Promise<string>
-): Promise<'BUILD' | 'switch' | 'cancel' | 'done'> {
-  console.log(chalk.bold('Task:'), chalk.white(task));
+): Promise<PlanOutcome> {
+  displayTaskLine('Task:', task, context);
   console.log('');
   console.log(chalk.yellow('⏳ Fetching plan from backend...'));
 
   let steps: string[] = [];
+  let planRunId = '';
+  let planReceived = false;
 
   try {
-    const response = await fetch(`${backendUrl}/api/run`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify(buildRunPayload(task, 'engineer', '')),
-      signal: AbortSignal.timeout(120000),
-    });
-
-    if (!response.ok) {
-      await reportBackendError('Backend error fetching plan', response);
-      return 'cancel';
-    }
-
-    const planText = await response.text();
-    let planParsed: unknown;
-    try {
-      planParsed = JSON.parse(planText);
-    } catch {
-      console.error(chalk.red(`Backend returned invalid JSON: ${planText.slice(0, 200)}`));
-      return 'cancel';
-    }
-    const { run_id: planRunId } = planParsed as { run_id?: string };
-    if (!planRunId || typeof planRunId !== 'string') {
-      console.error(chalk.red('Backend did not return a valid run ID'));
-      return 'cancel';
-    }
-    if (!/^[a-zA-Z0-9_-]+$/.test(planRunId)) {
-      console.error(chalk.red('Backend returned run ID with invalid characters'));
-      return 'cancel';
-    }
-    const run_id = planRunId;
+    const run_id = await client.createRun(task, context);
+    planRunId = run_id;
     tui.displayConnected(run_id);
 
-    const streamResponse = await fetch(`${backendUrl}/api/stream/${run_id}`, { signal: AbortSignal.timeout(120000) });
-    if (!streamResponse.ok) {
-      await reportBackendError('Stream endpoint error', streamResponse);
-      return 'cancel';
-    }
-    const reader = streamResponse.body?.getReader();
-
-    if (!reader) throw new Error('No response body');
-
-    let planReceived = false;
     const stallTimer = setTimeout(() => {
       console.log(chalk.gray(`(no events from backend after ${SSE_STALL_WARNING_MS / 1000}s — backend may be stalled; check \`buildwithnexus logs -f\`)`));
     }, SSE_STALL_WARNING_MS);
 
     try {
-      for await (const parsed of parseSSEStream(reader)) {
-        if (parsed.type === 'plan') {
-          steps = (parsed.data['steps'] as string[]) || [];
+      for await (const event of recordedStream(client, run_id, task, 'PLAN')) {
+        if (event.type === 'plan') {
+          steps = event.data.steps;
           planReceived = true;
-          reader.cancel();
-          // Abort the background execution — we only needed the plan steps
-          fetch(`${backendUrl}/api/interrupt`, {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({ run_id, interrupt_type: 'abort' }),
-          }).catch(() => {});
+          // Stop the planning run here; the BUILD run reuses its context
+          // (parent_run_id) and executes the approved steps instead
+          client.interrupt(run_id).catch(() => {});
           break;
-        } else if (parsed.type === 'error') {
-          const errorMsg = (parsed.data['error'] as string) || (parsed.data['content'] as string) || 'Unknown error';
-          tui.displayError(errorMsg);
-          reader.cancel();
-          return 'cancel';
+        } else if (event.type === 'error') {
+          tui.displayError(errorMessage(event.data));
+          return { next: 'cancel' };
         }
       }
     } finally {
@@ -361,164 +547,178 @@ async function planModeLoop(
       steps = ['(no steps returned — execute anyway?)'];
     }
   } catch (err: unknown) {
-    const msg = err instanceof Error ? err.message : String(err);
-    console.error(chalk.red('Error: ' + msg));
-    return 'cancel';
+    reportBackendError(err);
+    return { next: 'cancel' };
   }
 
-  // Display the plan
-  displayPlanSteps(steps);
+  // The placeholder step is not a plan — there is nothing to diff against
+  const original = planReceived ? [...steps] : [];
+  const editor = new PlanEditor(stepsFromTexts(steps));
+  displayPlanSteps(editor.steps);
 
   // Approval loop
   while (true) {
-    console.log(chalk.gray('Options: ') + chalk.bold('[Y]') + chalk.gray(' Execute  ') + chalk.bold('[e]') + chalk.gray(' Edit step  ') + chalk.bold('[n]') + chalk.gray(' Cancel'));
+    console.log(chalk.gray('Options: ') + chalk.bold('[Y]') + chalk.gray(' Execute  ') + chalk.bold('[e]') + chalk.gray(' Edit plan  ') + chalk.bold('[d]') + chalk.gray(' Diff  ') + chalk.bold('[w]') + chalk.gray(' Save  ') + chalk.bold('[n]') + chalk.gray(' Cancel'));
     const answer = (await ask(tui.displayPermissionPrompt('Execute this plan?'))).trim().toLowerCase();
 
     if (answer === '' || answer === 'y') {
-      return 'BUILD';
+      if (!planReceived && !editor.canUndo) {
+        // Let the backend plan afresh rather than run the placeholder
+        return { next: 'BUILD', plan: { runId: planRunId, steps: [] } };
+      }
+      const approved = runSteps(editor.steps);
+      if (approved.length === 0) {
+        console.log(chalk.yellow('Every step is skipped — unskip or add a step first.'));
+        continue;
+      }
+      if (planChanged(original, editor.steps)) {
+        displayPlanDiff(original, editor.steps);
+        const confirm = (await ask(tui.displayPermissionPrompt('Execute the edited plan?'))).trim().toLowerCase();
+        if (confirm !== '' && confirm !== 'y') continue;
+      }
+      return { next: 'BUILD', plan: { runId: planRunId, steps: approved } };
+    }
+    if (answer === 'd' || answer === 'diff') {
+      displayPlanDiff(original, editor.steps);
+      continue;
+    }
+    if (answer === 'w' || answer === 'save') {
+      const file = (await ask(chalk.bold('Save to (plan.md): '))).trim() || 'plan.md';
+      try {
+        writePlanFile(file, await planDocument(client, task, editor.steps, planRunId || undefined));
+        console.log(chalk.green(`✔ Saved to ${file} — execute it later with: buildwithnexus apply ${file}`));
+      } catch (err) {
+        console.log(chalk.red(`Could not save the plan: ${err instanceof Error ? err.message : String(err)}`));
+      }
+      continue;
     }
     if (answer === 'n' || answer === '') {
       console.log(chalk.yellow('\nExecution cancelled.\n'));
-      return 'cancel';
+      return { next: 'cancel' };
     }
     if (answer === 'e' || answer === 'edit') {
-      steps = await editPlanSteps(steps, currentMode, ask);
-      displayPlanSteps(steps);
+      await runPlanEditor(editor, task, original, ask);
+      displayPlanSteps(editor.steps);
       continue;
     }
     if (answer === 's' || answer === 'switch') {
-      return 'switch';
+      return { next: 'switch' };
     }
   }
 }
 
-function displayPlanSteps(steps: string[]) {
-  console.log('');
-  console.log(chalk.bold.cyan('┌─────────────────────────────────────────────────────────┐'));
-  console.log(chalk.bold.cyan('│') + chalk.bold.white('  📋 Execution Plan                                      ') + chalk.bold.cyan('│'));
-  console.log(chalk.bold.cyan('├─────────────────────────────────────────────────────────┤'));
-  steps.forEach((step, i) => {
-    const label = `  Step ${i + 1}: `;
-    const maxContentWidth = 57 - label.length;
-    const truncated = step.length > maxContentWidth ? step.substring(0, maxContentWidth - 3) + '...' : step;
-    const line = label + truncated;
-    const padded = line.padEnd(57);
-    console.log(chalk.bold.cyan('│') + chalk.white(padded) + chalk.bold.cyan('│'));
-  });
-  console.log(chalk.bold.cyan('└─────────────────────────────────────────────────────────┘'));
-  console.log('');
-}
-
-async function editPlanSteps(steps: string[], currentMode: Mode, ask: (q: string) => Promise<string>): Promise<string[]> {
-  console.log(chalk.gray('Enter step number to edit, or press Enter to finish editing:'));
-  const numStr = await ask(chalk.bold('Step #: '));
-  const n = parseInt(numStr.trim(), 10);
-  if (!isNaN(n) && n >= 1 && n <= steps.length) {
-    console.log(chalk.gray(`Current: ${steps[n - 1]}`));
-    const updated = await ask(chalk.bold('New text: '));
-    if (updated.trim()) steps[n - 1] = updated.trim();
-  }
-  return steps;
-}
-
 // ---------------------------------------------------------------------------
 // BUILD MODE
 // ---------------------------------------------------------------------------
 async function buildModeLoop(
   task: string,
-  backendUrl: string,
+  context: RunContext,
+  client: NexusClient,
   currentMode: Mode,
-  ask: (q: string, m?: Mode) => Promise<string>
+  ask: (q: string, m?: Mode) => Promise<string>,
+  onLine: LineListener,
+  plan?: ApprovedPlan
 ): Promise<'switch' | 'done'> {
-  console.log(chalk.bold('Task:'), chalk.white(task));
+  displayTaskLine('Task:', task, context);
+  if (plan && plan.steps.length > 0) {
+    console.log(chalk.gray(`  Executing the approved plan (${plan.steps.length} step${plan.steps.length === 1 ? '' : 's'})`));
+  }
   tui.displayConnecting();
 
   try {
-    const response = await fetch(`${backendUrl}/api/run`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify(buildRunPayload(task, 'engineer', '')),
-      signal: AbortSignal.timeout(120000),
+    const run_id = await client.createRun(task, {
+      ...context,
+      planSteps: plan && toRunSteps(plan.steps),
+      parentRunId: plan?.runId,
     });
-
-    if (!response.ok) {
-      await reportBackendError('Backend error starting run', response);
-      return 'done';
-    }
-
-    const buildText = await response.text();
-    let buildParsed: unknown;
-    try {
-      buildParsed = JSON.parse(buildText);
-    } catch {
-      console.error(chalk.red(`Backend returned invalid JSON: ${buildText.slice(0, 200)}`));
-      return 'done';
-    }
-    const { run_id: buildRunId } = buildParsed as { run_id?: string };
-    if (!buildRunId || typeof buildRunId !== 'string') {
-      console.error(chalk.red('Backend did not return a valid run ID'));
-      return 'done';
-    }
-    if (!/^[a-zA-Z0-9_-]+$/.test(buildRunId)) {
-      console.error(chalk.red('Backend returned run ID with invalid characters'));
-      return 'done';
-    }
-    const run_id = buildRunId;
     tui.displayConnected(run_id);
 
     console.log(chalk.bold.green('⚙️  Executing...'));
+    console.log(`  ${STEERING_HELP}`);
     tui.displayStreamStart();
 
-    const streamResponse = await fetch(`${backendUrl}/api/stream/${run_id}`, { signal: AbortSignal.timeout(120000) });
-    if (!streamResponse.ok) {
-      await reportBackendError('Stream endpoint error', streamResponse);
-      return 'done';
-    }
-    const reader = streamResponse.body?.getReader();
-
-    if (!reader) throw new Error('No response body');
-
     let sawTerminal = false;
+    let declined = false;
     const stallTimer = setTimeout(() => {
       console.log(chalk.gray(`(no events from backend after ${SSE_STALL_WARNING_MS / 1000}s — backend may be stalled; check \`buildwithnexus logs -f\`)`));
     }, SSE_STALL_WARNING_MS);
 
-    try {
-      for await (const parsed of parseSSEStream(reader)) {
-        const type = parsed.type;
+    // Ctrl+C asks whether to abort the backend run, detach or keep watching
+    const progress = new RunProgress();
+    const guard = new RunInterruptGuard(client, run_id, { ask: (q) => ask(q), progress }).arm();
+    const steering = new RunSteering(client, run_id);
+    const stopListening = steering.listen(onLine);
 
-        if (type === 'execution_complete') {
-          const summary = (parsed.data['summary'] as string) || '';
-          const count = (parsed.data['todos_completed'] as number) || 0;
-          tui.displayResults(summary, count);
+    // Follow the run through the approved plan, or the plan it announces
+    const tracker = new PlanTracker(plan?.steps.map((step) => step.text));
+    if (tracker.hasPlan) tui.displayPlanProgress(tracker.steps);
+    // Steps flagged in the plan editor pause the run until approved
+    const approvals = new Set(approvalSteps(plan?.steps ?? []));
+    // File changes the agents propose, reviewed as diffs once the run ends
+    const changes = new ChangeSet(workspaceRoot(process.cwd()));
+
+    try {
+      for await (const event of recordedStream(client, run_id, task, 'BUILD', {
+        signal: guard.signal,
+        // A /pause goes quiet on purpose; don't drop the stream for it
+        paused: () => steering.paused,
+      })) {
+        await guard.gate();
+        if (guard.choice) break;
+        progress.record(event);
+        changes.apply(event);
+        const stepsChanged = tracker.apply(event);
+        if (tracker.hasPlan && isTerminalEvent(event)) tui.displayPlanProgress(tracker.steps);
+
+        if (event.type === 'execution_complete') {
+          tui.displayResults(event.data.summary || '', event.data.todos_completed || 0);
           tui.displayComplete(tui.getElapsedTime());
           sawTerminal = true;
           break;
-        } else if (type === 'done') {
-          tui.displayEvent(type, { content: 'Task completed successfully' });
+        } else if (event.type === 'done') {
+          tui.displayEvent({ type: 'done', data: { content: 'Task completed successfully' } });
           tui.displayComplete(tui.getElapsedTime());
           sawTerminal = true;
           break;
-        } else if (type === 'error') {
-          const errorMsg = (parsed.data['error'] as string) || (parsed.data['content'] as string) || 'Unknown error';
-          tui.displayError(errorMsg);
+        } else if (event.type === 'error') {
+          tui.displayError(errorMessage(event.data));
           sawTerminal = true;
           break;
-        } else if (type !== 'plan') {
-          tui.displayEvent(type, parsed.data);
+        } else if (event.type === 'plan') {
+          if (!tracker.hasPlan && event.data.steps.length > 0) {
+            tracker.reset(event.data.steps);
+            tui.displayPlanProgress(tracker.steps);
+          }
+        } else {
+          tui.displayEvent(event);
+          if (stepsChanged) tui.displayPlanProgress(tracker.steps);
+        }
+
+        const held = stepsChanged ? dueForApproval(tracker.steps, approvals) : null;
+        if (held !== null && !(await steering.holdForApproval(held, tracker.steps[held].text, ask))) {
+          declined = true;
+          break;
         }
       }
+    } catch (err: unknown) {
+      if (!guard.choice) throw err;
     } finally {
       clearTimeout(stallTimer);
+      stopListening();
+      guard.disarm();
+      await steering.settled();
     }
 
-    if (!sawTerminal) {
+    if (!sawTerminal && !guard.choice && !declined) {
       console.log(chalk.yellow('Stream ended without a terminal event (no execution_complete / done / error).'));
       console.log(chalk.gray('  The backend likely crashed mid-run. Check `buildwithnexus logs -f`.'));
     }
+
+    if (changes.size > 0 || changes.rejected.length > 0) {
+      await reviewChanges(changes, ask, { task, runId: run_id });
+    }
   } catch (err: unknown) {
-    const msg = err instanceof Error ? err.message : String(err);
-    console.error(chalk.red('Error: ' + msg));
+    reportBackendError(err);
   }
 
   // Post-execution options
@@ -536,144 +736,249 @@ async function buildModeLoop(
 // ---------------------------------------------------------------------------
 // BRAINSTORM MODE
 // ---------------------------------------------------------------------------
+type BrainstormOutcome =
+  | { next: 'PLAN'; task: string }
+  | { next: 'switch' | 'done' };
+
 async function brainstormModeLoop(
   task: string,
-  backendUrl: string,
-  currentMode: Mode,
-  ask: (q: string, m?: Mode) => Promise<string>
-): Promise<'switch' | 'done'> {
-  console.log(chalk.bold('Starting topic:'), chalk.white(task));
-  console.log(chalk.gray('Ask follow-up questions. Type "done" to exit, "switch" to change mode.\n'));
+  runContext: RunContext,
+  client: NexusClient,
+  ask: (q: string, m?: Mode) => Promise<string>,
+  confirmPlan = true
+): Promise<BrainstormOutcome> {
+  displayTaskLine('Starting topic:', task, runContext);
+  console.log(chalk.gray('Ask follow-up questions. Type "/plan" to turn this into a plan, "done" to exit, "switch" to change mode.\n'));
 
   let currentQuestion = task;
-  const conversationHistory: Array<{ role: 'user' | 'assistant'; content: string }> = [];
+  // Saved to ~/.buildwithnexus/brainstorms so it can be resumed with `brainstorm --resume`
+  const session = createSession(task);
+  const context = new BrainstormContext(session);
+  let saveFailed = false;
+  const save = () => {
+    try {
+      saveSession(session);
+    } catch (err) {
+      if (!saveFailed) console.log(chalk.yellow(`(Could not save this brainstorm: ${err instanceof Error ? err.message : String(err)})`));
+      saveFailed = true;
+    }
+  };
 
   while (true) {
-    // Build task with full conversation history so the model has context
-    const taskWithHistory = conversationHistory.length === 0
-      ? currentQuestion
-      : conversationHistory.map(m => `${m.role === 'user' ? 'User' : 'Assistant'}: ${m.content}`).join('\n\n')
-        + `\n\nUser: ${currentQuestion}`;
+    // Older turns are folded into a summary once the prompt outgrows its budget
+    if (context.needsSummary(currentQuestion)) {
+      console.log(chalk.gray('Summarising earlier turns to keep the context small...'));
+      try {
+        await context.summarise((prompt) => collectReply(client, prompt, `Summarise brainstorm: ${session.title}`, SUMMARY_GOAL, { record: false }));
+        save();
+      } catch (err: unknown) {
+        console.log(chalk.yellow(`(Could not summarise — sending the full conversation: ${err instanceof Error ? err.message : String(err)})`));
+      }
+    }
+    const taskWithHistory = context.prompt(currentQuestion);
 
     try {
-      const response = await fetch(`${backendUrl}/api/run`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(buildRunPayload(
-          taskWithHistory,
-          'brainstorm',
-          'Generate ideas, considerations, and suggestions. Be concise and helpful.',
-        )),
-        signal: AbortSignal.timeout(120000),
+      const run_id = await client.createRun(taskWithHistory, {
+        agentRole: 'brainstorm',
+        agentGoal: 'Generate ideas, considerations, and suggestions. Be concise and helpful.',
+        ...runContext,
       });
 
-      if (!response.ok) {
-        await reportBackendError('Backend error in brainstorm', response);
-      } else {
-        const brainstormText = await response.text();
-        let brainstormParsed: unknown;
-        try {
-          brainstormParsed = JSON.parse(brainstormText);
-        } catch {
-          console.error(chalk.red(`Backend returned invalid JSON: ${brainstormText.slice(0, 200)}`));
-          continue;
-        }
-        const { run_id: brainstormRunId } = brainstormParsed as { run_id?: string };
-        if (!brainstormRunId || typeof brainstormRunId !== 'string') {
-          console.error(chalk.red('Backend did not return a valid run ID'));
-          continue;
-        }
-        if (!/^[a-zA-Z0-9_-]+$/.test(brainstormRunId)) {
-          console.error(chalk.red('Backend returned run ID with invalid characters'));
-          continue;
-        }
-        const run_id = brainstormRunId;
-        const streamResponse = await fetch(`${backendUrl}/api/stream/${run_id}`, { signal: AbortSignal.timeout(120000) });
-        if (!streamResponse.ok) {
-          await reportBackendError('Stream endpoint error', streamResponse);
-          continue;
-        }
-        const reader = streamResponse.body?.getReader();
-
-        if (!reader) {
-          console.error(chalk.red('No response body from agent'));
-          continue;
-        }
+      let responseText = '';
+      let firstEvent = true;
+      const stallTimer = setTimeout(() => {
+        console.log(chalk.gray(`(no events from backend after ${SSE_STALL_WARNING_MS / 1000}s — backend may be stalled; check \`buildwithnexus logs -f\`)`));
+      }, SSE_STALL_WARNING_MS);
+
+      try {
+        for await (const event of recordedStream(client, run_id, currentQuestion, 'BRAINSTORM')) {
+          // Show thinking indicator on first event
+          if (firstEvent && event.type !== 'done' && event.type !== 'error') {
+            console.log(chalk.bold.blue('💭 Thinking...\n'));
+            firstEvent = false;
+          }
 
-        let responseText = '';
-        let firstEvent = true;
-        const stallTimer = setTimeout(() => {
-          console.log(chalk.gray(`(no events from backend after ${SSE_STALL_WARNING_MS / 1000}s — backend may be stalled; check \`buildwithnexus logs -f\`)`));
-        }, SSE_STALL_WARNING_MS);
-
-        try {
-          for await (const parsed of parseSSEStream(reader)) {
-            const type = parsed.type;
-            const data = parsed.data;
-
-            // Show thinking indicator on first event
-            if (firstEvent && type !== 'done' && type !== 'error') {
-              console.log(chalk.bold.blue('💭 Thinking...\n'));
-              firstEvent = false;
+          if (event.type === 'done' || event.type === 'execution_complete' || event.type === 'final_result') {
+            const summary = event.type === 'execution_complete'
+              ? event.data.summary || ''
+              : event.data.summary || event.data.result || '';
+            if (summary) responseText = summary;
+            break;
+          } else if (event.type === 'error') {
+            responseText += errorMessage(event.data) + '\n';
+            break;
+          } else if (event.type === 'thought' || event.type === 'observation') {
+            const content = event.data.content || '';
+            if (content) {
+              console.log(chalk.gray('→ ' + content));
+              responseText += content + '\n';
             }
-
-            if (type === 'done' || type === 'execution_complete' || type === 'final_result') {
-              const summary = (data['summary'] as string) || (data['result'] as string) || '';
-              if (summary) responseText = summary;
-              break;
-            } else if (type === 'error') {
-              const errorMsg = (data['error'] as string) || (data['content'] as string) || 'Unknown error';
-              responseText += errorMsg + '\n';
-              break;
-            } else if (type === 'thought' || type === 'observation') {
-              const content = (data['content'] as string) || '';
-              if (content) {
-                console.log(chalk.gray('→ ' + content));
-                responseText += content + '\n';
-              }
-            } else if (type === 'agent_response' || type === 'agent_result') {
-              // Handle agent response events
-              const content = (data['content'] as string) || (data['result'] as string) || '';
-              if (content) responseText += content + '\n';
-            } else if (type === 'action') {
-              const content = (data['content'] as string) || '';
-              if (content) {
-                console.log(chalk.cyan('⚙️  ' + content));
-                responseText += content + '\n';
-              }
-            } else if (type === 'thinking' || type === 'agent_working' || type === 'started') {
-              // Skip cosmetic/internal events — content not part of final response
-            } else if (type !== 'plan') {
-              // Catch-all for any other event types
-              const content = (data['content'] as string) || (data['response'] as string) || '';
-              if (content) responseText += content + '\n';
+          } else if (event.type === 'agent_response' || event.type === 'agent_result') {
+            // Handle agent response events
+            const content = event.data.content || event.data.result || '';
+            if (content) responseText += content + '\n';
+          } else if (event.type === 'action') {
+            const content = event.data.content || '';
+            if (content) {
+              console.log(chalk.cyan('⚙️  ' + content));
+              responseText += content + '\n';
             }
+          } else if (event.type === 'thinking' || event.type === 'agent_working' || event.type === 'started') {
+            // Skip cosmetic/internal events — content not part of final response
+          } else if (event.type !== 'plan') {
+            // Catch-all for any other event types; malformed events carry no text
+            const content = eventText(event);
+            if (content) responseText += content + '\n';
           }
-        } finally {
-          clearTimeout(stallTimer);
-        }
-        console.log('');
-
-        if (responseText.trim()) {
-          tui.displayBrainstormResponse(responseText.trim());
-          conversationHistory.push({ role: 'user', content: currentQuestion });
-          conversationHistory.push({ role: 'assistant', content: responseText.trim() });
-        } else {
-          console.log(chalk.gray('(No response received from agent — check `buildwithnexus logs -f`)'));
         }
+      } finally {
+        clearTimeout(stallTimer);
+      }
+      console.log('');
+
+      if (responseText.trim()) {
+        tui.displayBrainstormResponse(responseText.trim());
+        addMessage(session, 'user', currentQuestion);
+        addMessage(session, 'assistant', responseText.trim());
+        save();
+        tui.displayContextUsage(context.usage());
+      } else {
+        console.log(chalk.gray('(No response received from agent — check `buildwithnexus logs -f`)'));
       }
     } catch (err: unknown) {
-      const msg = err instanceof Error ? err.message : String(err);
-      console.error(chalk.red('Error: ' + msg));
+      reportBackendError(err);
     }
 
-    const followUp = await ask(chalk.bold.blue('💬 You: '));
+    let followUp = await ask(chalk.bold.blue('💬 You: '));
+    while (followUp.trim().toLowerCase() === '/plan') {
+      const planTask = await distillToTask(client, context, ask, confirmPlan);
+      if (planTask) {
+        if (!saveFailed) console.log(chalk.gray(`Brainstorm saved as ${session.id}`));
+        return { next: 'PLAN', task: planTask };
+      }
+      followUp = await ask(chalk.bold.blue('💬 You: '));
+    }
     const lower = followUp.trim().toLowerCase();
 
-    if (lower === 'done' || lower === 'exit') return 'done';
-    if (lower === 'switch') return 'switch';
+    if (lower === 'done' || lower === 'exit' || lower === 'switch') {
+      if (session.messages.length > 0 && !saveFailed) {
+        console.log(chalk.gray(`Brainstorm saved — resume with: buildwithnexus brainstorm --resume ${session.id}`));
+      }
+      return { next: lower === 'switch' ? 'switch' : 'done' };
+    }
     if (!followUp.trim()) continue;
 
     currentQuestion = followUp.trim();
   }
 }
+
+/**
+ * Run one brainstorm-role turn without rendering it and return the reply
+ * text. Internal side-runs pass `record: false` to keep them out of
+ * ~/.buildwithnexus/runs and `buildwithnexus runs`. `signal` gives up on
+ * the turn; a run given up on before it ends is aborted on the backend.
+ */
+async function collectReply(
+  client: NexusClient,
+  prompt: string,
+  label: string,
+  goal: string,
+  options: { model?: string; signal?: AbortSignal; record?: boolean } = {}
+): Promise<string> {
+  const run_id = await client.createRun(prompt, {
+    agentRole: 'brainstorm',
+    agentGoal: goal,
+    model: options.model,
+    signal: options.signal,
+  });
+  const stream = options.record === false
+    ? client.streamRun(run_id, { ...streamOptions, signal: options.signal })
+    : recordedStream(client, run_id, label, 'BRAINSTORM', { signal: options.signal });
+  let reply = '';
+  let ended = false;
+  try {
+    for await (const event of stream) {
+      if (event.type === 'done' || event.type === 'final_result' || event.type === 'execution_complete') {
+        ended = true;
+        const summary = event.type === 'execution_complete'
+          ? event.data.summary || ''
+          : event.data.summary || event.data.result || '';
+        return summary || reply;
+      }
+      if (event.type === 'error') {
+        ended = true;
+        throw new Error(errorMessage(event.data));
+      }
+      if (event.type === 'agent_response' || event.type === 'agent_result') {
+        const content = event.data.content || event.data.result || '';
+        if (content) reply += content + '\n';
+      }
+    }
+    return reply;
+  } finally {
+    // Stopped waiting (a timeout, a dropped stream): don't leave the run going, and costing, on the backend
+    if (!ended) client.interrupt(run_id, 'abort').catch(() => {});
+  }
+}
+
+function displayTaskBrief(brief: TaskBrief): void {
+  console.log('');
+  console.log(chalk.bold.cyan('📌 Task'));
+  console.log(`   ${chalk.white(brief.task)}`);
+  if (brief.criteria.length > 0) {
+    console.log(chalk.bold.cyan('   Acceptance criteria'));
+    for (const criterion of brief.criteria) console.log(`   ${chalk.cyan('•')} ${chalk.white(criterion)}`);
+  }
+  console.log('');
+}
+
+/**
+ * Ask the backend to distill the conversation into a task with acceptance
+ * criteria and let the user confirm or edit it — unless `confirm` is false,
+ * when a later checkpoint does that. Returns the task text to plan, or null
+ * to keep brainstorming.
+ */
+async function distillToTask(
+  client: NexusClient,
+  context: BrainstormContext,
+  ask: (q: string) => Promise<string>,
+  confirm = true
+): Promise<string | null> {
+  const { session } = context;
+  if (session.messages.length === 0) {
+    console.log(chalk.yellow('Nothing to plan yet — brainstorm a little first.'));
+    return null;
+  }
+
+  console.log(chalk.yellow('⏳ Distilling the conversation into a task...'));
+  let brief: TaskBrief | null;
+  try {
+    brief = parseTaskBrief(await collectReply(client, context.prompt(DISTILL_REQUEST), `Plan from brainstorm: ${session.title}`, DISTILL_GOAL, { record: false }));
+  } catch (err: unknown) {
+    reportBackendError(err);
+    return null;
+  }
+  if (!brief) {
+    console.log(chalk.yellow('The backend did not return a task — try /plan again or keep brainstorming.'));
+    return null;
+  }
+  if (!confirm) return formatTaskBrief(brief);
+
+  while (true) {
+    displayTaskBrief(brief);
+    console.log(chalk.gray('Options: ') + chalk.bold('[Y]') + chalk.gray(' Plan it  ') + chalk.bold('[e]') + chalk.gray(' Edit  ') + chalk.bold('[n]') + chalk.gray(' Keep brainstorming'));
+    const answer = (await ask(tui.displayPermissionPrompt('Plan this task?'))).trim().toLowerCase();
+
+    if (answer === '' || answer === 'y') return formatTaskBrief(brief);
+    if (answer === 'n') return null;
+    if (answer === 'e' || answer === 'edit') {
+      try {
+        const edited = parseTaskBrief(editInEditor(formatTaskBrief(brief) + '\n'));
+        if (edited) brief = edited;
+        else console.log(chalk.yellow('The edited task is empty — keeping the previous version.'));
+      } catch (err: unknown) {
+        console.log(chalk.red(err instanceof Error ? err.message : String(err)));
+      }
+    }
+  }
+}
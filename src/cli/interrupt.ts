@@ -0,0 +1,162 @@
+// src/cli/interrupt.ts — Ctrl+C handling while a run is streaming
+//
+// Killing the CLI does not stop the backend: the run keeps executing (and
+// spending tokens) with nobody watching. While armed, RunInterruptGuard
+// turns Ctrl+C into a choice — abort the run on the backend, detach and
+// leave it running, or keep watching — and pauses rendering while the
+// user decides.
+
+import chalk from 'chalk';
+import type { NexusClient } from '../core/client.js';
+import type { NexusEvent } from '../core/events.js';
+import { DETACHED } from '../core/transcript.js';
+
+export type InterruptChoice = 'abort' | 'detach' | 'watch';
+
+/** Reads one line of input from the user. */
+export type AskFn = (question: string) => Promise<string>;
+
+/** Parse an answer to the interrupt prompt; anything unrecognised keeps watching. */
+export function parseInterruptChoice(answer: string): InterruptChoice {
+  const lower = answer.trim().toLowerCase();
+  if (lower === 'a' || lower === 'abort') return 'abort';
+  if (lower === 'd' || lower === 'detach') return 'detach';
+  return 'watch';
+}
+
+/** What a run has done so far, for the summary printed after an abort. */
+export class RunProgress {
+  readonly completed: Array<{ agent: string; result: string }> = [];
+  private working = new Map<string, string>();
+  eventCount = 0;
+
+  record(event: NexusEvent): void {
+    this.eventCount++;
+    if (event.type === 'agent_working') {
+      this.working.set(event.data.agent || 'Agent', event.data.task || '');
+    } else if (event.type === 'agent_result') {
+      const agent = event.data.agent || 'Agent';
+      this.working.delete(agent);
+      this.completed.push({ agent, result: event.data.result || event.data.content || '' });
+    }
+  }
+
+  /** Agents that started a task without reporting a result. */
+  get inProgress(): Array<{ agent: string; task: string }> {
+    return [...this.working].map(([agent, task]) => ({ agent, task }));
+  }
+}
+
+export class RunInterruptGuard {
+  private readonly controller = new AbortController();
+  private prompt: Promise<void> | null = null;
+  private readonly onSigint = () => {
+    if (this.prompt) {
+      this.print(chalk.gray('  (choose a, d or k)'));
+      return;
+    }
+    this.prompt = this.handle().finally(() => {
+      this.prompt = null;
+    });
+  };
+
+  /** The user's final choice, once they abort or detach. */
+  choice: Exclude<InterruptChoice, 'watch'> | null = null;
+
+  private readonly ask?: AskFn;
+  private readonly progress?: RunProgress;
+  private readonly print: (line: string) => void;
+
+  /**
+   * Without `ask` (no TTY, machine-readable output) Ctrl+C aborts straight
+   * away. `progress` is summarised after an abort; `print` receives every
+   * status line (console.log by default).
+   */
+  constructor(
+    private readonly client: NexusClient,
+    private readonly runId: string,
+    options: { ask?: AskFn; progress?: RunProgress; print?: (line: string) => void } = {},
+  ) {
+    this.ask = options.ask;
+    this.progress = options.progress;
+    this.print = options.print ?? ((line) => console.log(line));
+  }
+
+  /** Aborted (reason: DETACHED for a detach) once the stream should stop. */
+  get signal(): AbortSignal {
+    return this.controller.signal;
+  }
+
+  arm(): this {
+    process.on('SIGINT', this.onSigint);
+    return this;
+  }
+
+  disarm(): void {
+    process.removeListener('SIGINT', this.onSigint);
+  }
+
+  /** Resolves once no prompt is open. Await before rendering each event. */
+  async gate(): Promise<void> {
+    while (this.prompt) await this.prompt;
+  }
+
+  private async handle(): Promise<void> {
+    let choice: InterruptChoice = 'abort';
+    if (this.ask) {
+      this.print('');
+      choice = parseInterruptChoice(await this.ask(
+        chalk.yellow('⏸  Output paused — the run continues. ') +
+          chalk.bold('[a]') + chalk.gray(' abort run  ') +
+          chalk.bold('[d]') + chalk.gray(' detach (run continues)  ') +
+          chalk.bold('[k]') + chalk.gray(' keep watching') +
+          chalk.bold(' > ')
+      ));
+    }
+
+    if (choice === 'watch') {
+      this.print(chalk.gray('  Resuming stream…\n'));
+      return;
+    }
+
+    this.choice = choice;
+    if (choice === 'detach') {
+      this.print(chalk.gray(`\n  Detached — run ${this.runId} keeps running on the backend.`));
+      this.print(chalk.gray(`  Reattach with: buildwithnexus runs attach ${this.runId}`));
+      this.controller.abort(DETACHED);
+      return;
+    }
+
+    this.print(chalk.yellow(`\n  Aborting run ${this.runId}…`));
+    try {
+      await this.client.interrupt(this.runId, 'abort');
+      this.print(chalk.green('  ✔ Backend acknowledged the abort'));
+    } catch (err) {
+      this.print(chalk.red(`  ✖ Abort not acknowledged: ${err instanceof Error ? err.message : String(err)}`));
+      this.print(chalk.gray(`  The run may still be executing. Retry with: buildwithnexus runs cancel ${this.runId}`));
+    }
+    if (this.progress) {
+      for (const line of describeProgress(this.progress)) this.print(line);
+    }
+    this.controller.abort();
+  }
+}
+
+/** Lines summarising what a run completed, printed after an abort. */
+export function describeProgress(progress: RunProgress): string[] {
+  const lines = [''];
+  if (progress.completed.length === 0) {
+    lines.push(chalk.gray(`  Nothing completed yet (${progress.eventCount} event(s) received).`));
+  } else {
+    lines.push(chalk.bold(`  Completed before the abort (${progress.completed.length}):`));
+    for (const { agent, result } of progress.completed) {
+      const text = result.length > 80 ? result.substring(0, 77) + '...' : result;
+      lines.push(`    ${chalk.green('✔')} ${chalk.cyan(agent)} ${chalk.white(text)}`);
+    }
+  }
+  for (const { agent, task } of progress.inProgress) {
+    lines.push(`    ${chalk.yellow('◌')} ${chalk.cyan(agent)} ${chalk.gray(`(stopped) ${task}`)}`);
+  }
+  lines.push('');
+  return lines;
+}
@@ -0,0 +1,133 @@
+// src/cli/multiline.ts — multi-line task entry for the interactive prompt
+//
+// A task can span lines three ways: paste it (bracketed paste keeps the
+// pasted newlines; press Enter to submit), end a line with `\` to continue
+// on the next, or wrap it in lines containing only `"""`. `/edit` composes
+// the task in $EDITOR instead.
+import type * as readline from 'readline';
+import chalk from 'chalk';
+import { editInEditor } from './external-editor.js';
+
+const BLOCK_FENCE = '"""';
+const CONTINUATION_PROMPT = chalk.gray('… ');
+
+// Set once trackPastes has turned bracketed paste on (and arranged to turn it off)
+let bracketedPaste = false;
+
+const TASK_TEMPLATE = [
+  '<!--',
+  '  Describe the task for NEXUS. Markdown is fine: specs, stack traces,',
+  '  requirements, acceptance criteria. This comment is removed.',
+  '  Save and close the editor to continue; leave it empty to cancel.',
+  '-->',
+  '',
+  '',
+].join('\n');
+
+/** Joins the lines of one multi-line entry. */
+export class TaskComposer {
+  private lines: string[] = [];
+  private inBlock = false;
+
+  /**
+   * Add a line. `pasting` marks lines that arrived inside a bracketed paste.
+   * Returns the finished entry, or null while more lines are expected.
+   */
+  push(line: string, pasting = false): string | null {
+    if (pasting) {
+      this.lines.push(line);
+      return null;
+    }
+    if (line.trim() === BLOCK_FENCE) {
+      if (this.inBlock) return this.finish();
+      this.inBlock = true;
+      return null;
+    }
+    if (this.inBlock) {
+      this.lines.push(line);
+      return null;
+    }
+    if (line.endsWith('\\')) {
+      this.lines.push(line.slice(0, -1));
+      return null;
+    }
+    this.lines.push(line);
+    return this.finish();
+  }
+
+  private finish(): string {
+    const text = this.lines.join('\n').replace(/^\s*\n|\s+$/g, '');
+    this.lines = [];
+    this.inBlock = false;
+    return text;
+  }
+}
+
+/** The task text saved from the /edit template, without its instructions. */
+export function stripTaskTemplate(text: string): string {
+  return text.replace(/<!--[\s\S]*?-->/g, '').trim();
+}
+
+/**
+ * Turn on bracketed paste so pasted newlines don't submit the task, and
+ * track whether a paste is in progress. Returns a function telling whether
+ * input is currently being pasted.
+ */
+export function trackPastes(input: NodeJS.ReadStream = process.stdin): () => boolean {
+  let pasting = false;
+  if (input.isTTY && process.stdout.isTTY) {
+    bracketedPaste = true;
+    enableBracketedPaste();
+    process.once('exit', () => process.stdout.write('\x1b[?2004l'));
+  }
+  input.on('keypress', (_: string, key?: { name?: string }) => {
+    if (key?.name === 'paste-start') pasting = true;
+    else if (key?.name === 'paste-end') pasting = false;
+  });
+  return () => pasting;
+}
+
+function enableBracketedPaste(): void {
+  if (bracketedPaste) process.stdout.write('\x1b[?2004h');
+}
+
+/**
+ * Read one task from `rl`, across as many lines as it takes. Listens to
+ * 'line' events rather than rl.question so the lines of a paste, which
+ * arrive together, are not lost between questions.
+ */
+export function readTask(rl: readline.Interface, prompt: string, isPasting: () => boolean): Promise<string> {
+  return new Promise((resolve) => {
+    const composer = new TaskComposer();
+    const onLine = (line: string) => {
+      const text = composer.push(line, isPasting());
+      if (text !== null) {
+        rl.removeListener('line', onLine);
+        resolve(text);
+      } else if (!isPasting()) {
+        rl.setPrompt(CONTINUATION_PROMPT);
+        rl.prompt();
+      }
+    };
+    rl.on('line', onLine);
+    rl.setPrompt(prompt);
+    rl.prompt();
+  });
+}
+
+/**
+ * Compose a task in $EDITOR from a short template. Returns the saved text,
+ * or null when the user left it empty or the editor failed (reported).
+ */
+export function composeTaskInEditor(initial = ''): string | null {
+  try {
+    const text = stripTaskTemplate(editInEditor(TASK_TEMPLATE + initial));
+    return text || null;
+  } catch (err) {
+    console.log(chalk.red(err instanceof Error ? err.message : String(err)));
+    return null;
+  } finally {
+    // Editors commonly reset terminal modes on exit
+    enableBracketedPaste();
+  }
+}
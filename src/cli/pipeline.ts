@@ -0,0 +1,139 @@
+// src/cli/pipeline.ts — run a compound task as BRAINSTORM → PLAN → BUILD
+import chalk, { type ChalkInstance } from 'chalk';
+import type { Mode } from './tui.js';
+import type { IntentStage } from './intent-classifier.js';
+
+const MODE_COLOR: Record<Mode, ChalkInstance> = {
+  PLAN: chalk.cyan,
+  BUILD: chalk.green,
+  BRAINSTORM: chalk.blue,
+};
+
+export interface PipelineStage {
+  mode: Mode;
+  /** The part of the task that asked for this stage. */
+  text: string;
+}
+
+/** The stages of a compound task, in the order they run. */
+export class ModePipeline {
+  readonly stages: PipelineStage[];
+
+  constructor(stages: readonly IntentStage[]) {
+    this.stages = stages.map((stage) => ({ mode: stage.intent.toUpperCase() as Mode, text: stage.text }));
+  }
+
+  get modes(): Mode[] {
+    return this.stages.map((stage) => stage.mode);
+  }
+
+  /**
+   * The part of `task` a stage works from: everything up to the end of
+   * that stage's words, so it keeps the context before it but not the
+   * stages after it. `task` is the task the stages were detected in.
+   */
+  taskFor(mode: Mode, task: string): string {
+    let end = 0;
+    for (const stage of this.stages) {
+      const at = task.indexOf(stage.text, end);
+      if (at !== -1) end = at + stage.text.length;
+      if (stage.mode === mode) return task.slice(0, end).trim() || task;
+    }
+    return task;
+  }
+
+  /** The stage that follows `mode`, if any. */
+  nextAfter(mode: Mode): Mode | undefined {
+    const index = this.modes.indexOf(mode);
+    return index === -1 ? undefined : this.modes[index + 1];
+  }
+}
+
+/** What each stage hands on, and how to finish it. */
+function stageHint(mode: Mode, next: Mode | undefined): string {
+  if (!next) return 'Last stage.';
+  if (mode === 'BRAINSTORM') return `Type /plan to distil the conversation into the task handed to ${next}.`;
+  if (mode === 'PLAN') return `Approving the plan continues to ${next} with it.`;
+  return `Then ${next}.`;
+}
+
+/**
+ * The pipeline as one line — finished stages ticked, the current one
+ * highlighted — followed by a hint for the current stage. Without
+ * `current`, lists every stage with the words that asked for it.
+ */
+export function displayPipeline(pipeline: ModePipeline, current?: Mode): void {
+  if (!current) {
+    console.log(chalk.bold('🔗 This task has several stages:'));
+    pipeline.stages.forEach((stage, i) => {
+      console.log(`   ${i + 1}. ${MODE_COLOR[stage.mode](stage.mode.padEnd(10))} ${chalk.gray(stage.text)}`);
+    });
+    return;
+  }
+  const position = pipeline.modes.indexOf(current);
+  const parts = pipeline.modes.map((mode, i) => {
+    if (i < position) return chalk.gray(`✔ ${mode}`);
+    if (i === position) return MODE_COLOR[mode].bold(`● ${mode}`);
+    return chalk.gray(mode);
+  });
+  console.log(chalk.gray('Pipeline: ') + parts.join(chalk.gray(' → ')));
+  console.log(chalk.gray(`  Stage ${position + 1} of ${pipeline.stages.length}. ${stageHint(current, pipeline.nextAfter(current))}`));
+  console.log('');
+}
+
+/**
+ * Show the stages and ask whether to run them as a pipeline. Only an
+ * explicit yes does: splitting a task is a guess, so Enter picks a single
+ * mode as usual.
+ */
+export async function offerPipeline(pipeline: ModePipeline, ask: (q: string) => Promise<string>): Promise<boolean> {
+  console.log('');
+  displayPipeline(pipeline);
+  console.log('');
+  console.log(
+    chalk.bold('[y]') +
+      chalk.gray(` Run ${pipeline.modes.join(' → ')}, each stage feeding the next  `) +
+      chalk.bold('[Enter]') +
+      chalk.gray(' Pick a single mode')
+  );
+  const answer = (await ask(chalk.gray('> '))).trim().toLowerCase();
+  return answer === 'y' || answer === 'yes' || answer === 'p' || answer === 'pipeline';
+}
+
+export type CheckpointOutcome = { next: 'continue'; task: string } | { next: 'stop' };
+
+/**
+ * Pause between two stages: show what the next stage will get, and let the
+ * user continue with it, edit it, or stop the pipeline.
+ */
+export async function pipelineCheckpoint(
+  from: Mode,
+  to: Mode,
+  handoff: string,
+  ask: (q: string) => Promise<string>,
+  note?: string
+): Promise<CheckpointOutcome> {
+  let task = handoff;
+  while (true) {
+    console.log('');
+    console.log(chalk.bold(`── Checkpoint: ${from} ✔ → ${MODE_COLOR[to](to)} ──`));
+    if (note) console.log(chalk.yellow(`  ${note}`));
+    console.log(chalk.gray(`  ${to} will work on:`));
+    for (const line of task.split('\n')) console.log(`    ${chalk.white(line)}`);
+    console.log(
+      chalk.gray('Options: ') +
+        chalk.bold('[Enter]') + chalk.gray(` Continue to ${to}  `) +
+        chalk.bold('[e]') + chalk.gray(' Edit  ') +
+        chalk.bold('[s]') + chalk.gray(' Stop here')
+    );
+    const answer = (await ask(chalk.bold('> '))).trim().toLowerCase();
+
+    if (answer === '' || answer === 'y' || answer === 'c' || answer === 'continue') return { next: 'continue', task };
+    if (answer === 's' || answer === 'stop' || answer === 'n') return { next: 'stop' };
+    if (answer === 'e' || answer === 'edit') {
+      const edited = (await ask(chalk.bold(`Task for ${to}: `))).trim();
+      if (edited) task = edited;
+      note = undefined;
+    }
+  }
+}
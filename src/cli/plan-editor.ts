@@ -0,0 +1,320 @@
+// src/cli/plan-editor.ts — interactive review of a plan before BUILD
+import chalk from 'chalk';
+import {
+  PLAN_FILE_VERSION,
+  PlanEditor,
+  diffPlan,
+  planFromMarkdown,
+  planToMarkdown,
+  type PlanDocument,
+  type PlanStep,
+} from '../core/plan.js';
+import type { NexusClient } from '../core/client.js';
+import { resolvedVersion } from '../core/version.js';
+import { editInEditor } from './external-editor.js';
+
+export type PlanCommand =
+  | { kind: 'edit'; step: number; text: string }
+  | { kind: 'insert'; step: number; text: string }
+  | { kind: 'append'; text: string }
+  | { kind: 'delete'; step: number }
+  | { kind: 'move'; from: number; to: number }
+  | { kind: 'split'; step: number; parts: string[] }
+  | { kind: 'skip'; step: number }
+  | { kind: 'approval'; step: number }
+  | { kind: 'note'; step: number; text: string }
+  | { kind: 'undo' }
+  | { kind: 'diff' }
+  | { kind: 'editor' }
+  | { kind: 'help' }
+  | { kind: 'done' }
+  | { kind: 'invalid'; reason: string };
+
+const HELP_LINES = [
+  ['<n> [text]', 'replace the text of step n'],
+  ['i <n> [text]', 'insert a step before step n'],
+  ['a [text]', 'append a step'],
+  ['d <n>', 'delete step n'],
+  ['m <from> <to>', 'move a step'],
+  ['split <n> [a | b]', 'split step n into parts separated by |'],
+  ['skip <n>', 'toggle skipping step n'],
+  ['approve <n>', 'toggle holding step n for approval'],
+  ['note <n> [text]', 'attach a note (empty clears it)'],
+  ['u', 'undo the last change'],
+  ['diff', "compare with the backend's plan"],
+  ['$', 'edit the whole plan in $EDITOR'],
+  ['Enter', 'finish editing'],
+];
+
+function stepNumber(token: string | undefined): number | null {
+  if (!token || !/^\d+$/.test(token)) return null;
+  return parseInt(token, 10);
+}
+
+/** Parse one editor command. Step numbers stay 1-based as typed. */
+export function parsePlanCommand(line: string): PlanCommand {
+  const input = line.trim();
+  if (!input || input === 'done' || input === 'q') return { kind: 'done' };
+
+  const [head, ...rest] = input.split(/\s+/);
+  const command = head.toLowerCase();
+  const n = stepNumber(rest[0]);
+  const textAfterStep = rest.slice(1).join(' ');
+  const needsStep = (usage: string): PlanCommand => ({ kind: 'invalid', reason: `Usage: ${usage}` });
+
+  // A bare number edits that step
+  const bare = stepNumber(head);
+  if (bare !== null) return { kind: 'edit', step: bare, text: rest.join(' ') };
+
+  switch (command) {
+    case 'e':
+    case 'edit':
+      return n === null ? needsStep('e <n> [text]') : { kind: 'edit', step: n, text: textAfterStep };
+    case 'i':
+    case 'insert':
+      return n === null ? needsStep('i <n> [text]') : { kind: 'insert', step: n, text: textAfterStep };
+    case 'a':
+    case 'add':
+    case 'append':
+      return { kind: 'append', text: rest.join(' ') };
+    case 'd':
+    case 'del':
+    case 'delete':
+      return n === null ? needsStep('d <n>') : { kind: 'delete', step: n };
+    case 'm':
+    case 'mv':
+    case 'move': {
+      const to = stepNumber(rest[1]);
+      return n === null || to === null ? needsStep('m <from> <to>') : { kind: 'move', from: n, to };
+    }
+    case 'split': {
+      if (n === null) return needsStep('split <n> [first part | second part]');
+      const parts = textAfterStep ? textAfterStep.split('|').map((p) => p.trim()) : [];
+      return { kind: 'split', step: n, parts };
+    }
+    case 'skip':
+      return n === null ? needsStep('skip <n>') : { kind: 'skip', step: n };
+    case 'approve':
+    case 'approval':
+    case 'hold':
+      return n === null ? needsStep('approve <n>') : { kind: 'approval', step: n };
+    case 'note':
+      return n === null ? needsStep('note <n> [text]') : { kind: 'note', step: n, text: textAfterStep };
+    case 'u':
+    case 'undo':
+      return { kind: 'undo' };
+    case 'diff':
+      return { kind: 'diff' };
+    case '$':
+    case 'editor':
+      return { kind: 'editor' };
+    case '?':
+    case 'h':
+    case 'help':
+      return { kind: 'help' };
+    default:
+      return { kind: 'invalid', reason: `Unknown command "${head}" — type ? for help` };
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// DISPLAY
+// ═══════════════════════════════════════════════════════════════════
+
+function stepMarker(step: PlanStep): string {
+  if (step.status === 'skip') return chalk.gray('⊘');
+  if (step.status === 'needs-approval') return chalk.yellow('⚑');
+  return chalk.cyan('○');
+}
+
+export function displayPlanSteps(steps: readonly PlanStep[]): void {
+  console.log('');
+  console.log(chalk.bold.cyan('┌─────────────────────────────────────────────────────────┐'));
+  console.log(chalk.bold.cyan('│') + chalk.bold.white('  📋 Execution Plan                                      ') + chalk.bold.cyan('│'));
+  console.log(chalk.bold.cyan('├─────────────────────────────────────────────────────────┤'));
+  if (steps.length === 0) {
+    console.log(chalk.bold.cyan('│') + chalk.gray('  (no steps)'.padEnd(57)) + chalk.bold.cyan('│'));
+  }
+  steps.forEach((step, i) => {
+    const label = `  Step ${i + 1}: `;
+    const maxContentWidth = 55 - label.length;
+    const truncated = step.text.length > maxContentWidth ? step.text.substring(0, maxContentWidth - 3) + '...' : step.text;
+    const padded = (label + truncated).padEnd(55);
+    const body = step.status === 'skip' ? chalk.gray.strikethrough(padded) : chalk.white(padded);
+    console.log(chalk.bold.cyan('│') + body + stepMarker(step) + ' ' + chalk.bold.cyan('│'));
+    if (step.note) {
+      const note = `      ✎ ${step.note}`;
+      const clipped = note.length > 57 ? note.substring(0, 54) + '...' : note;
+      console.log(chalk.bold.cyan('│') + chalk.gray(clipped.padEnd(57)) + chalk.bold.cyan('│'));
+    }
+  });
+  console.log(chalk.bold.cyan('└─────────────────────────────────────────────────────────┘'));
+  if (steps.some((s) => s.status !== 'run')) {
+    console.log(chalk.gray(`  ${chalk.gray('⊘')} skipped   ${chalk.yellow('⚑')} held for approval`));
+  }
+  console.log('');
+}
+
+export function displayPlanDiff(original: readonly string[], steps: readonly PlanStep[]): void {
+  const diff = diffPlan(original, steps);
+  if (diff.every((line) => line.kind === 'same')) {
+    console.log(chalk.gray('  No changes from the backend plan.\n'));
+    return;
+  }
+  console.log(chalk.bold('  Changes from the backend plan:'));
+  for (const line of diff) {
+    switch (line.kind) {
+      case 'same':
+        console.log(chalk.gray(`    ${line.text}`));
+        break;
+      case 'removed':
+        console.log(chalk.red(`  - ${line.text}`));
+        break;
+      case 'added':
+      case 'changed': {
+        const flags = [
+          line.step.status === 'skip' ? 'skip' : '',
+          line.step.status === 'needs-approval' ? 'needs approval' : '',
+          line.step.note ? `note: ${line.step.note}` : '',
+        ].filter(Boolean).join('; ');
+        const suffix = flags ? chalk.gray(` [${flags}]`) : '';
+        console.log(line.kind === 'added'
+          ? chalk.green(`  + ${line.step.text}`) + suffix
+          : chalk.yellow(`  ~ ${line.step.text}`) + suffix);
+        break;
+      }
+    }
+  }
+  console.log('');
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// EDIT SESSION
+// ═══════════════════════════════════════════════════════════════════
+
+/**
+ * Run editor commands against `editor` until the user finishes. `task`
+ * titles the $EDITOR checklist; `original` is the backend's plan, for diffs.
+ */
+export async function runPlanEditor(
+  editor: PlanEditor,
+  task: string,
+  original: readonly string[],
+  ask: (q: string) => Promise<string>,
+): Promise<void> {
+  console.log(chalk.gray('Edit the plan — type ? for commands, Enter when done.'));
+
+  while (true) {
+    const command = parsePlanCommand(await ask(chalk.bold('plan> ')));
+    if (command.kind === 'done') return;
+
+    try {
+      const changed = await applyCommand(editor, command, task, original, ask);
+      if (changed) displayPlanSteps(editor.steps);
+    } catch (err) {
+      console.log(chalk.red(`  ${err instanceof Error ? err.message : String(err)}`));
+    }
+  }
+}
+
+/** Apply one command. Returns true when the plan changed and should be redrawn. */
+async function applyCommand(
+  editor: PlanEditor,
+  command: Exclude<PlanCommand, { kind: 'done' }>,
+  task: string,
+  original: readonly string[],
+  ask: (q: string) => Promise<string>,
+): Promise<boolean> {
+  const askIfEmpty = async (text: string, question: string) => text.trim() || (await ask(chalk.bold(question)));
+
+  switch (command.kind) {
+    case 'invalid':
+      console.log(chalk.yellow(`  ${command.reason}`));
+      return false;
+    case 'help':
+      for (const [usage, description] of HELP_LINES) {
+        console.log(`  ${chalk.bold(usage.padEnd(18))} ${chalk.gray(description)}`);
+      }
+      return false;
+    case 'diff':
+      displayPlanDiff(original, editor.steps);
+      return false;
+    case 'undo':
+      if (!editor.undo()) {
+        console.log(chalk.gray('  Nothing to undo'));
+        return false;
+      }
+      return true;
+    case 'edit': {
+      editor.assertStep(command.step - 1);
+      if (!command.text) console.log(chalk.gray(`  Current: ${editor.steps[command.step - 1].text}`));
+      editor.edit(command.step - 1, await askIfEmpty(command.text, 'New text: '));
+      return true;
+    }
+    case 'insert':
+      editor.assertInsertPosition(command.step - 1);
+      editor.insert(command.step - 1, await askIfEmpty(command.text, 'New step: '));
+      return true;
+    case 'append':
+      editor.insert(editor.steps.length, await askIfEmpty(command.text, 'New step: '));
+      return true;
+    case 'delete':
+      editor.remove(command.step - 1);
+      return true;
+    case 'move':
+      editor.move(command.from - 1, command.to - 1);
+      return true;
+    case 'split': {
+      let parts = command.parts;
+      editor.assertStep(command.step - 1);
+      if (parts.length < 2) {
+        console.log(chalk.gray(`  Current: ${editor.steps[command.step - 1].text}`));
+        parts = (await ask(chalk.bold('Parts (separate with |): '))).split('|');
+      }
+      editor.split(command.step - 1, parts);
+      return true;
+    }
+    case 'skip':
+      editor.toggle(command.step - 1, 'skip');
+      return true;
+    case 'approval':
+      editor.toggle(command.step - 1, 'needs-approval');
+      return true;
+    case 'note':
+      editor.assertStep(command.step - 1);
+      editor.setNote(command.step - 1, command.text || (await ask(chalk.bold('Note (empty clears): '))));
+      return true;
+    case 'editor': {
+      const edited = planFromMarkdown(editInEditor(planToMarkdown(task, editor.steps)));
+      if (edited.length === 0) {
+        console.log(chalk.yellow('  The edited plan has no steps — keeping the previous version'));
+        return false;
+      }
+      editor.replace(edited);
+      return true;
+    }
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// PLAN FILES
+// ═══════════════════════════════════════════════════════════════════
+
+/** Wrap reviewed steps in a plan file document, recording where they came from. */
+export async function planDocument(
+  client: NexusClient,
+  task: string,
+  steps: readonly PlanStep[],
+  sourceRunId?: string,
+): Promise<PlanDocument> {
+  return {
+    version: PLAN_FILE_VERSION,
+    task,
+    created_at: new Date().toISOString(),
+    cli_version: resolvedVersion,
+    backend_url: client.baseUrl,
+    backend_version: await client.backendVersion(5_000),
+    ...(sourceRunId ? { source_run_id: sourceRunId } : {}),
+    steps: steps.map((step) => ({ ...step })),
+  };
+}
@@ -1,91 +1,253 @@
 // src/cli/run-command.ts
+import * as readline from 'readline';
 import { tui } from './tui.js';
 import { validateBackendUrl } from '../core/config.js';
-import { buildRunPayload, checkServerHealth } from '../core/api.js';
-import { parseSSEStream } from '../core/sse-parser.js';
+import { NexusClient, NexusApiError } from '../core/client.js';
+import { redact } from '../core/dlp.js';
+import { errorMessage, eventText, isTerminalEvent, type NexusEvent } from '../core/events.js';
+import { PlanTracker } from '../core/plan-progress.js';
 import { getBackendUrl } from '../core/secrets.js';
+import { TranscriptWriter } from '../core/transcript.js';
+import { RunInterruptGuard, RunProgress } from './interrupt.js';
+import { RunSteering, dueForApproval } from './steering.js';
+import { approvalSteps, runSteps, toRunSteps, type PlanStep } from '../core/plan.js';
+import { gatherRunContext } from './run-context.js';
+import { workspaceSharingEnabled } from '../core/workspace.js';
+import { workspaceRoot } from '../core/attachments.js';
+import { ChangeSet } from '../core/file-changes.js';
+import { reviewChanges } from './change-review.js';
+import {
+  RUN_EXIT_CODES,
+  serializeEvent,
+  serializeRunDocument,
+  wireEvent,
+  type OutputFormat,
+  type RunStatus,
+} from './run-output.js';
+
+/** Ask one question on a short-lived readline, so stdin is not held open while streaming. */
+function askLine(question: string): Promise<string> {
+  return new Promise((resolve) => {
+    const rl = readline.createInterface({ input: process.stdin, output: process.stdout });
+    // Further Ctrl+C presses while the question is open must not close it unanswered
+    rl.on('SIGINT', () => process.emit('SIGINT'));
+    rl.question(question, (answer) => {
+      rl.close();
+      resolve(answer);
+    });
+  });
+}
 
 export async function runCommand(
   task: string,
-  options: { agent: string; goal?: string; model: string }
+  options: {
+    agent: string;
+    goal?: string;
+    model: string;
+    output?: OutputFormat;
+    /** Reviewed plan to execute (see `apply`); skipped steps are left out. */
+    planSteps?: PlanStep[];
+    /** Planning run the plan came from, so the backend can reuse its context. */
+    parentRunId?: string;
+    /** False with --no-context: send no workspace snapshot. */
+    context?: boolean;
+  }
 ) {
+  const output = options.output ?? 'text';
+  const text = output === 'text';
   const backendUrl = getBackendUrl();
+  const startedAt = Date.now();
+
+  const events: NexusEvent[] = [];
+  let runId: string | null = null;
+  let status: RunStatus = 'error';
+  let summary = '';
+  let todosCompleted = 0;
+  let failure: string | undefined;
+
+  // In machine-readable modes stdout carries only the requested format
+  const finish = (): never => {
+    if (output === 'json') {
+      console.log(serializeRunDocument({
+        run_id: runId,
+        status,
+        summary,
+        todos_completed: todosCompleted,
+        duration_ms: Date.now() - startedAt,
+        ...(failure ? { error: failure } : {}),
+        events: events.map(wireEvent),
+      }));
+    } else if (!text && failure) {
+      console.error(redact(`Error: ${failure}`));
+    }
+    process.exit(RUN_EXIT_CODES[status]);
+  };
 
   // Validate backend URL security before transmitting API keys
   const urlCheck = validateBackendUrl(backendUrl);
   if (!urlCheck.valid) {
-    console.error(`\n${urlCheck.error}`);
-    process.exit(1);
+    if (text) console.error(`\n${urlCheck.error}`);
+    failure = urlCheck.error;
+    finish();
   }
 
-  tui.displayHeader(task, options.agent);
-  tui.displayConnecting();
+  if (text) {
+    tui.displayHeader(task, options.agent);
+    tui.displayConnecting();
+  }
+
+  const client = new NexusClient({ baseUrl: backendUrl });
+
+  let guard: RunInterruptGuard | null = null;
+  // File changes the agents propose, reviewed as diffs once the stream ends
+  const changes = new ChangeSet(workspaceRoot(process.cwd()));
 
   try {
     // Check backend is running
-    if (!(await checkServerHealth(backendUrl))) {
-      console.error(
-        'Backend not responding. Start it with:\n' +
-        '   buildwithnexus server'
-      );
-      process.exit(1);
+    if (!(await client.health())) {
+      failure = 'Backend not responding. Start it with: buildwithnexus server';
+      if (text) {
+        console.error(
+          'Backend not responding. Start it with:\n' +
+          '   buildwithnexus server'
+        );
+      }
+      finish();
     }
 
-    // POST to backend
-    const payload = buildRunPayload(task, options.agent, options.goal || '');
-    const response = await fetch(`${backendUrl}/api/run`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify(payload),
+    // @path attachments and the workspace snapshot; reported on stderr in machine modes
+    const context = gatherRunContext(task, {
+      workspace: options.context !== false && workspaceSharingEnabled(),
+      print: text ? undefined : (line) => console.error(line),
     });
 
-    if (!response.ok) {
-      console.error('Backend error');
-      console.error(await response.text());
-      process.exit(1);
+    runId = await client.createRun(task, {
+      agentRole: options.agent,
+      agentGoal: options.goal || '',
+      planSteps: options.planSteps && toRunSteps(options.planSteps),
+      parentRunId: options.parentRunId,
+      model: options.model,
+      ...context,
+    });
+    if (text) {
+      tui.displayConnected(runId);
+      tui.displayStreamStart();
     }
 
-    const { run_id } = (await response.json()) as { run_id: string };
-    tui.displayConnected(run_id);
-    tui.displayStreamStart();
+    // Ctrl+C asks whether to abort the backend run, detach or keep watching.
+    // Without a terminal to ask on it aborts, keeping stdout clean for scripts.
+    const progress = new RunProgress();
+    guard = new RunInterruptGuard(client, runId, {
+      ask: text && process.stdin.isTTY ? askLine : undefined,
+      progress,
+      print: text ? undefined : (line) => console.error(line),
+    }).arm();
 
-    // Connect to Server-Sent Events stream
-    const eventSourceUrl = `${backendUrl}/api/stream/${run_id}`;
+    // Dropped connections are resumed with Last-Event-ID; report that on the TUI or stderr.
+    // The run is recorded to ~/.buildwithnexus/runs for `buildwithnexus replay`.
+    const transcript = TranscriptWriter.start({ run_id: runId, task, mode: 'RUN', backend_url: client.baseUrl });
+    const stream = transcript.tee(client.streamRun(runId, {
+      signal: guard.signal,
+      onReconnecting: (info) => {
+        if (text) tui.displayReconnecting(info);
+        else console.error(`Connection lost — reconnecting (attempt ${info.attempt}/${info.maxAttempts}): ${info.reason}`);
+      },
+      onReconnected: () => {
+        if (text) tui.displayReconnected();
+      },
+    }), guard.signal);
 
-    try {
-      const response = await fetch(eventSourceUrl);
-      const reader = response.body?.getReader();
+    // Follow the run through its plan (from `apply`, or the one it announces)
+    const tracker = new PlanTracker(options.planSteps && runSteps(options.planSteps).map((step) => step.text));
+    if (text && tracker.hasPlan) tui.displayPlanProgress(tracker.steps);
 
-      if (!reader) {
-        throw new Error('No response body');
-      }
+    // Steps flagged for approval pause the run until the user lets them go ahead
+    const approvals = new Set(approvalSteps(options.planSteps ?? []));
+    const interactive = text && process.stdin.isTTY;
+    const steering = new RunSteering(client, runId);
+    if (approvals.size > 0 && !interactive) {
+      console.error(`${approvals.size} step(s) flagged for approval will not be held — there is no terminal to ask on`);
+    }
 
-      for await (const parsed of parseSSEStream(reader)) {
-        const type = parsed.type;
-        const data = parsed.data as Record<string, string>;
-        const eventContent = data['content'] || data['summary'] || data['result'] || data['task'] || '';
+    for await (const event of stream) {
+      await guard.gate();
+      if (guard.choice) break;
+      events.push(event);
+      progress.record(event);
+      changes.apply(event);
+      if (output === 'ndjson') console.log(serializeEvent(event));
+      const stepsChanged = tracker.apply(event);
+      if (text && tracker.hasPlan && isTerminalEvent(event)) tui.displayPlanProgress(tracker.steps);
 
-        if (type === 'done') {
-          tui.displayEvent(type, { content: eventContent || 'Task completed successfully' });
+      if (event.type === 'done') {
+        status = 'done';
+        summary = eventText(event);
+        if (text) {
+          tui.displayEvent({ type: 'done', data: { content: summary || 'Task completed successfully' } });
           tui.displayComplete(tui.getElapsedTime());
-          process.exit(0);
-        } else if (type === 'error') {
-          tui.displayError(data['error'] || eventContent || 'Unknown error');
-          process.exit(1);
-        } else {
-          tui.displayEvent(type, { content: eventContent });
         }
+      } else if (event.type === 'execution_complete') {
+        status = 'done';
+        summary = event.data.summary || '';
+        todosCompleted = event.data.todos_completed || 0;
+        if (text) {
+          tui.displayResults(summary, todosCompleted);
+          tui.displayComplete(tui.getElapsedTime());
+        }
+      } else if (event.type === 'error') {
+        failure = errorMessage(event.data);
+        if (text) tui.displayError(failure);
+      } else if (event.type === 'plan') {
+        if (!tracker.hasPlan && event.data.steps.length > 0) {
+          tracker.reset(event.data.steps);
+          if (text) tui.displayPlanProgress(tracker.steps);
+        }
+      } else if (text) {
+        tui.displayEvent(event);
+        if (stepsChanged) tui.displayPlanProgress(tracker.steps);
       }
-    } catch (error: unknown) {
-      console.error(
-        '\nStream error. Make sure backend is running:\n' +
-        '   buildwithnexus server'
-      );
-      process.exit(1);
+
+      const held = stepsChanged && interactive ? dueForApproval(tracker.steps, approvals) : null;
+      if (held !== null && !(await steering.holdForApproval(held, tracker.steps[held].text, askLine))) {
+        status = 'interrupted';
+        break;
+      }
+    }
+
+    if (guard.choice) {
+      status = 'interrupted';
+    } else if (status !== 'done' && status !== 'interrupted' && !failure) {
+      failure = 'Stream ended without a terminal event';
+      if (text) console.error(failure);
     }
   } catch (error: unknown) {
-    const message = error instanceof Error ? error.message : String(error);
-    console.error('Error:', message);
-    process.exit(1);
+    if (guard?.choice) {
+      status = 'interrupted';
+    } else {
+      const message = error instanceof Error ? error.message : String(error);
+      failure = message;
+      if (text) {
+        console.error('Error:', message);
+        if (error instanceof NexusApiError) {
+          if (error.body) console.error(error.body);
+          console.error(
+            'Make sure backend is running:\n' +
+            '   buildwithnexus server'
+          );
+        }
+      }
+    }
+  } finally {
+    guard?.disarm();
   }
+
+  if (changes.size > 0 || changes.rejected.length > 0) {
+    if (text && process.stdin.isTTY) {
+      await reviewChanges(changes, askLine, { task, runId: runId ?? undefined });
+    } else {
+      console.error(`${changes.size} proposed file change(s) not applied — run in a terminal with text output to review them`);
+    }
+  }
+
+  finish();
 }
@@ -0,0 +1,39 @@
+// src/cli/run-context.ts — what a run sends besides the task
+import chalk from 'chalk';
+import { tui } from './tui.js';
+import type { RunContext } from '../core/api.js';
+import { collectAttachments, parseAttachmentRefs } from '../core/attachments.js';
+import { gatherWorkspace } from '../core/workspace.js';
+
+export interface RunContextOptions {
+  /** Send the workspace snapshot; false with --no-context. */
+  workspace: boolean;
+  /** Where to report what is shared; machine-readable commands pass stderr. */
+  print?: (line: string) => void;
+  /** How to stop sharing the workspace, as shown to the user. */
+  optOut?: string;
+}
+
+/**
+ * Collect the task's `@path` attachments and, unless turned off, the
+ * workspace snapshot, telling the user what will be shared.
+ */
+export function gatherRunContext(task: string, options: RunContextOptions): RunContext {
+  const print = options.print ?? ((line: string) => console.log(line));
+  const context: RunContext = {};
+
+  const refs = parseAttachmentRefs(task);
+  if (refs.length > 0) {
+    const attached = collectAttachments(refs);
+    tui.displayAttachments(attached, print);
+    context.attachments = attached.attachments;
+  }
+
+  if (options.workspace) {
+    context.workspace = gatherWorkspace();
+    const { git, stack } = context.workspace;
+    const details = [git?.branch, stack.slice(0, 3).join(', ')].filter(Boolean).join(' · ');
+    print(chalk.gray(`🗂  Sharing workspace context${details ? ` (${details})` : ''} — preview with \`buildwithnexus context\`, opt out with ${options.optOut ?? '--no-context'}`));
+  }
+  return context;
+}
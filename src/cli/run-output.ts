@@ -0,0 +1,41 @@
+// src/cli/run-output.ts — machine-readable output for `buildwithnexus run`
+import { redact } from '../core/dlp.js';
+import { eventName, type NexusEvent } from '../core/events.js';
+
+export const OUTPUT_FORMATS = ['text', 'ndjson', 'json'] as const;
+export type OutputFormat = (typeof OUTPUT_FORMATS)[number];
+
+export type RunStatus = 'done' | 'error' | 'interrupted';
+
+/** Process exit code per final run status (130 = terminated by Ctrl+C, as shells report it). */
+export const RUN_EXIT_CODES: Record<RunStatus, number> = {
+  done: 0,
+  error: 1,
+  interrupted: 130,
+};
+
+/** The event as the backend sent it: original name plus its payload. */
+export function wireEvent(event: NexusEvent): { type: string; data: Record<string, unknown> } {
+  return { type: eventName(event), data: event.data };
+}
+
+/** One NDJSON line for an event, with secrets redacted. */
+export function serializeEvent(event: NexusEvent): string {
+  return redact(JSON.stringify(wireEvent(event)));
+}
+
+/** Final document printed by `run --output json`. */
+export interface RunDocument {
+  run_id: string | null;
+  status: RunStatus;
+  summary: string;
+  todos_completed: number;
+  duration_ms: number;
+  error?: string;
+  events: Array<{ type: string; data: Record<string, unknown> }>;
+}
+
+/** Serialise the final run document, with secrets redacted. */
+export function serializeRunDocument(doc: RunDocument): string {
+  return redact(JSON.stringify(doc, null, 2));
+}
@@ -0,0 +1,168 @@
+// src/cli/steering.ts — pause, resume and redirect a BUILD run while it streams
+import chalk from 'chalk';
+import { tui } from './tui.js';
+import type { NexusClient } from '../core/client.js';
+import type { StepProgress } from '../core/plan-progress.js';
+
+export type SteeringCommand =
+  | { kind: 'pause' }
+  | { kind: 'resume' }
+  | { kind: 'redirect'; message: string }
+  | { kind: 'help' }
+  | { kind: 'invalid'; reason: string };
+
+/** Subscribe to lines typed while no question is open; returns an unsubscribe function. */
+export type LineListener = (listener: (line: string) => void) => () => void;
+
+export const STEERING_HELP =
+  chalk.gray('Steer while it runs: ') +
+  chalk.bold('/pause') + chalk.gray('  ') +
+  chalk.bold('/resume') + chalk.gray('  ') +
+  chalk.bold('/redirect <message>') + chalk.gray('  ·  Ctrl+C to stop');
+
+/** Parse a line typed during a run. Returns null for blank lines. */
+export function parseSteeringInput(line: string): SteeringCommand | null {
+  const text = line.trim();
+  if (!text) return null;
+  if (!text.startsWith('/')) {
+    return { kind: 'invalid', reason: 'To steer the run, type /redirect followed by your message' };
+  }
+
+  const [command, ...rest] = text.split(/\s+/);
+  const message = rest.join(' ');
+  switch (command.toLowerCase()) {
+    case '/pause':
+      return { kind: 'pause' };
+    case '/resume':
+      return { kind: 'resume' };
+    case '/redirect':
+      return message
+        ? { kind: 'redirect', message }
+        : { kind: 'invalid', reason: 'Usage: /redirect <message>' };
+    case '/help':
+    case '/?':
+      return { kind: 'help' };
+    default:
+      return { kind: 'invalid', reason: `Unknown command ${command}` };
+  }
+}
+
+/**
+ * The step flagged for approval that the tracker has just moved past
+ * pending, if it is active. Steps leave `pending` as they are seen, so
+ * each is held at most once.
+ */
+export function dueForApproval(steps: readonly StepProgress[], pending: Set<number>): number | null {
+  for (const index of pending) {
+    const state = steps[index]?.state;
+    if (state === undefined || state === 'pending') continue;
+    pending.delete(index);
+    if (state === 'active') return index;
+  }
+  return null;
+}
+
+/**
+ * Turns steering commands into interrupts for one run and keeps the TUI
+ * in step with the run's paused/running state. Commands are sent one at
+ * a time so a quick /pause then /resume arrive in order.
+ */
+export class RunSteering {
+  paused = false;
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(
+    private readonly client: NexusClient,
+    private readonly runId: string,
+  ) {}
+
+  /** Start listening for typed commands; returns a function that stops listening. */
+  listen(onLine: LineListener): () => void {
+    return onLine((line) => {
+      this.queue = this.queue.then(() => this.handle(line));
+    });
+  }
+
+  /** Wait for commands already typed to be sent. */
+  settled(): Promise<void> {
+    return this.queue;
+  }
+
+  async handle(line: string): Promise<void> {
+    const command = parseSteeringInput(line);
+    if (!command) return;
+
+    switch (command.kind) {
+      case 'help':
+        console.log(`  ${STEERING_HELP}`);
+        return;
+      case 'invalid':
+        console.log(chalk.yellow(`  ${command.reason}`));
+        return;
+      case 'pause':
+        if (this.paused) {
+          console.log(chalk.gray('  Already paused — /resume to continue'));
+          return;
+        }
+        if (await this.send('pause')) {
+          this.paused = true;
+          tui.displayPaused();
+        }
+        return;
+      case 'resume':
+        if (!this.paused) {
+          console.log(chalk.gray('  Not paused'));
+          return;
+        }
+        if (await this.send('resume')) {
+          this.paused = false;
+          tui.displayResumed();
+        }
+        return;
+      case 'redirect':
+        if (await this.send('redirect', command.message)) {
+          tui.displayRedirect(command.message);
+        }
+        return;
+    }
+  }
+
+  /**
+   * Hold the run at a step flagged for approval: pause it on the backend
+   * and ask whether it may go on. Declining aborts the run. Resolves to
+   * true when the run continues.
+   */
+  async holdForApproval(step: number, text: string, ask: (q: string) => Promise<string>): Promise<boolean> {
+    const wasPaused = this.paused;
+    if (!wasPaused && (await this.send('pause'))) this.paused = true;
+    console.log('');
+    console.log(chalk.yellow(`  ⚑ Step ${step + 1} needs approval: `) + chalk.white(text));
+    if (!this.paused) console.log(chalk.gray('  The run could not be paused, so it may already have started this step.'));
+
+    while (true) {
+      const answer = (await ask(chalk.bold('  [y] Run it  [n] Abort the run > '))).trim().toLowerCase();
+      if (answer === 'y' || answer === 'yes') break;
+      if (answer === 'n' || answer === 'no') {
+        console.log(chalk.yellow(`  Aborting run ${this.runId}…`));
+        await this.send('abort');
+        return false;
+      }
+    }
+    // A pause the user asked for themselves stays until they /resume
+    if (this.paused && !wasPaused && (await this.send('resume'))) {
+      this.paused = false;
+      tui.displayResumed();
+    }
+    return true;
+  }
+
+  private async send(type: 'pause' | 'resume' | 'redirect' | 'abort', message?: string): Promise<boolean> {
+    try {
+      await this.client.interrupt(this.runId, type, message);
+      return true;
+    } catch (err) {
+      console.log(chalk.red(`  ✖ Could not ${type} the run: ${err instanceof Error ? err.message : String(err)}`));
+      return false;
+    }
+  }
+}
@@ -1,5 +1,11 @@
 import chalk, { ChalkInstance } from 'chalk';
 import stringWidth from 'string-width';
+import type { ReconnectInfo } from '../core/client.js';
+import { errorMessage, eventName, eventText, type NexusEvent } from '../core/events.js';
+import { formatElapsed, stepElapsedMs, type StepProgress } from '../core/plan-progress.js';
+import { formatTokens, type ContextUsage } from '../core/brainstorm-context.js';
+import { formatBytes, type AttachmentResult } from '../core/attachments.js';
+import { describeSignals, type IntentClassification } from './intent-classifier.js';
 
 export type Mode = 'PLAN' | 'BUILD' | 'BRAINSTORM';
 
@@ -65,6 +71,58 @@ export class TUI {
     console.log('');
   }
 
+  displayReconnecting(info: ReconnectInfo) {
+    const seconds = Math.round(info.delayMs / 1000);
+    console.log(
+      `  ${colors.warning('⟳')} ${colors.warning(`Connection lost — reconnecting in ${seconds}s (attempt ${info.attempt}/${info.maxAttempts})…`)}`
+    );
+    console.log(`     ${colors.muted(info.reason)}`);
+  }
+
+  displayReconnected() {
+    console.log(`  ${STATUS_SYMBOLS.done} ${colors.muted('Reconnected — resuming stream')}`);
+  }
+
+  displayPaused() {
+    console.log('');
+    console.log(`  ${colors.warning('⏸')} ${colors.warning(chalk.bold('Paused'))} ${colors.muted('— the run holds after its current step. /resume to continue')}`);
+    console.log('');
+  }
+
+  displayResumed() {
+    console.log(`  ${colors.success('▶')} ${colors.success('Resumed')}`);
+    console.log('');
+  }
+
+  displayRedirect(message: string) {
+    console.log(`  ${colors.accent('↪')} ${colors.accent('Redirect sent:')} ${chalk.white(message)}`);
+    console.log('');
+  }
+
+  /**
+   * The files attached with `@path`, and any that were left out. `print`
+   * lets machine-readable commands send this to stderr.
+   */
+  displayAttachments(result: AttachmentResult, print: (line: string) => void = (line) => console.log(line)) {
+    const { attachments, skipped, redacted } = result;
+    const listLimit = 10;
+    if (attachments.length > 0) {
+      const total = attachments.reduce((sum, a) => sum + a.size, 0);
+      print(colors.info(`📎 Attached ${attachments.length} file${attachments.length === 1 ? '' : 's'} (${formatBytes(total)})`));
+      for (const a of attachments.slice(0, listLimit)) {
+        print(colors.muted(`   ${a.path}  ${formatBytes(a.size)}`));
+      }
+      if (attachments.length > listLimit) print(colors.muted(`   … and ${attachments.length - listLimit} more`));
+    }
+    for (const s of skipped.slice(0, listLimit)) {
+      print(colors.warning(`   ⚠ skipped ${s.path}: ${s.reason}`));
+    }
+    if (skipped.length > listLimit) print(colors.warning(`   ⚠ … and ${skipped.length - listLimit} more skipped`));
+    if (redacted.length > 0) {
+      print(colors.warning(`   ⚠ secrets redacted from ${redacted.join(', ')}`));
+    }
+  }
+
   displayPlan(task: string, steps: string[]) {
     console.log('');
 
@@ -81,21 +139,52 @@ export class TUI {
     console.log('');
   }
 
-  displayEvent(type: string, data: Record<string, unknown>) {
+  /** Redraw the plan with each step's live state, as tracked by PlanTracker. */
+  displayPlanProgress(steps: readonly StepProgress[], now: number = Date.now()) {
+    const done = steps.filter((s) => s.state === 'done').length;
+    const rule = colors.muted('  ' + '─'.repeat(58));
+    console.log('');
+    console.log(`  ${chalk.bold('Plan progress')} ${colors.muted(`${done}/${steps.length} done`)}`);
+    console.log(rule);
+    steps.forEach((step, i) => {
+      const label = this.padToWidth(this.truncateToWidth(`[${i + 1}] ${step.text}`, 38), 38);
+      const elapsed = formatElapsed(stepElapsedMs(step, now));
+      switch (step.state) {
+        case 'done':
+          console.log(`  ${STATUS_SYMBOLS.done} ${chalk.white(label)} ${colors.muted(`(done in ${elapsed})`)}`);
+          break;
+        case 'active': {
+          const agent = step.agent ? ` · ${step.agent}` : '';
+          console.log(`  ${STATUS_SYMBOLS.active} ${chalk.bold.white(label)} ${colors.info(`(in progress, ${elapsed}${agent})`)}`);
+          break;
+        }
+        case 'error':
+          console.log(`  ${STATUS_SYMBOLS.error} ${chalk.white(label)} ${colors.error(`(failed after ${elapsed})`)}`);
+          break;
+        default:
+          console.log(`  ${STATUS_SYMBOLS.pending} ${colors.muted(label)}`);
+      }
+    });
+    console.log(rule);
+    console.log('');
+  }
+
+  displayEvent(event: NexusEvent) {
+    // Malformed frames are reported as diagnostics, never rendered
+    if (event.type === 'malformed') return;
     this.eventCount++;
-    const content = (data['content'] as string) || '';
 
-    if (type === 'agent_working') {
-      const agent = (data['agent'] as string) || 'Agent';
-      const agentTask = (data['task'] as string) || '';
+    if (event.type === 'agent_working') {
+      const agent = event.data.agent || 'Agent';
+      const agentTask = event.data.task || '';
       console.log('');
       console.log(`  ${colors.info('👤')} ${colors.info(chalk.bold(agent))}`);
       console.log(`     ${colors.muted('→')} ${agentTask}`);
       return;
     }
 
-    if (type === 'agent_result') {
-      const result = (data['result'] as string) || '';
+    if (event.type === 'agent_result') {
+      const result = event.data.result || '';
       let displayResult = result;
       if (displayResult.length > 100) {
         displayResult = displayResult.substring(0, 97) + '...';
@@ -104,6 +193,14 @@ export class TUI {
       return;
     }
 
+    if (event.type === 'file_change') {
+      // The proposed contents are reviewed as a diff once the run ends
+      const action = event.data.action === 'delete' ? 'delete' : event.data.action === 'create' ? 'create' : 'change';
+      const agent = event.data.agent ? `${event.data.agent}: ` : '';
+      console.log(`  ${colors.warning('📝')} ${colors.muted(`${agent}${action}`)} ${chalk.white(event.data.path)}`);
+      return;
+    }
+
     // Event icons with semantic meaning
     const eventConfig: Record<string, { icon: string; color: (s: string) => string }> = {
       thought: { icon: '💭', color: colors.info },
@@ -118,8 +215,8 @@ export class TUI {
       error: { icon: '✖', color: colors.error },
     };
 
-    const config = eventConfig[type] || { icon: '●', color: colors.muted };
-    let displayContent = content;
+    const config = eventConfig[eventName(event)] || { icon: '●', color: colors.muted };
+    let displayContent = eventText(event);
     if (displayContent.length > 100) {
       displayContent = displayContent.substring(0, 97) + '...';
     }
@@ -127,6 +224,21 @@ export class TUI {
     console.log(`  ${config.icon} ${config.color(displayContent)}`);
   }
 
+  /** Render any stream event, including the plan and terminal events, as a run view would. */
+  displayRunEvent(event: NexusEvent, task: string) {
+    if (event.type === 'plan') {
+      this.displayPlan(task, event.data.steps);
+    } else if (event.type === 'execution_complete') {
+      this.displayResults(event.data.summary || '', event.data.todos_completed || 0);
+    } else if (event.type === 'done') {
+      this.displayEvent({ type: 'done', data: { content: eventText(event) || 'Task completed successfully' } });
+    } else if (event.type === 'error') {
+      this.displayError(errorMessage(event.data));
+    } else {
+      this.displayEvent(event);
+    }
+  }
+
   displayResults(summary: string, todosCompleted: number) {
     console.log('');
     console.log(colors.success('━'.repeat(60)));
@@ -220,20 +332,25 @@ export class TUI {
     console.log('');
   }
 
-  displaySuggestedMode(mode: Mode, task: string) {
+  displaySuggestedMode(mode: Mode, task: string, classification?: IntentClassification) {
     const modeColor: Record<Mode, ChalkInstance> = {
       PLAN: colors.info,
       BUILD: colors.success,
       BRAINSTORM: chalk.blue,
     };
 
-    const taskPreview = task.length > 45 ? task.substring(0, 42) + '...' : task;
+    const oneLine = task.replace(/\s+/g, ' ').trim();
+    const taskPreview = oneLine.length > 45 ? oneLine.substring(0, 42) + '...' : oneLine;
     console.log('');
     console.log(
       colors.muted('Suggested: ') +
         modeColor[mode].bold(mode) +
         colors.muted(` for "${taskPreview}"`)
     );
+    if (classification) {
+      const percent = Math.round(classification.confidence * 100);
+      console.log(colors.muted(`  why: ${describeSignals(classification)} · ${percent}% confident`));
+    }
   }
 
   displayBrainstormResponse(response: string) {
@@ -250,6 +367,14 @@ export class TUI {
     console.log('');
   }
 
+  /** How much of the brainstorm context budget the next prompt will use. */
+  displayContextUsage(usage: ContextUsage) {
+    const ratio = usage.tokens / usage.maxTokens;
+    const color = ratio >= 0.9 ? colors.warning : colors.muted;
+    const summarised = usage.summarised > 0 ? ` · ${usage.summarised} earlier message(s) summarised` : '';
+    console.log(color(`  context ${formatTokens(usage.tokens)} / ${formatTokens(usage.maxTokens)} tokens${summarised}`));
+  }
+
   displayPermissionPrompt(message: string): string {
     return colors.accent.bold(message) + colors.muted(' (y/n)  ');
   }
@@ -1,72 +1,107 @@
-import { Command } from "commander";
+import { Command, Option } from "commander";
 import chalk from "chalk";
 import { input } from "@inquirer/prompts";
 import { log } from "../ui/logger.js";
-import { buildRunPayload, checkServerHealth } from "../core/api.js";
-import { parseSSEStream } from "../core/sse-parser.js";
+import { tui } from "../cli/tui.js";
+import { NexusClient } from "../core/client.js";
+import { eventText } from "../core/events.js";
 import { startBackend } from "../core/docker.js";
 import { redact, redactError } from "../core/dlp.js";
 import { getBackendUrl } from "../core/secrets.js";
+import { BrainstormContext } from "../core/brainstorm-context.js";
+import { TranscriptWriter } from "../core/transcript.js";
+import {
+  addMessage,
+  createSession,
+  listSessions,
+  loadSession,
+  saveSession,
+  sessionTitle,
+  sessionToMarkdown,
+  type BrainstormSession,
+} from "../core/brainstorm-session.js";
 
 const CPO_PREFIX = chalk.bold.cyan("  CPO");
 const YOU_PREFIX = chalk.bold.white("  You");
 const DIVIDER = chalk.dim("  " + "─".repeat(56));
 
-async function waitForBackend(backendUrl: string): Promise<boolean> {
+async function waitForBackend(client: NexusClient): Promise<boolean> {
   for (let i = 0; i < 15; i++) {
     await new Promise((resolve) => setTimeout(resolve, 2000));
-    if (await checkServerHealth(backendUrl)) return true;
+    if (await client.health()) return true;
   }
   return false;
 }
 
-async function runBrainstormTurn(
-  backendUrl: string,
-  message: string,
-): Promise<string> {
-  const response = await fetch(`${backendUrl}/api/run`, {
-    method: "POST",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify(buildRunPayload(
-      message,
-      "brainstorm",
-      "Generate ideas, considerations, and suggestions. Be conversational and concise.",
-    )),
-    signal: AbortSignal.timeout(120000),
-  });
-
-  if (!response.ok) {
-    throw new Error(`Backend error: ${response.status}`);
+function printSessions(): void {
+  const sessions = listSessions();
+  if (sessions.length === 0) {
+    console.log(chalk.dim("  No saved brainstorms yet. Start one with: buildwithnexus brainstorm <idea>"));
+    return;
   }
+  console.log("");
+  for (const session of sessions) {
+    const when = session.updated_at.replace("T", " ").slice(0, 16);
+    console.log(`  ${chalk.cyan(session.id)}  ${chalk.dim(when)}  ${chalk.dim(`${session.turns} turn(s)`.padEnd(10))} ${chalk.white(session.title)}`);
+  }
+  console.log("");
+  console.log(chalk.dim("  Resume with: buildwithnexus brainstorm --resume <id>"));
+  console.log("");
+}
 
-  const { run_id } = (await response.json()) as { run_id: string };
-
-  const streamResponse = await fetch(`${backendUrl}/api/stream/${run_id}`, {
-    signal: AbortSignal.timeout(120000),
-  });
-
-  if (!streamResponse.ok) {
-    throw new Error(`Stream error: ${streamResponse.status}`);
+/** Replay the end of a resumed conversation so the user knows where they left off. */
+function printRecap(session: BrainstormSession): void {
+  const recent = session.messages.slice(-4);
+  if (session.messages.length > recent.length) {
+    console.log(chalk.dim(`  … ${session.messages.length - recent.length} earlier message(s)`));
   }
+  for (const message of recent) {
+    console.log(message.role === "user" ? `${YOU_PREFIX}:` : `${CPO_PREFIX}:`);
+    message.content.split("\n").forEach((line) => console.log(chalk.white("  " + line)));
+    console.log(DIVIDER);
+  }
+}
 
-  const reader = streamResponse.body?.getReader();
-  if (!reader) throw new Error("No response body");
+/** Save after each turn; a failed save is reported once and never ends the session. */
+function sessionSaver(session: BrainstormSession): () => void {
+  let warned = false;
+  return () => {
+    try {
+      saveSession(session);
+    } catch (err) {
+      if (!warned) log.warn(`Could not save this brainstorm: ${redactError(err).message}`);
+      warned = true;
+    }
+  };
+}
 
-  let result = "";
-  for await (const parsed of parseSSEStream(reader)) {
-    const type = parsed.type;
-    const data = parsed.data as Record<string, string>;
+async function runBrainstormTurn(
+  client: NexusClient,
+  message: string,
+  goal = "Generate ideas, considerations, and suggestions. Be conversational and concise.",
+  question?: string,
+): Promise<string> {
+  const runId = await client.createRun(message, { agentRole: "brainstorm", agentGoal: goal });
 
-    if (type === "done" || type === "final_result") {
-      result = data["result"] || data["summary"] || result;
+  let result = "";
+  const stream = client.streamRun(runId, {
+    onReconnecting: (info) => log.warn(`Connection lost — reconnecting (attempt ${info.attempt}/${info.maxAttempts})...`),
+    onReconnected: () => log.dim("Reconnected"),
+  });
+  // Turns answering the user's question are recorded under it; internal summaries are not
+  const events = question === undefined
+    ? stream
+    : TranscriptWriter.start({ run_id: runId, task: question, mode: "BRAINSTORM", backend_url: client.baseUrl }).tee(stream);
+  for await (const event of events) {
+    if (event.type === "done" || event.type === "final_result") {
+      result = event.data.result || event.data.summary || result;
       break;
-    } else if (type === "error") {
-      throw new Error(data["error"] || "Unknown error from backend");
-    } else if (type === "thinking") {
+    } else if (event.type === "error") {
+      throw new Error(event.data.error || "Unknown error from backend");
+    } else if (event.type === "thinking" || event.type === "agent_working") {
       // silent — shown via spinner
     } else {
-      const content = data["content"] || data["summary"] || "";
-      if (content) result += content;
+      result += eventText(event);
     }
   }
 
@@ -74,17 +109,49 @@ async function runBrainstormTurn(
 }
 
 export const brainstormCommand = new Command("brainstorm")
-  .description("Brainstorm an idea with the NEXUS CPO")
+  .description("Brainstorm an idea with the NEXUS CPO (sessions are saved to ~/.buildwithnexus/brainstorms)")
   .argument("[idea...]", "Your idea or question")
-  .action(async (ideaWords: string[]) => {
-    const backendUrl = getBackendUrl();
+  .option("-r, --resume <id>", "Continue a saved session")
+  .option("-l, --list", "List saved sessions")
+  .option("-t, --title <title>", "Title for a new session (defaults to the opening idea)")
+  .addOption(
+    new Option("--export <format>", "Print a saved session (--resume <id>, or the latest) as a transcript")
+      .choices(["md"]),
+  )
+  .action(async (ideaWords: string[], opts: { resume?: string; list?: boolean; title?: string; export?: "md" }) => {
+    if (opts.list) {
+      printSessions();
+      return;
+    }
+
+    if (opts.export) {
+      try {
+        const id = opts.resume ?? listSessions()[0]?.id;
+        if (!id) throw new Error("No saved brainstorms to export");
+        process.stdout.write(sessionToMarkdown(loadSession(id)));
+      } catch (err) {
+        log.error(redactError(err).message);
+        process.exit(1);
+      }
+      return;
+    }
+
+    let session: BrainstormSession;
+    try {
+      session = opts.resume ? loadSession(opts.resume) : createSession(opts.title || ideaWords.join(" "));
+    } catch (err) {
+      log.error(redactError(err).message);
+      process.exit(1);
+    }
+    const save = sessionSaver(session);
+    const client = new NexusClient({ baseUrl: getBackendUrl() });
 
     try {
       // Ensure backend is running
-      if (!(await checkServerHealth(backendUrl))) {
+      if (!(await client.health())) {
         log.step("Backend not running — starting...");
         await startBackend();
-        const ready = await waitForBackend(backendUrl);
+        const ready = await waitForBackend(client);
         if (!ready) {
           log.error("Backend failed to start. Run: buildwithnexus server");
           process.exit(1);
@@ -100,30 +167,45 @@ export const brainstormCommand = new Command("brainstorm")
       console.log(chalk.bold("  ╚══════════════════════════════════════════════════════════╝"));
       console.log("");
 
+      if (opts.resume) {
+        console.log(chalk.dim(`  Resuming "${session.title}"`));
+        console.log(DIVIDER);
+        printRecap(session);
+      }
+
       let idea = ideaWords.length > 0 ? ideaWords.join(" ") : "";
       if (!idea) {
-        idea = await input({ message: "What would you like to brainstorm?" });
+        idea = await input({ message: opts.resume ? chalk.bold("You:") : "What would you like to brainstorm?" });
         if (!idea.trim()) {
           log.warn("No idea provided");
           return;
         }
       }
+      if (!opts.resume && !opts.title) session.title = sessionTitle(idea);
 
-      const conversationHistory: Array<{ role: "user" | "assistant"; content: string }> = [];
-      let currentQuestion = idea;
+      let currentQuestion = idea.trim();
+      const context = new BrainstormContext(session);
 
       while (true) {
         console.log(`${YOU_PREFIX}: ${chalk.white(currentQuestion)}`);
         console.log(DIVIDER);
 
-        const taskWithHistory = conversationHistory.length === 0
-          ? currentQuestion
-          : conversationHistory.map(m => `${m.role === "user" ? "User" : "Assistant"}: ${m.content}`).join("\n\n")
-            + `\n\nUser: ${currentQuestion}`;
+        // Older turns are folded into a summary once the prompt outgrows its budget
+        if (context.needsSummary(currentQuestion)) {
+          process.stdout.write(chalk.dim("  Summarising earlier turns...\r"));
+          try {
+            await context.summarise((prompt) =>
+              runBrainstormTurn(client, prompt, "Summarise the conversation faithfully and concisely."));
+            save();
+          } catch (err) {
+            log.warn(`Could not summarise — sending the full conversation: ${redactError(err).message}`);
+          }
+        }
+        const taskWithHistory = context.prompt(currentQuestion);
 
         process.stdout.write(chalk.dim("  CPO is thinking...\r"));
 
-        const responseText = await runBrainstormTurn(backendUrl, taskWithHistory);
+        const responseText = await runBrainstormTurn(client, taskWithHistory, undefined, currentQuestion);
         const clean = redact(responseText.trim());
 
         process.stdout.write("                              \r");
@@ -131,17 +213,16 @@ export const brainstormCommand = new Command("brainstorm")
         clean.split("\n").forEach(line => console.log(chalk.white("  " + line)));
         console.log(DIVIDER);
 
-        conversationHistory.push({ role: "user", content: currentQuestion });
-        conversationHistory.push({ role: "assistant", content: clean });
+        addMessage(session, "user", currentQuestion);
+        addMessage(session, "assistant", clean);
+        save();
+        tui.displayContextUsage(context.usage());
 
         const followUp = await input({ message: chalk.bold("You:") });
         const trimmed = followUp.trim().toLowerCase();
 
         if (!trimmed || trimmed === "exit" || trimmed === "quit" || trimmed === "q") {
-          console.log("");
-          log.success("Brainstorm session ended");
-          console.log(chalk.dim("    Run again anytime: buildwithnexus brainstorm"));
-          console.log("");
+          endSession(session);
           return;
         }
 
@@ -149,8 +230,7 @@ export const brainstormCommand = new Command("brainstorm")
       }
     } catch (err) {
       if ((err as NodeJS.ErrnoException).code === "ERR_USE_AFTER_CLOSE") {
-        console.log("");
-        log.success("Brainstorm session ended");
+        endSession(session);
         return;
       }
       const safeErr = redactError(err);
@@ -158,3 +238,16 @@ export const brainstormCommand = new Command("brainstorm")
       process.exit(1);
     }
   });
+
+function endSession(session: BrainstormSession): void {
+  console.log("");
+  log.success("Brainstorm session ended");
+  if (session.messages.length > 0) {
+    console.log(chalk.dim(`    Saved as ${session.id}`));
+    console.log(chalk.dim(`    Resume: buildwithnexus brainstorm --resume ${session.id}`));
+    console.log(chalk.dim(`    Export: buildwithnexus brainstorm --resume ${session.id} --export md > brainstorm.md`));
+  } else {
+    console.log(chalk.dim("    Run again anytime: buildwithnexus brainstorm"));
+  }
+  console.log("");
+}
@@ -0,0 +1,37 @@
+import { Command } from "commander";
+import chalk from "chalk";
+import { tui } from "../cli/tui.js";
+import { collectAttachments, parseAttachmentRefs, type AttachmentResult } from "../core/attachments.js";
+import { formatWorkspace, gatherWorkspace, workspaceSharingEnabled } from "../core/workspace.js";
+
+export const contextCommand = new Command("context")
+  .description("Preview the workspace context (and any @path attachments) sent with runs")
+  .argument("[task...]", "A task whose @path attachments to preview as well")
+  .option("--json", "Print exactly what is sent, as JSON")
+  .action((taskWords: string[], opts: { json?: boolean }) => {
+    const workspace = gatherWorkspace();
+    const refs = parseAttachmentRefs(taskWords.join(" "));
+    const attached: AttachmentResult | null = refs.length > 0 ? collectAttachments(refs) : null;
+
+    if (opts.json) {
+      const payload = { workspace, ...(attached ? { attachments: attached.attachments } : {}) };
+      console.log(JSON.stringify(payload, null, 2));
+      return;
+    }
+
+    console.log("");
+    console.log(chalk.bold("  Workspace context"));
+    console.log("");
+    for (const line of formatWorkspace(workspace).split("\n")) console.log(`  ${line}`);
+    console.log("");
+    if (attached) {
+      tui.displayAttachments(attached);
+      console.log("");
+    }
+    if (workspaceSharingEnabled()) {
+      console.log(chalk.gray("  Sent with every run. Opt out with --no-context on run, plan and apply, or NEXUS_NO_CONTEXT=1."));
+    } else {
+      console.log(chalk.yellow("  NEXUS_NO_CONTEXT is set — runs won't send this."));
+    }
+    console.log("");
+  });
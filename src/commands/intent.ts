@@ -0,0 +1,94 @@
+import { Command } from "commander";
+import chalk from "chalk";
+import { confirm } from "@inquirer/prompts";
+import type { Intent } from "../cli/intent-classifier.js";
+import {
+  INTENT_FEEDBACK_FILE,
+  MIN_FEEDBACK_RECORDS,
+  intentStats,
+  loadIntentFeedback,
+  resetIntentFeedback,
+} from "../cli/intent-learning.js";
+
+const INTENTS: Intent[] = ["plan", "build", "brainstorm"];
+const WEEKS_SHOWN = 8;
+const BAR_WIDTH = 20;
+
+function percent(part: number, whole: number): string {
+  return whole === 0 ? "—" : `${Math.round((part / whole) * 100)}%`;
+}
+
+export const intentCommand = new Command("intent")
+  .description("See how well the shell's mode suggestions match your choices");
+
+intentCommand
+  .command("stats")
+  .description("Show how often the suggested mode was kept at the prompt, over time and per mode")
+  .option("--json", "Print the statistics as JSON")
+  .action((opts: { json?: boolean }) => {
+    const records = loadIntentFeedback();
+    const stats = intentStats(records);
+    if (opts.json) {
+      console.log(JSON.stringify(stats, null, 2));
+      return;
+    }
+    if (stats.total === 0 && stats.autoSelected === 0) {
+      console.log(chalk.gray("No mode choices recorded yet — they're logged each time you answer the shell's mode prompt."));
+      return;
+    }
+
+    console.log("");
+    console.log(chalk.bold("  Mode suggestions"));
+    console.log("");
+    console.log(`  ${stats.total} choice${stats.total === 1 ? "" : "s"} made at the mode prompt, suggestion kept ${chalk.bold(percent(stats.accepted, stats.total))}`);
+    if (stats.autoSelected > 0) {
+      console.log(chalk.gray(`  Plus ${stats.autoSelected} mode${stats.autoSelected === 1 ? "" : "s"} started without asking, ${stats.autoRejected} switched away from straight away`));
+    }
+    console.log(chalk.gray("  The figures below count prompted choices only."));
+    console.log("");
+
+    console.log(chalk.bold("  By week"));
+    for (const week of stats.weeks.slice(-WEEKS_SHOWN)) {
+      const filled = Math.round((week.accepted / week.total) * BAR_WIDTH);
+      const bar = chalk.green("█".repeat(filled)) + chalk.gray("░".repeat(BAR_WIDTH - filled));
+      console.log(`  ${week.week}  ${bar}  ${percent(week.accepted, week.total).padStart(4)}  ${chalk.gray(`(${week.total})`)}`);
+    }
+    console.log("");
+
+    console.log(chalk.bold("  Suggested → chosen"));
+    console.log(chalk.gray(`  ${"".padEnd(12)}${INTENTS.map((i) => i.padStart(12)).join("")}`));
+    for (const suggested of INTENTS) {
+      const row = INTENTS.map((chosen) => {
+        const cell = String(stats.confusion[suggested][chosen]).padStart(12);
+        return chosen === suggested ? chalk.green(cell) : cell;
+      });
+      console.log(`  ${suggested.padEnd(12)}${row.join("")}`);
+    }
+    console.log("");
+
+    if (records.length < MIN_FEEDBACK_RECORDS) {
+      console.log(chalk.gray(`  Suggestions start learning from your choices after ${MIN_FEEDBACK_RECORDS} of them.`));
+    } else {
+      console.log(chalk.gray("  Suggestions are learning from these choices."));
+    }
+    console.log(chalk.gray(`  Log: ${INTENT_FEEDBACK_FILE} — forget it with: buildwithnexus intent reset`));
+    console.log("");
+  });
+
+intentCommand
+  .command("reset")
+  .description("Forget recorded mode choices; suggestions go back to keywords only")
+  .option("-y, --yes", "Don't ask for confirmation")
+  .action(async (opts: { yes?: boolean }) => {
+    const count = loadIntentFeedback().length;
+    if (count === 0) {
+      console.log(chalk.gray("No mode choices recorded."));
+      return;
+    }
+    if (!opts.yes) {
+      const ok = await confirm({ message: `Forget ${count} recorded mode choice${count === 1 ? "" : "s"}?`, default: false });
+      if (!ok) return;
+    }
+    resetIntentFeedback();
+    console.log(chalk.green(`✔ Forgot ${count} mode choice${count === 1 ? "" : "s"}.`));
+  });
@@ -0,0 +1,181 @@
+import { Command, Option } from "commander";
+import chalk from "chalk";
+import * as readline from "readline";
+import { runCommand } from "../cli/run-command.js";
+import { OUTPUT_FORMATS, type OutputFormat } from "../cli/run-output.js";
+import { RunInterruptGuard } from "../cli/interrupt.js";
+import { displayPlanSteps, planDocument, runPlanEditor } from "../cli/plan-editor.js";
+import { gatherRunContext } from "../cli/run-context.js";
+import { validateBackendUrl } from "../core/config.js";
+import { NexusClient } from "../core/client.js";
+import { errorMessage } from "../core/events.js";
+import { MODELS } from "../core/models.js";
+import {
+  PlanEditor,
+  planFormatFromPath,
+  readPlanFile,
+  runSteps,
+  serializePlan,
+  stepsFromTexts,
+  writePlanFile,
+} from "../core/plan.js";
+import { getBackendUrl } from "../core/secrets.js";
+import { workspaceSharingEnabled } from "../core/workspace.js";
+import { TranscriptWriter } from "../core/transcript.js";
+
+function fail(message: string): never {
+  console.error(chalk.red(message));
+  process.exit(1);
+}
+
+/** A readline-backed prompt for the plan editor; close it when done. */
+function prompter() {
+  const rl = readline.createInterface({ input: process.stdin, output: process.stdout });
+  const ask = (question: string) => new Promise<string>((resolve) => rl.question(question, resolve));
+  return { ask, close: () => rl.close() };
+}
+
+async function connect(): Promise<NexusClient> {
+  const backendUrl = getBackendUrl();
+  const urlCheck = validateBackendUrl(backendUrl);
+  if (!urlCheck.valid) fail(urlCheck.error ?? "Invalid backend URL");
+  const client = new NexusClient({ baseUrl: backendUrl });
+  if (!(await client.health())) fail("Backend not responding. Start it with: buildwithnexus server");
+  return client;
+}
+
+/**
+ * Start a planning run and return its steps, stopping the run once the
+ * plan arrives. Progress goes to stderr so a plan printed to stdout can
+ * be piped.
+ */
+async function fetchPlan(
+  client: NexusClient,
+  task: string,
+  shareWorkspace: boolean,
+): Promise<{ runId: string; steps: string[] }> {
+  const context = gatherRunContext(task, { workspace: shareWorkspace, print: (line) => console.error(line) });
+  const runId = await client.createRun(task, context);
+  console.error(chalk.gray(`  Planning run ${runId}…`));
+
+  // Ctrl+C aborts the planning run on the backend instead of orphaning it
+  const guard = new RunInterruptGuard(client, runId, { print: (line) => console.error(line) }).arm();
+  try {
+    const transcript = TranscriptWriter.start({ run_id: runId, task, mode: "PLAN", backend_url: client.baseUrl });
+    for await (const event of transcript.tee(client.streamRun(runId, { signal: guard.signal }), guard.signal)) {
+      if (event.type === "plan") {
+        client.interrupt(runId).catch(() => {});
+        return { runId, steps: event.data.steps };
+      }
+      if (event.type === "error") fail(`Planning failed: ${errorMessage(event.data)}`);
+    }
+  } catch (err) {
+    if (guard.choice) process.exit(130);
+    throw err;
+  } finally {
+    guard.disarm();
+  }
+  if (guard.choice) process.exit(130);
+  return fail("The backend finished without producing a plan. Check `buildwithnexus logs -f`.");
+}
+
+export const planCommand = new Command("plan")
+  .description("Ask the backend for a plan and save it for review before execution")
+  .argument("<task...>", "What to plan")
+  .option("-o, --out <file>", "Write the plan to a .md or .yaml file instead of printing markdown")
+  .option("-e, --edit", "Review and edit the plan before saving it")
+  .option("--no-context", "Don't send the workspace snapshot (directory, git state, stack, tree)")
+  .action(async (taskWords: string[], opts: { out?: string; edit?: boolean; context: boolean }) => {
+    const task = taskWords.join(" ").trim();
+    // Reject an unsupported extension before spending a planning run on it
+    try {
+      if (opts.out) planFormatFromPath(opts.out);
+    } catch (err) {
+      fail((err as Error).message);
+    }
+    if (opts.edit && !process.stdin.isTTY) fail("--edit needs an interactive terminal");
+
+    const client = await connect();
+    let plan: { runId: string; steps: string[] };
+    try {
+      plan = await fetchPlan(client, task, opts.context && workspaceSharingEnabled());
+    } catch (err) {
+      fail(`Error: ${err instanceof Error ? err.message : String(err)}`);
+    }
+
+    const editor = new PlanEditor(stepsFromTexts(plan.steps));
+    if (opts.edit) {
+      displayPlanSteps(editor.steps);
+      const { ask, close } = prompter();
+      try {
+        await runPlanEditor(editor, task, plan.steps, ask);
+      } finally {
+        close();
+      }
+    }
+
+    if (editor.steps.length === 0) fail("The plan has no steps — nothing saved.");
+    const doc = await planDocument(client, task, editor.steps, plan.runId);
+    if (!opts.out) {
+      process.stdout.write(serializePlan(doc, "md"));
+      return;
+    }
+    try {
+      writePlanFile(opts.out, doc);
+    } catch (err) {
+      fail(`Could not write ${opts.out}: ${(err as Error).message}`);
+    }
+    console.error(chalk.green(`  ✔ Saved ${editor.steps.length}-step plan to ${opts.out}`));
+    console.error(chalk.gray(`  Review it, then execute with: buildwithnexus apply ${opts.out}`));
+  });
+
+export const applyCommand = new Command("apply")
+  .description("Execute a reviewed plan file (from `plan --out`) in BUILD mode")
+  .argument("<file>", "Plan file (.md or .yaml)")
+  .option("-y, --yes", "Execute without asking for confirmation")
+  .option("-a, --agent <name>", "Agent role (engineer, researcher, etc)", "engineer")
+  .option("-m, --model <model>", "LLM model", MODELS.DEFAULT)
+  .addOption(
+    new Option("-o, --output <format>", "Output format: text, ndjson (one event per line) or json (final document)")
+      .choices(OUTPUT_FORMATS)
+      .default("text"),
+  )
+  .option("--no-context", "Don't send the workspace snapshot (directory, git state, stack, tree)")
+  .action(async (file: string, opts: { yes?: boolean; agent: string; model: string; output: OutputFormat; context: boolean }) => {
+    let doc;
+    try {
+      doc = readPlanFile(file);
+    } catch (err) {
+      fail((err as Error).message);
+    }
+
+    if (runSteps(doc.steps).length === 0) fail("Every step in the plan is skipped — nothing to execute.");
+
+    const text = opts.output === "text";
+    if (text) {
+      console.log(chalk.bold("Task:"), chalk.white(doc.task));
+      const origin = [doc.created_at && `planned ${doc.created_at}`, doc.backend_version && `backend ${doc.backend_version}`];
+      if (origin.some(Boolean)) console.log(chalk.gray(`  ${origin.filter(Boolean).join(" · ")}`));
+      displayPlanSteps(doc.steps);
+    }
+
+    if (!opts.yes) {
+      if (!text || !process.stdin.isTTY) fail("Pass --yes to execute a plan without a confirmation prompt.");
+      const { ask, close } = prompter();
+      const answer = (await ask(chalk.bold("Execute this plan? [Y/n] "))).trim().toLowerCase();
+      close();
+      if (answer !== "" && answer !== "y" && answer !== "yes") {
+        console.log(chalk.yellow("Cancelled."));
+        return;
+      }
+    }
+
+    await runCommand(doc.task, {
+      agent: opts.agent,
+      model: opts.model,
+      output: opts.output,
+      planSteps: doc.steps,
+      parentRunId: doc.source_run_id,
+      context: opts.context,
+    });
+  });
@@ -0,0 +1,61 @@
+import { Command, InvalidArgumentError } from "commander";
+import chalk from "chalk";
+import { tui } from "../cli/tui.js";
+import { readTranscript } from "../core/transcript.js";
+import { sleep } from "../core/utils.js";
+
+function parseSpeed(value: string): number {
+  const speed = Number(value);
+  if (!Number.isFinite(speed) || speed <= 0) {
+    throw new InvalidArgumentError("Speed must be a positive number.");
+  }
+  return speed;
+}
+
+function parseMaxGap(value: string): number {
+  const seconds = Number(value);
+  if (!Number.isFinite(seconds) || seconds < 0) {
+    throw new InvalidArgumentError("Max gap must be a number of seconds, 0 or more.");
+  }
+  return seconds * 1000;
+}
+
+export const replayCommand = new Command("replay")
+  .description("Replay a recorded run from ~/.buildwithnexus/runs")
+  .argument("<run_id>", "Run ID to replay")
+  .option("-s, --speed <factor>", "Playback speed multiplier (2 = twice as fast)", parseSpeed, 1)
+  .option("--max-gap <seconds>", "Shorten longer pauses (e.g. a user reading a plan) to this many seconds", parseMaxGap)
+  .option("--instant", "Print the whole run without pauses")
+  .action(async (runId: string, opts: { speed: number; maxGap?: number; instant?: boolean }) => {
+    let transcript;
+    try {
+      transcript = readTranscript(runId);
+    } catch (err) {
+      console.error(chalk.red((err as Error).message));
+      process.exit(1);
+    }
+
+    const { meta, events, end } = transcript;
+    tui.displayHeader(meta.task, meta.mode);
+    console.log(chalk.dim(`  Replaying run ${meta.run_id} from ${meta.started_at} (${meta.backend_url})`));
+    console.log("");
+    tui.displayStreamStart();
+
+    let previous = 0;
+    for (const entry of events) {
+      if (!opts.instant) {
+        await sleep(Math.min(entry.t - previous, opts.maxGap ?? Infinity) / opts.speed);
+      }
+      previous = entry.t;
+      tui.displayRunEvent(entry.event, meta.task);
+    }
+
+    console.log("");
+    if (!end) {
+      console.log(chalk.yellow("  Transcript ends without a result — the CLI exited before the run finished."));
+    } else if (end.status === "done") {
+      tui.displayComplete(end.duration_ms);
+    } else {
+      console.log(chalk.yellow(`  Run ended: ${end.status}${end.error ? ` — ${end.error}` : ""}`));
+    }
+  });
@@ -0,0 +1,242 @@
+import { Command, InvalidArgumentError } from "commander";
+import chalk from "chalk";
+import { log } from "../ui/logger.js";
+import { tui } from "../cli/tui.js";
+import { RUN_EXIT_CODES } from "../cli/run-output.js";
+import { NexusClient, type RunInfo } from "../core/client.js";
+import { errorMessage } from "../core/events.js";
+import { redact } from "../core/dlp.js";
+import { getBackendUrl } from "../core/secrets.js";
+import { DETACHED, TranscriptWriter, listTranscripts, readTranscript, type TranscriptSummary } from "../core/transcript.js";
+
+interface RunRow {
+  runId: string;
+  mode: string;
+  status: string;
+  startedAt: string;
+  task: string;
+  source: "local" | "backend" | "both";
+}
+
+function parseLimit(value: string): number {
+  const limit = Number(value);
+  if (!Number.isInteger(limit) || limit <= 0) {
+    throw new InvalidArgumentError("Limit must be a positive integer.");
+  }
+  return limit;
+}
+
+function formatTime(iso: string | undefined): string {
+  if (!iso) return "—";
+  const date = new Date(iso);
+  if (Number.isNaN(date.getTime())) return iso;
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
+function truncate(text: string, max: number): string {
+  const line = text.replace(/\s+/g, " ").trim();
+  return line.length > max ? line.slice(0, max - 1) + "…" : line;
+}
+
+function colorStatus(status: string): string {
+  if (status === "done" || status === "completed") return chalk.green(status);
+  if (status === "error" || status === "failed") return chalk.red(status);
+  if (status === "running" || status === "active") return chalk.cyan(status);
+  return chalk.yellow(status);
+}
+
+/** Merge local transcripts with backend-reported runs; local metadata wins, backend status wins. */
+function mergeRuns(local: TranscriptSummary[], remote: RunInfo[]): RunRow[] {
+  const rows = new Map<string, RunRow>();
+  for (const { meta, end } of local) {
+    rows.set(meta.run_id, {
+      runId: meta.run_id,
+      mode: meta.mode,
+      status: end?.status ?? "unfinished",
+      startedAt: meta.started_at,
+      task: meta.task,
+      source: "local",
+    });
+  }
+  for (const run of remote) {
+    const existing = rows.get(run.run_id);
+    if (existing) {
+      existing.source = "both";
+      if (run.status) existing.status = run.status;
+    } else {
+      rows.set(run.run_id, {
+        runId: run.run_id,
+        mode: "—",
+        status: run.status ?? "unknown",
+        startedAt: run.created_at ?? "",
+        task: run.task ?? "",
+        source: "backend",
+      });
+    }
+  }
+  return [...rows.values()].sort((a, b) => b.startedAt.localeCompare(a.startedAt));
+}
+
+function createClient(): NexusClient {
+  return new NexusClient({ baseUrl: getBackendUrl() });
+}
+
+export const runsCommand = new Command("runs")
+  .description("List, inspect, attach to and cancel runs");
+
+runsCommand
+  .command("list")
+  .description("List recorded runs and runs reported by the backend")
+  .option("-n, --limit <count>", "Maximum number of runs to show", parseLimit, 20)
+  .action(async (opts: { limit: number }) => {
+    const local = listTranscripts();
+    let remote: RunInfo[] = [];
+    let remoteNote: string | null = null;
+    try {
+      const runs = await createClient().runs();
+      if (runs === null) remoteNote = "Backend does not report run history — showing local runs only";
+      else remote = runs;
+    } catch (err) {
+      remoteNote = `Backend unavailable (${redact((err as Error).message)}) — showing local runs only`;
+    }
+
+    const rows = mergeRuns(local, remote).slice(0, opts.limit);
+    if (rows.length === 0) {
+      log.warn("No runs yet. Start one with: buildwithnexus run <task>");
+      if (remoteNote) log.dim(remoteNote);
+      return;
+    }
+
+    console.log(chalk.bold("\n  Runs\n"));
+    console.log(chalk.dim(`  ${"RUN ID".padEnd(28)} ${"MODE".padEnd(11)} ${"STATUS".padEnd(12)} ${"STARTED".padEnd(17)} TASK`));
+    for (const row of rows) {
+      const source = row.source === "backend" ? chalk.dim(" (backend)") : "";
+      console.log(
+        `  ${chalk.cyan(row.runId.padEnd(28))} ${row.mode.padEnd(11)} ${colorStatus(row.status.padEnd(12))} ` +
+        `${formatTime(row.startedAt).padEnd(17)} ${truncate(row.task, 40)}${source}`
+      );
+    }
+    console.log("");
+    if (remoteNote) log.dim(remoteNote);
+  });
+
+runsCommand
+  .command("show <run_id>")
+  .description("Show details of a run")
+  .action(async (runId: string) => {
+    let local: ReturnType<typeof readTranscript> | null = null;
+    try {
+      local = readTranscript(runId);
+    } catch {
+      // Not recorded locally; the backend may still know about it
+    }
+
+    let remote: RunInfo | null = null;
+    try {
+      remote = await createClient().run(runId);
+    } catch (err) {
+      if (!local) {
+        log.error(redact((err as Error).message));
+        process.exit(1);
+      }
+    }
+
+    if (!local && !remote) {
+      log.error(`Run ${runId} not found locally or on the backend`);
+      process.exit(1);
+    }
+
+    console.log(chalk.bold(`\n  Run ${runId}\n`));
+    if (local) {
+      const { meta, events, end } = local;
+      log.detail("Task", meta.task);
+      log.detail("Mode", meta.mode);
+      log.detail("Backend", meta.backend_url);
+      log.detail("Started", formatTime(meta.started_at));
+      log.detail("Status", end ? colorStatus(end.status) : colorStatus("unfinished"));
+      if (end) log.detail("Duration", `${(end.duration_ms / 1000).toFixed(1)}s`);
+      if (end?.error) log.detail("Error", end.error);
+      log.detail("Events", String(events.length));
+
+      const last = events[events.length - 1]?.event;
+      if (last?.type === "execution_complete" && last.data.summary) {
+        log.detail("Summary", truncate(last.data.summary, 200));
+      } else if (last?.type === "error") {
+        log.detail("Error", errorMessage(last.data));
+      }
+      log.dim(`Replay with: buildwithnexus replay ${runId}`);
+    }
+    if (remote) {
+      console.log(chalk.bold("\n  Backend\n"));
+      for (const [key, value] of Object.entries(remote)) {
+        if (key === "run_id" || value === undefined || value === null) continue;
+        const text = typeof value === "string" ? value : JSON.stringify(value);
+        log.detail(key, redact(truncate(text, 200)));
+      }
+    }
+    console.log("");
+  });
+
+runsCommand
+  .command("attach <run_id>")
+  .description("Stream a run's live events (Ctrl+C detaches without cancelling)")
+  .action(async (runId: string) => {
+    const client = createClient();
+    let task = "";
+    try {
+      task = readTranscript(runId).meta.task;
+    } catch {
+      // Attaching to a run started elsewhere — no local task text
+    }
+
+    const controller = new AbortController();
+    const onSigint = () => controller.abort(DETACHED);
+    process.once("SIGINT", onSigint);
+
+    tui.displayHeader(task || `(run ${runId})`, "attached");
+    tui.displayConnected(runId);
+    tui.displayStreamStart();
+
+    let exitCode = RUN_EXIT_CODES.error;
+    try {
+      // Continues the run's transcript, or starts one for a run begun elsewhere
+      const transcript = TranscriptWriter.start({ run_id: runId, task, mode: "RUN", backend_url: client.baseUrl });
+      const stream = transcript.tee(client.streamRun(runId, {
+        signal: controller.signal,
+        onReconnecting: (info) => tui.displayReconnecting(info),
+        onReconnected: () => tui.displayReconnected(),
+      }), controller.signal);
+      for await (const event of stream) {
+        tui.displayRunEvent(event, task);
+        if (event.type === "done" || event.type === "execution_complete") {
+          tui.displayComplete(tui.getElapsedTime());
+          exitCode = RUN_EXIT_CODES.done;
+        }
+      }
+    } catch (err) {
+      if (controller.signal.aborted) {
+        console.log("");
+        log.dim(`Detached — the run continues. Reattach with: buildwithnexus runs attach ${runId}`);
+        exitCode = RUN_EXIT_CODES.interrupted;
+      } else {
+        log.error(redact((err as Error).message));
+      }
+    } finally {
+      process.removeListener("SIGINT", onSigint);
+    }
+    process.exit(exitCode);
+  });
+
+runsCommand
+  .command("cancel <run_id>")
+  .description("Ask the backend to abort a run")
+  .action(async (runId: string) => {
+    try {
+      await createClient().interrupt(runId);
+    } catch (err) {
+      log.error(redact((err as Error).message));
+      process.exit(1);
+    }
+    log.success(`Cancellation requested for run ${runId}`);
+  });
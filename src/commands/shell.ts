@@ -8,6 +8,7 @@ import { redact, redactError, shellEscape } from "../core/dlp.js";
 import { Repl } from "../ui/repl.js";
 import { EventStream, formatEvent } from "../core/event-stream.js";
 import { httpPost, httpGet } from "../core/api.js";
+import { NexusApiError, NexusClient } from "../core/client.js";
 
 async function sendMessage(httpPort: number, message: string): Promise<string> {
   return httpPost(httpPort, "/message", { message, source: "shell" });
@@ -31,12 +32,9 @@ function showShellBanner(health: { containerRunning: boolean; serverHealthy: boo
   console.log("");
 }
 
-async function getAgentList(httpPort: number): Promise<string> {
+async function getAgentList(client: NexusClient): Promise<string> {
   try {
-    const { ok, text } = await httpGet(httpPort, "/agents");
-    if (!ok) return "  Could not retrieve agent list";
-    const agents = JSON.parse(text);
-    if (!Array.isArray(agents)) return text;
+    const agents = await client.agents();
     const lines: string[] = [""];
     lines.push(chalk.bold("  Registered Agents:"));
     lines.push(chalk.dim("  ─────────────────────────────────────────"));
@@ -48,7 +46,9 @@ async function getAgentList(httpPort: number): Promise<string> {
     }
     lines.push("");
     return lines.join("\n");
-  } catch {
+  } catch (err) {
+    // A roster in a shape we don't know is still worth showing as sent
+    if (err instanceof NexusApiError && err.status === null && err.body) return err.body;
     return "  Could not retrieve agent list";
   }
 }
@@ -85,11 +85,9 @@ async function getStatus(httpPort: number): Promise<string> {
   }
 }
 
-async function getCost(httpPort: number): Promise<string> {
+async function getCost(client: NexusClient): Promise<string> {
   try {
-    const { ok, text } = await httpGet(httpPort, "/cost");
-    if (!ok) return "  Could not retrieve cost data";
-    const data = JSON.parse(text);
+    const data = await client.cost();
     const lines: string[] = [""];
     lines.push(chalk.bold("  Token Costs:"));
     lines.push(chalk.dim("  ─────────────────────────────────────────"));
@@ -138,6 +136,7 @@ export const shellCommand = new Command("shell")
         process.exit(1);
       }
       succeed(spinner, "Connected to NEXUS engine");
+      const client = new NexusClient({ baseUrl: `http://localhost:${config.httpPort}` });
 
       // Resolve tunnel URL if available
       let tunnelUrl: string | null = null;
@@ -253,7 +252,7 @@ export const shellCommand = new Command("shell")
         name: "agents",
         description: "List registered agents",
         handler: async () => {
-          const result = await getAgentList(config.httpPort);
+          const result = await getAgentList(client);
           console.log(result);
         },
       });
@@ -262,7 +261,7 @@ export const shellCommand = new Command("shell")
         name: "cost",
         description: "Show token usage and costs",
         handler: async () => {
-          const result = await getCost(config.httpPort);
+          const result = await getCost(client);
           console.log(result);
         },
       });
@@ -0,0 +1,52 @@
+import { Command } from "commander";
+import chalk from "chalk";
+import { listJournals, loadJournal, undoChanges, type ChangeJournal } from "../core/file-changes.js";
+
+function describe(journal: ChangeJournal): string {
+  const files = `${journal.entries.length} file${journal.entries.length === 1 ? "" : "s"}`;
+  const task = journal.task ? `  ${journal.task.replace(/\s+/g, " ").slice(0, 50)}` : "";
+  const state = journal.undone_at ? chalk.gray("undone") : chalk.green("applied");
+  return `${chalk.cyan(journal.id)}  ${state}  ${files}${chalk.gray(task)}`;
+}
+
+export const undoCommand = new Command("undo")
+  .description("Revert file changes applied from a BUILD run (default: the latest)")
+  .argument("[id]", "Change journal ID (see --list)")
+  .option("-l, --list", "List applied changes")
+  .option("-f, --force", "Restore files even if they were edited after the change was applied")
+  .action((id: string | undefined, opts: { list?: boolean; force?: boolean }) => {
+    if (opts.list) {
+      const journals = listJournals();
+      if (journals.length === 0) {
+        console.log(chalk.gray("No applied changes recorded."));
+        return;
+      }
+      for (const journal of journals) console.log(`  ${describe(journal)}`);
+      return;
+    }
+
+    let journal: ChangeJournal | undefined;
+    try {
+      journal = id ? loadJournal(id) : listJournals().find((j) => !j.undone_at);
+    } catch (err) {
+      console.error(chalk.red((err as Error).message));
+      process.exit(1);
+    }
+    if (!journal) {
+      console.log(chalk.gray("Nothing to undo."));
+      return;
+    }
+    if (journal.undone_at) {
+      console.log(chalk.yellow(`Changes ${journal.id} were already undone at ${journal.undone_at}.`));
+      return;
+    }
+
+    const { restored, conflicts } = undoChanges(journal, { force: opts.force });
+    for (const file of restored) console.log(chalk.green(`  ✔ restored ${file}`));
+    if (conflicts.length > 0) {
+      for (const file of conflicts) console.log(chalk.yellow(`  ⚠ ${file} was edited after the change — left as is`));
+      console.log(chalk.gray(`  Re-run with --force to restore them anyway: buildwithnexus undo ${journal.id} --force`));
+      process.exit(1);
+    }
+    console.log(chalk.green(`Undid changes ${journal.id}${restored.length === 0 ? " (files already matched)" : ""}.`));
+  });
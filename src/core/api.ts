@@ -1,5 +1,7 @@
 // src/core/api.ts — shared HTTP helpers for backend communication
 import { loadApiKeys, type ApiKeys } from "./config.js";
+import type { Attachment } from "./attachments.js";
+import type { WorkspaceContext } from "./workspace.js";
 
 // ═══════════════════════════════════════════════════════════════════
 // 1. RUN PAYLOAD BUILDER
@@ -12,6 +14,28 @@ export interface RunPayload {
   api_key: string;
   openai_api_key: string;
   google_api_key: string;
+  /** Approved steps to execute as-is; the backend skips its own planning. */
+  plan_steps?: string[];
+  /** Planning run whose context the backend should reuse. */
+  parent_run_id?: string;
+  /** Files the user referenced with `@path`, DLP-redacted. */
+  attachments?: Attachment[];
+  /** Snapshot of the user's project: directory, git state, stack, tree. */
+  workspace?: WorkspaceContext;
+  /** Model to run the task with, when not the backend's default. */
+  model?: string;
+}
+
+/** Optional plan to execute instead of planning from scratch. */
+export interface RunPlan {
+  steps?: string[];
+  parentRunId?: string;
+}
+
+/** What the CLI knows about the user's project, sent alongside the task. */
+export interface RunContext {
+  attachments?: Attachment[];
+  workspace?: WorkspaceContext;
 }
 
 /**
@@ -24,9 +48,11 @@ export function buildRunPayload(
   agentRole: string,
   agentGoal: string,
   keys?: ApiKeys,
+  plan: RunPlan = {},
+  context: RunContext = {},
 ): RunPayload {
   const k = keys ?? loadApiKeys();
-  return {
+  const payload: RunPayload = {
     task,
     agent_role: agentRole,
     agent_goal: agentGoal,
@@ -34,6 +60,11 @@ export function buildRunPayload(
     openai_api_key: k.openai || "",
     google_api_key: k.google || "",
   };
+  if (plan.steps && plan.steps.length > 0) payload.plan_steps = plan.steps;
+  if (plan.parentRunId) payload.parent_run_id = plan.parentRunId;
+  if (context.attachments && context.attachments.length > 0) payload.attachments = context.attachments;
+  if (context.workspace) payload.workspace = context.workspace;
+  return payload;
 }
 
 // ═══════════════════════════════════════════════════════════════════
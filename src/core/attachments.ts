@@ -0,0 +1,323 @@
+// src/core/attachments.ts — `@path` references sent to the backend as files
+//
+// A task such as "fix the failing test in @tests/api.test.ts" attaches that
+// file's contents to the run, so the backend sees the user's working tree
+// even when it runs elsewhere. Directories attach every text file beneath
+// them. Only files inside the workspace (the enclosing git repository, or
+// the current directory) are read; .gitignore'd, binary and oversized files
+// are skipped, and every attachment is DLP-redacted before it is sent.
+
+import fs from "node:fs";
+import path from "node:path";
+import { countSecrets, redact } from "./dlp.js";
+
+// ═══════════════════════════════════════════════════════════════════
+// 1. LIMITS & TYPES
+// ═══════════════════════════════════════════════════════════════════
+
+export const MAX_ATTACHMENT_BYTES = 100_000;
+export const MAX_TOTAL_ATTACHMENT_BYTES = 500_000;
+export const MAX_ATTACHMENT_FILES = 200;
+
+// Bytes inspected for NUL when deciding whether a file is binary (as git does)
+const BINARY_SNIFF_BYTES = 8000;
+
+/** A file as sent in the run payload. */
+export interface Attachment {
+  /** Path relative to the current directory, with forward slashes. */
+  path: string;
+  /** UTF-8 contents, secrets redacted. */
+  content: string;
+  /** Size on disk in bytes. */
+  size: number;
+}
+
+export interface SkippedPath {
+  path: string;
+  reason: string;
+}
+
+export interface AttachmentResult {
+  attachments: Attachment[];
+  skipped: SkippedPath[];
+  /** Attachments that had secrets redacted from them. */
+  redacted: string[];
+}
+
+export interface AttachmentOptions {
+  cwd?: string;
+  maxFileBytes?: number;
+  maxTotalBytes?: number;
+  maxFiles?: number;
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// 2. PARSING
+// ═══════════════════════════════════════════════════════════════════
+
+/**
+ * The `@path` references in a task, in order and without duplicates.
+ * Like `99`'s prefixes, a reference is a whitespace-delimited token starting
+ * with `@`; trailing sentence punctuation is not part of the path. The task
+ * text itself is left as written so the reference still reads naturally.
+ */
+export function parseAttachmentRefs(task: string): string[] {
+  const refs: string[] = [];
+  for (const match of task.matchAll(/(?:^|\s)@(\S+)/g)) {
+    const ref = match[1].replace(/[.,;:!?)\]}'"`]+$/, "");
+    if (ref && !refs.includes(ref)) refs.push(ref);
+  }
+  return refs;
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// 3. .GITIGNORE
+// ═══════════════════════════════════════════════════════════════════
+
+interface IgnoreRule {
+  pattern: RegExp;
+  negate: boolean;
+  dirOnly: boolean;
+}
+
+function globToRegExp(glob: string): string {
+  let out = "";
+  for (let i = 0; i < glob.length; i++) {
+    const c = glob[i];
+    if (c === "*") {
+      if (glob[i + 1] === "*") {
+        // "**/" matches any number of directories, a trailing "**" everything
+        if (glob[i + 2] === "/") {
+          out += "(?:.*/)?";
+          i += 2;
+        } else {
+          out += ".*";
+          i += 1;
+        }
+      } else {
+        out += "[^/]*";
+      }
+    } else if (c === "?") {
+      out += "[^/]";
+    } else if (c === "[") {
+      const end = glob.indexOf("]", i + 1);
+      if (end === -1) {
+        out += "\\[";
+      } else {
+        out += "[" + glob.slice(i + 1, end).replace(/^!/, "^").replace(/\\/g, "\\\\") + "]";
+        i = end;
+      }
+    } else if (c === "\\" && i + 1 < glob.length) {
+      out += glob[++i].replace(/[.*+?^${}()|[\]\\/]/g, "\\$&");
+    } else {
+      out += c.replace(/[.*+?^${}()|[\]\\/]/g, "\\$&");
+    }
+  }
+  return out;
+}
+
+/** Parse one .gitignore file's rules. */
+export function parseGitignore(text: string): IgnoreRule[] {
+  const rules: IgnoreRule[] = [];
+  for (const raw of text.split(/\r?\n/)) {
+    let line = raw.replace(/(?<!\\)\s+$/, "");
+    if (!line || line.startsWith("#")) continue;
+    const negate = line.startsWith("!");
+    if (negate) line = line.slice(1);
+    const dirOnly = line.endsWith("/");
+    if (dirOnly) line = line.replace(/\/+$/, "");
+    if (!line) continue;
+    // A slash anywhere but the end anchors the pattern to the .gitignore's directory
+    const anchored = line.includes("/");
+    const body = globToRegExp(line.replace(/^\//, ""));
+    rules.push({ pattern: new RegExp(anchored ? `^${body}$` : `(?:^|/)${body}$`), negate, dirOnly });
+  }
+  return rules;
+}
+
+/** Answers "is this path ignored?" for paths under a workspace root. */
+export class IgnoreMatcher {
+  private rulesByDir = new Map<string, IgnoreRule[]>();
+
+  constructor(private readonly root: string) {}
+
+  /** `relPath` is relative to the root, with forward slashes. */
+  ignored(relPath: string, isDir: boolean): boolean {
+    const parts = relPath.split("/");
+    // A file inside an ignored directory is ignored, whatever later rules say
+    for (let i = 1; i < parts.length; i++) {
+      if (this.matches(parts.slice(0, i), true)) return true;
+    }
+    return this.matches(parts, isDir);
+  }
+
+  private matches(parts: string[], isDir: boolean): boolean {
+    if (parts[parts.length - 1] === ".git") return true;
+    let ignored = false;
+    // Rules from deeper .gitignore files override shallower ones
+    for (let depth = 0; depth < parts.length; depth++) {
+      const dir = parts.slice(0, depth).join("/");
+      const rel = parts.slice(depth).join("/");
+      for (const rule of this.rules(dir)) {
+        if (rule.dirOnly && !isDir) continue;
+        if (rule.pattern.test(rel)) ignored = !rule.negate;
+      }
+    }
+    return ignored;
+  }
+
+  private rules(dir: string): IgnoreRule[] {
+    let rules = this.rulesByDir.get(dir);
+    if (!rules) {
+      try {
+        rules = parseGitignore(fs.readFileSync(path.join(this.root, dir, ".gitignore"), "utf-8"));
+      } catch {
+        rules = [];
+      }
+      this.rulesByDir.set(dir, rules);
+    }
+    return rules;
+  }
+}
+
+/** The enclosing git repository's root, or `cwd` outside a repository. */
+export function workspaceRoot(cwd: string): string {
+  for (let dir = cwd; ; dir = path.dirname(dir)) {
+    if (fs.existsSync(path.join(dir, ".git"))) return dir;
+    if (path.dirname(dir) === dir) return cwd;
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// 4. COLLECTION
+// ═══════════════════════════════════════════════════════════════════
+
+function isInside(root: string, target: string): boolean {
+  const rel = path.relative(root, target);
+  return rel === "" || (!rel.startsWith("..") && !path.isAbsolute(rel));
+}
+
+function toPosix(p: string): string {
+  return p.split(path.sep).join("/");
+}
+
+/**
+ * Read the files referenced by `refs` (paths relative to `cwd`). Anything
+ * that can't or shouldn't be sent is listed in `skipped` with the reason,
+ * never thrown, so a stray `@mention` does not stop a run.
+ */
+export function collectAttachments(refs: string[], options: AttachmentOptions = {}): AttachmentResult {
+  const cwd = fs.realpathSync(path.resolve(options.cwd ?? process.cwd()));
+  const maxFileBytes = options.maxFileBytes ?? MAX_ATTACHMENT_BYTES;
+  const maxTotalBytes = options.maxTotalBytes ?? MAX_TOTAL_ATTACHMENT_BYTES;
+  const maxFiles = options.maxFiles ?? MAX_ATTACHMENT_FILES;
+
+  const root = workspaceRoot(cwd);
+  const ignore = new IgnoreMatcher(root);
+  const result: AttachmentResult = { attachments: [], skipped: [], redacted: [] };
+  const seen = new Set<string>();
+  let totalBytes = 0;
+
+  const skip = (file: string, reason: string) => result.skipped.push({ path: toPosix(path.relative(cwd, file)) || ".", reason });
+
+  // Files left out once maxFiles is reached are summed up in one entry
+  let overflow = 0;
+  let stoppedWalking = false;
+  const full = () => result.attachments.length >= maxFiles;
+
+  const addFile = (file: string, size: number) => {
+    if (seen.has(file)) return;
+    seen.add(file);
+    if (full()) {
+      overflow++;
+      return;
+    }
+    if (size > maxFileBytes) return skip(file, `larger than ${formatBytes(maxFileBytes)}`);
+    if (totalBytes + size > maxTotalBytes) return skip(file, `would exceed the ${formatBytes(maxTotalBytes)} total`);
+
+    let buffer: Buffer;
+    try {
+      buffer = fs.readFileSync(file);
+    } catch (err) {
+      return skip(file, `unreadable: ${(err as Error).message}`);
+    }
+    if (buffer.subarray(0, BINARY_SNIFF_BYTES).includes(0)) return skip(file, "binary file");
+
+    const text = buffer.toString("utf-8");
+    const rel = toPosix(path.relative(cwd, file));
+    if (countSecrets(text) > 0) result.redacted.push(rel);
+    result.attachments.push({ path: rel, content: redact(text), size });
+    totalBytes += size;
+  };
+
+  const walk = (dir: string) => {
+    let entries: fs.Dirent[];
+    try {
+      entries = fs.readdirSync(dir, { withFileTypes: true });
+    } catch (err) {
+      return skip(dir, `unreadable: ${(err as Error).message}`);
+    }
+    entries.sort((a, b) => a.name.localeCompare(b.name));
+    for (const entry of entries) {
+      const file = path.join(dir, entry.name);
+      // Symlinks could lead outside the workspace; only explicit references follow them
+      if (!entry.isFile() && !entry.isDirectory()) continue;
+      if (ignore.ignored(toPosix(path.relative(root, file)), entry.isDirectory())) continue;
+      if (entry.isDirectory()) {
+        // Past the limit there is no point reading (or statting) the rest of the tree
+        if (full()) stoppedWalking = true;
+        else walk(file);
+        continue;
+      }
+      if (full()) {
+        overflow++;
+        continue;
+      }
+      let size: number;
+      try {
+        size = fs.statSync(file).size;
+      } catch (err) {
+        // Deleted or replaced since the directory was read
+        skip(file, `unreadable: ${(err as Error).message}`);
+        continue;
+      }
+      addFile(file, size);
+    }
+  };
+
+  for (const ref of refs) {
+    const target = path.resolve(cwd, ref);
+    let real: string;
+    let stat: fs.Stats;
+    try {
+      real = fs.realpathSync(target);
+      stat = fs.statSync(real);
+    } catch {
+      skip(target, "not found");
+      continue;
+    }
+    if (!isInside(root, real)) {
+      skip(target, "outside the workspace");
+      continue;
+    }
+    if (real !== root && ignore.ignored(toPosix(path.relative(root, real)), stat.isDirectory())) {
+      skip(target, "ignored by .gitignore");
+      continue;
+    }
+    if (stat.isDirectory()) walk(real);
+    else if (stat.isFile()) addFile(real, stat.size);
+    else skip(target, "not a regular file");
+  }
+  if (overflow > 0 || stoppedWalking) {
+    const count = overflow === 0 ? "more files" : `${stoppedWalking ? "at least " : ""}${overflow} more file${overflow === 1 && !stoppedWalking ? "" : "s"}`;
+    result.skipped.push({ path: count, reason: `over the ${maxFiles}-file limit` });
+  }
+  return result;
+}
+
+/** "512 B", "12.4 KB", "1.2 MB". */
+export function formatBytes(bytes: number): string {
+  if (bytes < 1000) return `${bytes} B`;
+  if (bytes < 1_000_000) return `${(bytes / 1000).toFixed(1).replace(/\.0$/, "")} KB`;
+  return `${(bytes / 1_000_000).toFixed(1).replace(/\.0$/, "")} MB`;
+}
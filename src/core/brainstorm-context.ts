@@ -0,0 +1,119 @@
+// src/core/brainstorm-context.ts — keep brainstorm prompts within budget
+//
+// The backend keeps no state between runs, so every brainstorm turn resends
+// the conversation. Left alone that grows without limit. BrainstormContext
+// builds each prompt from a running summary of older turns plus the most
+// recent turns verbatim, and folds more turns into the summary (via a
+// backend call) once the prompt passes its token budget. The summary is
+// stored on the session so a resumed brainstorm keeps it.
+
+import type { BrainstormSession, ContextSummary } from "./brainstorm-session.js";
+
+export interface ContextOptions {
+  /** Approximate prompt size that triggers summarising older turns. */
+  maxTokens?: number;
+  /** Most recent question/answer turns that are always sent verbatim. */
+  keepTurns?: number;
+}
+
+export interface ContextUsage {
+  tokens: number;
+  maxTokens: number;
+  /** Messages folded into the summary. */
+  summarised: number;
+  /** Messages sent word for word. */
+  verbatim: number;
+}
+
+/** Turns older conversation text into a summary; backed by a backend run. */
+export type Summariser = (prompt: string) => Promise<string>;
+
+export const DEFAULT_CONTEXT_TOKENS = 6_000;
+export const DEFAULT_KEEP_TURNS = 3;
+
+/** Rough token count (≈4 characters per token), good enough for budgeting. */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/** "850", "2.1k", "12k". */
+export function formatTokens(tokens: number): string {
+  if (tokens < 1000) return String(tokens);
+  return tokens < 10_000 ? `${(tokens / 1000).toFixed(1)}k` : `${Math.round(tokens / 1000)}k`;
+}
+
+function transcript(messages: BrainstormSession["messages"]): string {
+  return messages.map((m) => `${m.role === "user" ? "User" : "Assistant"}: ${m.content}`).join("\n\n");
+}
+
+export class BrainstormContext {
+  readonly maxTokens: number;
+  private readonly keepMessages: number;
+
+  constructor(
+    readonly session: BrainstormSession,
+    options: ContextOptions = {},
+  ) {
+    this.maxTokens = options.maxTokens ?? DEFAULT_CONTEXT_TOKENS;
+    this.keepMessages = 2 * (options.keepTurns ?? DEFAULT_KEEP_TURNS);
+  }
+
+  private get summary(): ContextSummary | undefined {
+    return this.session.summary;
+  }
+
+  /** The prompt for the next turn: summary, recent turns, then the new question. */
+  prompt(question: string): string {
+    const parts: string[] = [];
+    if (this.summary) parts.push(`Summary of the earlier conversation:\n${this.summary.text}`);
+    const recent = this.session.messages.slice(this.summary?.through ?? 0);
+    if (recent.length > 0) parts.push(transcript(recent));
+    if (parts.length === 0) return question;
+    parts.push(`User: ${question}`);
+    return parts.join("\n\n");
+  }
+
+  usage(question = ""): ContextUsage {
+    const summarised = this.summary?.through ?? 0;
+    return {
+      tokens: estimateTokens(this.prompt(question)),
+      maxTokens: this.maxTokens,
+      summarised,
+      verbatim: this.session.messages.length - summarised,
+    };
+  }
+
+  /** True when the next prompt is over budget and there are older turns left to fold in. */
+  needsSummary(question = ""): boolean {
+    return this.usage(question).tokens > this.maxTokens && this.foldable().length > 0;
+  }
+
+  /**
+   * Fold everything but the last few turns into the summary. Returns false
+   * when there was nothing to fold; summariser errors propagate and leave
+   * the context unchanged.
+   */
+  async summarise(summariser: Summariser): Promise<boolean> {
+    const fold = this.foldable();
+    if (fold.length === 0) return false;
+
+    const previous = this.summary ? `Summary so far:\n${this.summary.text}\n\n` : "";
+    const text = (await summariser(
+      "Summarise the brainstorm below so it can stand in for the full conversation. Keep decisions, constraints, " +
+        "rejected options, open questions and ideas the user liked. Use short bullet points, under 250 words.\n\n" +
+        previous +
+        `Conversation:\n${transcript(fold)}`,
+    )).trim();
+    if (!text) throw new Error("The backend returned an empty summary");
+
+    this.session.summary = { text, through: (this.summary?.through ?? 0) + fold.length };
+    return true;
+  }
+
+  /** Unsummarised messages older than the verbatim window. */
+  private foldable(): BrainstormSession["messages"] {
+    const start = this.summary?.through ?? 0;
+    const end = this.session.messages.length - this.keepMessages;
+    return end > start ? this.session.messages.slice(start, end) : [];
+  }
+}
@@ -0,0 +1,192 @@
+// src/core/brainstorm-session.ts — saved, resumable brainstorm conversations
+//
+// Each session is a JSON file under ~/.buildwithnexus/brainstorms/<id>.json,
+// rewritten after every turn so a crash loses at most the turn in flight.
+// Like run transcripts, everything passes through DLP `redact` before it
+// touches disk.
+
+import crypto from "node:crypto";
+import fs from "node:fs";
+import path from "node:path";
+import { redact } from "./dlp.js";
+import { NEXUS_HOME } from "./secrets.js";
+
+export const BRAINSTORMS_DIR = path.join(NEXUS_HOME, "brainstorms");
+
+/** Bump when the file format changes incompatibly. */
+export const BRAINSTORM_SESSION_VERSION = 1;
+
+const TITLE_LENGTH = 60;
+const SESSION_ID_PATTERN = /^[a-zA-Z0-9_-]+$/;
+
+export interface BrainstormMessage {
+  role: "user" | "assistant";
+  content: string;
+  at: string;
+}
+
+/** Running summary of the oldest messages, maintained by BrainstormContext. */
+export interface ContextSummary {
+  text: string;
+  /** How many messages, from the start, the summary stands in for. */
+  through: number;
+}
+
+export interface BrainstormSession {
+  version: number;
+  id: string;
+  title: string;
+  created_at: string;
+  updated_at: string;
+  messages: BrainstormMessage[];
+  summary?: ContextSummary;
+}
+
+export interface BrainstormSummary {
+  id: string;
+  title: string;
+  updated_at: string;
+  /** Completed question/answer exchanges. */
+  turns: number;
+}
+
+/** Path of a session file. Throws for IDs that could escape BRAINSTORMS_DIR. */
+export function sessionPath(id: string): string {
+  if (!SESSION_ID_PATTERN.test(id)) throw new Error(`Invalid brainstorm session ID: ${id}`);
+  return path.join(BRAINSTORMS_DIR, `${id}.json`);
+}
+
+/** A one-line title from the opening message. */
+export function sessionTitle(text: string): string {
+  const line = text.replace(/\s+/g, " ").trim();
+  return line.length > TITLE_LENGTH ? line.slice(0, TITLE_LENGTH - 1) + "…" : line || "Untitled brainstorm";
+}
+
+/** Start a session (not written until the first save). IDs sort by creation time. */
+export function createSession(title: string, now: Date = new Date()): BrainstormSession {
+  const stamp = now.toISOString().replace(/[-:]/g, "").replace("T", "-").slice(0, 15);
+  return {
+    version: BRAINSTORM_SESSION_VERSION,
+    id: `${stamp}-${crypto.randomBytes(3).toString("hex")}`,
+    title: sessionTitle(title),
+    created_at: now.toISOString(),
+    updated_at: now.toISOString(),
+    messages: [],
+  };
+}
+
+/** Append a message and bump the session's update time. */
+export function addMessage(session: BrainstormSession, role: BrainstormMessage["role"], content: string): void {
+  const at = new Date().toISOString();
+  session.messages.push({ role, content, at });
+  session.updated_at = at;
+}
+
+/** Write a session, redacted, replacing the previous copy atomically. */
+export function saveSession(session: BrainstormSession): void {
+  const file = sessionPath(session.id);
+  fs.mkdirSync(BRAINSTORMS_DIR, { recursive: true, mode: 0o700 });
+  const tmp = `${file}.${process.pid}.tmp`;
+  fs.writeFileSync(tmp, redact(JSON.stringify(session, null, 2)) + "\n", { mode: 0o600 });
+  fs.renameSync(tmp, file);
+}
+
+export function loadSession(id: string): BrainstormSession {
+  const file = sessionPath(id);
+  if (!fs.existsSync(file)) {
+    throw new Error(`No brainstorm session ${id} (looked in ${BRAINSTORMS_DIR})`);
+  }
+  let session: BrainstormSession;
+  try {
+    session = JSON.parse(fs.readFileSync(file, "utf-8")) as BrainstormSession;
+  } catch (err) {
+    throw new Error(`Brainstorm session ${id} is unreadable: ${(err as Error).message}`);
+  }
+  if (!session || !Array.isArray(session.messages) || typeof session.title !== "string") {
+    throw new Error(`Brainstorm session ${id} is not in a format this CLI understands`);
+  }
+  if (session.version > BRAINSTORM_SESSION_VERSION) {
+    throw new Error(`Brainstorm session ${id} was written by a newer buildwithnexus — update to open it`);
+  }
+  return { ...session, id };
+}
+
+/** Every readable session, most recently updated first. */
+export function listSessions(): BrainstormSummary[] {
+  if (!fs.existsSync(BRAINSTORMS_DIR)) return [];
+  const summaries: BrainstormSummary[] = [];
+  for (const file of fs.readdirSync(BRAINSTORMS_DIR)) {
+    if (!file.endsWith(".json")) continue;
+    try {
+      const session = loadSession(file.slice(0, -".json".length));
+      summaries.push({
+        id: session.id,
+        title: session.title,
+        updated_at: session.updated_at,
+        turns: session.messages.filter((m) => m.role === "assistant").length,
+      });
+    } catch {
+      // Not a session we wrote (or damaged) — skip it
+    }
+  }
+  return summaries.sort((a, b) => b.updated_at.localeCompare(a.updated_at));
+}
+
+/** A clean markdown transcript of a session. */
+export function sessionToMarkdown(session: BrainstormSession): string {
+  const lines = [
+    `# ${session.title}`,
+    "",
+    `_Brainstorm session \`${session.id}\` · started ${session.created_at} · last updated ${session.updated_at}_`,
+    "",
+  ];
+  for (const message of session.messages) {
+    lines.push(message.role === "user" ? "## You" : "## NEXUS CPO", "", message.content.trim(), "");
+  }
+  return redact(lines.join("\n"));
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// HANDOFF TO PLAN
+// ═══════════════════════════════════════════════════════════════════
+
+/** A concrete task distilled from a brainstorm, ready for PLAN mode. */
+export interface TaskBrief {
+  task: string;
+  criteria: string[];
+}
+
+/** The request, sent after the conversation, for a reply parseTaskBrief understands. */
+export const DISTILL_REQUEST =
+  "Distill this conversation into one concrete, buildable task. Reply in exactly this format and nothing else:\n\n" +
+  "TASK: <one paragraph describing what to build>\n" +
+  "ACCEPTANCE CRITERIA:\n" +
+  "- <verifiable criterion>\n" +
+  "- <verifiable criterion>";
+
+/**
+ * Parse a reply in the DISTILL_REQUEST format. Lenient about case, markdown
+ * emphasis and bullet style; a reply without a TASK line is taken whole as
+ * the task. Returns null when the reply is empty.
+ */
+export function parseTaskBrief(text: string): TaskBrief | null {
+  const clean = text.replace(/\*\*|__/g, "").trim();
+  if (!clean) return null;
+
+  const split = /^\s*#*\s*acceptance criteria\s*:?\s*$/im.exec(clean);
+  const head = split ? clean.slice(0, split.index) : clean;
+  const tail = split ? clean.slice(split.index + split[0].length) : "";
+
+  const task = head.replace(/^\s*#*\s*task\s*:\s*/i, "").replace(/\s+/g, " ").trim();
+  const criteria = tail
+    .split(/\r?\n/)
+    .map((line) => /^\s*(?:[-*+]|\d+[.)])\s+(.*)$/.exec(line)?.[1].trim() ?? "")
+    .filter(Boolean);
+  return task ? { task, criteria } : null;
+}
+
+/** The task text handed to PLAN mode; also the editable form of a brief. */
+export function formatTaskBrief(brief: TaskBrief): string {
+  if (brief.criteria.length === 0) return brief.task;
+  return `${brief.task}\n\nAcceptance criteria:\n${brief.criteria.map((c) => `- ${c}`).join("\n")}`;
+}
@@ -0,0 +1,477 @@
+// src/core/client.ts — typed client for the NEXUS backend HTTP API
+import type { ApiKeys } from "./config.js";
+import { buildRunPayload, checkServerHealth } from "./api.js";
+import type { Attachment } from "./attachments.js";
+import type { WorkspaceContext } from "./workspace.js";
+import { parseSSEStream, type SSEEvent } from "./sse-parser.js";
+import {
+  parseEvent,
+  isTerminalEvent,
+  reportEventDiagnostic,
+  salvageTerminalEvent,
+  type NexusEvent,
+  type EventDiagnostic,
+} from "./events.js";
+import { getBackendUrl } from "./secrets.js";
+import { backoffMs, sleep } from "./utils.js";
+
+// ═══════════════════════════════════════════════════════════════════
+// 1. TYPES
+// ═══════════════════════════════════════════════════════════════════
+
+export interface NexusClientOptions {
+  /** Backend base URL. Defaults to getBackendUrl(). */
+  baseUrl?: string;
+  /** API keys forwarded with each run. Defaults to loadApiKeys(). */
+  keys?: ApiKeys;
+  /** Timeout for plain request/response calls. */
+  requestTimeoutMs?: number;
+  /**
+   * Drop and re-establish a stream connection that has received no bytes
+   * for this long. Streams stay open indefinitely while data arrives.
+   */
+  streamIdleTimeoutMs?: number;
+  /** Consecutive reconnect attempts before a dropped stream is given up. */
+  maxReconnectAttempts?: number;
+  /**
+   * Reconnects allowed over a whole stream, however much arrives between
+   * them, so a backend that keeps closing early is not followed forever.
+   */
+  maxTotalReconnects?: number;
+}
+
+export interface CreateRunOptions {
+  agentRole?: string;
+  agentGoal?: string;
+  /** Approved plan steps to execute instead of re-planning. */
+  planSteps?: string[];
+  /** Planning run to build on, so the backend can reuse its context. */
+  parentRunId?: string;
+  /** Files referenced in the task with `@path` (see collectAttachments). */
+  attachments?: Attachment[];
+  /** Snapshot of the user's project (see gatherWorkspace). */
+  workspace?: WorkspaceContext;
+  /** Model for the run, e.g. MODELS.HAIKU for quick internal calls. */
+  model?: string;
+  /** Gives up on starting the run when signalled. */
+  signal?: AbortSignal;
+}
+
+export interface ReconnectInfo {
+  attempt: number;
+  maxAttempts: number;
+  delayMs: number;
+  reason: string;
+}
+
+export interface StreamRunOptions {
+  /** Aborts the stream connection when signalled. */
+  signal?: AbortSignal;
+  /** Called before each reconnect attempt after the stream drops. */
+  onReconnecting?: (info: ReconnectInfo) => void;
+  /** Called once a reconnect attempt has re-established the stream. */
+  onReconnected?: () => void;
+  /**
+   * Called for unknown or malformed events. Defaults to
+   * reportEventDiagnostic, which prints them in debug mode.
+   */
+  onDiagnostic?: (diagnostic: EventDiagnostic) => void;
+  /**
+   * True while the run is paused (see RunSteering). A paused run goes
+   * quiet, so the idle timeout is suspended rather than dropping the stream.
+   */
+  paused?: () => boolean;
+}
+
+/**
+ * `abort` stops the run; `pause` / `resume` hold and continue it; `redirect`
+ * delivers a steering message the agents pick up at their next step.
+ */
+export type InterruptType = "abort" | "pause" | "resume" | "redirect";
+
+export interface AgentInfo {
+  id?: string;
+  name?: string;
+  role?: string;
+  status?: string;
+  [key: string]: unknown;
+}
+
+/** A run as reported by the backend. Only `run_id` is guaranteed. */
+export interface RunInfo {
+  run_id: string;
+  status?: string;
+  task?: string;
+  created_at?: string;
+  [key: string]: unknown;
+}
+
+export interface CostSummary {
+  total?: number;
+  today?: number;
+  by_agent?: Record<string, number>;
+  [key: string]: unknown;
+}
+
+/**
+ * Raised for any failed call to the backend. Carries the HTTP status and
+ * a snippet of the response body when one was received, so callers can
+ * report errors consistently.
+ */
+export class NexusApiError extends Error {
+  readonly status: number | null;
+  readonly statusText: string;
+  readonly body: string;
+
+  constructor(message: string, status: number | null = null, statusText = "", body = "") {
+    super(message);
+    this.name = "NexusApiError";
+    this.status = status;
+    this.statusText = statusText;
+    this.body = body;
+  }
+}
+
+const RUN_ID_PATTERN = /^[a-zA-Z0-9_-]+$/;
+const BODY_SNIPPET_LENGTH = 300;
+
+// ═══════════════════════════════════════════════════════════════════
+// 2. CLIENT
+// ═══════════════════════════════════════════════════════════════════
+
+/**
+ * Single entry point for talking to the NEXUS backend: creating runs,
+ * streaming their events, interrupting them and reading backend state.
+ */
+export class NexusClient {
+  readonly baseUrl: string;
+  private keys?: ApiKeys;
+  private requestTimeoutMs: number;
+  private streamIdleTimeoutMs: number;
+  private maxReconnectAttempts: number;
+  private maxTotalReconnects: number;
+
+  constructor(options: NexusClientOptions = {}) {
+    this.baseUrl = (options.baseUrl ?? getBackendUrl()).replace(/\/+$/, "");
+    this.keys = options.keys;
+    this.requestTimeoutMs = options.requestTimeoutMs ?? 120_000;
+    this.streamIdleTimeoutMs = options.streamIdleTimeoutMs ?? 120_000;
+    this.maxReconnectAttempts = options.maxReconnectAttempts ?? 5;
+    this.maxTotalReconnects = options.maxTotalReconnects ?? 50;
+  }
+
+  /** True when GET /health responds OK. Never throws. */
+  async health(timeoutMs: number = 10_000): Promise<boolean> {
+    return checkServerHealth(this.baseUrl, timeoutMs);
+  }
+
+  /**
+   * The backend's version, as reported in the GET /health body. Null when
+   * the backend is unreachable or does not report one. Never throws.
+   */
+  async backendVersion(timeoutMs: number = 10_000): Promise<string | null> {
+    try {
+      const res = await fetch(`${this.baseUrl}/health`, { signal: AbortSignal.timeout(timeoutMs) });
+      if (!res.ok) return null;
+      const body = (await res.json()) as { version?: unknown };
+      return typeof body?.version === "string" && body.version ? body.version : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /** POST /api/run and return the validated run ID. */
+  async createRun(task: string, options: CreateRunOptions = {}): Promise<string> {
+    if (options.parentRunId) assertRunId(options.parentRunId);
+    const payload = buildRunPayload(
+      task,
+      options.agentRole ?? "engineer",
+      options.agentGoal ?? "",
+      this.keys,
+      { steps: options.planSteps, parentRunId: options.parentRunId },
+      { attachments: options.attachments, workspace: options.workspace },
+    );
+    if (options.model) payload.model = options.model;
+    const res = await this.request("/api/run", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(payload),
+      signal: options.signal,
+    }, "Backend error starting run");
+
+    const text = await res.text();
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(text);
+    } catch {
+      throw new NexusApiError(`Backend returned invalid JSON: ${text.slice(0, 200)}`);
+    }
+    const runId = (parsed as { run_id?: unknown } | null)?.run_id;
+    if (!runId || typeof runId !== "string") {
+      throw new NexusApiError("Backend did not return a valid run ID");
+    }
+    if (!RUN_ID_PATTERN.test(runId)) {
+      throw new NexusApiError("Backend returned run ID with invalid characters");
+    }
+    return runId;
+  }
+
+  /**
+   * Connect to GET /api/stream/:run_id and yield typed events until the
+   * run reaches a terminal event, the backend closes the stream, or the
+   * consumer stops iterating.
+   *
+   * A dropped connection (network error, backend restart, idle timeout)
+   * is re-established with `Last-Event-ID` set to the last seen event id,
+   * backing off between attempts, so the run is not lost to the CLI.
+   * Frames reset the consecutive-attempt count, but reconnects over the
+   * whole stream are capped too. A malformed `error` / `done` frame still
+   * ends the stream (see salvageTerminalEvent).
+   */
+  async *streamRun(runId: string, options: StreamRunOptions = {}): AsyncGenerator<NexusEvent> {
+    assertRunId(runId);
+    let lastEventId: string | undefined;
+    let serverRetryMs = 0;
+    let attempt = 0;
+    let reconnects = 0;
+
+    while (true) {
+      let sawTerminal = false;
+      let failure: unknown = null;
+      const reconnecting = attempt > 0;
+
+      try {
+        const frames = this.openStream(runId, lastEventId, options, () => {
+          if (reconnecting) options.onReconnected?.();
+        });
+        for await (const frame of frames) {
+          if (frame.id !== undefined) lastEventId = frame.id;
+          if (frame.retry !== undefined) serverRetryMs = frame.retry;
+          attempt = 0;
+          const { event: parsed, diagnostic } = parseEvent(frame);
+          if (diagnostic) (options.onDiagnostic ?? reportEventDiagnostic)(diagnostic);
+          const event = salvageTerminalEvent(parsed);
+          if (isTerminalEvent(event)) sawTerminal = true;
+          yield event;
+        }
+      } catch (err) {
+        if (options.signal?.aborted || !isRetryable(err)) throw err;
+        failure = err;
+      }
+
+      if (sawTerminal) return;
+      if (attempt >= this.maxReconnectAttempts || reconnects >= this.maxTotalReconnects) {
+        if (failure) throw failure;
+        return;
+      }
+
+      // Honour a longer `retry:` interval if the server asked for one
+      const delayMs = Math.max(backoffMs(attempt), serverRetryMs);
+      attempt++;
+      reconnects++;
+      options.onReconnecting?.({
+        attempt,
+        maxAttempts: this.maxReconnectAttempts,
+        delayMs,
+        reason: failure instanceof Error ? failure.message : "stream closed before the run finished",
+      });
+      await sleep(delayMs, options.signal);
+    }
+  }
+
+  /** One stream connection; aborted if no bytes arrive within the idle timeout while the run is not paused. */
+  private async *openStream(
+    runId: string,
+    lastEventId: string | undefined,
+    { signal, paused }: StreamRunOptions,
+    onOpen: () => void,
+  ): AsyncGenerator<SSEEvent> {
+    const idle = new AbortController();
+    let reader: ReadableStreamDefaultReader<Uint8Array> | null = null;
+    let idleTimer: ReturnType<typeof setTimeout> | null = null;
+    const resetIdle = () => {
+      if (idleTimer) clearTimeout(idleTimer);
+      idleTimer = setTimeout(() => {
+        if (paused?.()) {
+          resetIdle();
+          return;
+        }
+        idle.abort(new Error(`no data from backend for ${this.streamIdleTimeoutMs / 1000}s`));
+        reader?.cancel().catch(() => {});
+      }, this.streamIdleTimeoutMs);
+    };
+
+    const headers: Record<string, string> = { Accept: "text/event-stream" };
+    if (lastEventId) headers["Last-Event-ID"] = lastEventId;
+
+    resetIdle();
+    try {
+      let res: Response;
+      try {
+        res = await fetch(`${this.baseUrl}/api/stream/${runId}`, {
+          headers,
+          signal: signal ? AbortSignal.any([signal, idle.signal]) : idle.signal,
+        });
+      } catch (err) {
+        throw networkError("Stream endpoint unreachable", idle.signal.aborted ? idle.signal.reason : err);
+      }
+      if (!res.ok) throw await responseError("Stream endpoint error", res);
+      if (!res.body) throw new NexusApiError("No response body");
+      onOpen();
+
+      reader = res.body
+        .pipeThrough(new TransformStream<Uint8Array, Uint8Array>({
+          transform(chunk, controller) {
+            resetIdle();
+            controller.enqueue(chunk);
+          },
+        }))
+        .getReader();
+
+      try {
+        for await (const frame of parseSSEStream(reader)) {
+          // The consumer may take its time with an event; only time the network
+          if (idleTimer) clearTimeout(idleTimer);
+          yield frame;
+          resetIdle();
+        }
+      } catch (err) {
+        throw idle.signal.aborted ? idle.signal.reason : err;
+      } finally {
+        reader.cancel().catch(() => {});
+      }
+      // A cancelled reader ends the parser cleanly; report the idle timeout instead
+      if (idle.signal.aborted) throw idle.signal.reason;
+    } finally {
+      if (idleTimer) clearTimeout(idleTimer);
+    }
+  }
+
+  /** POST /api/interrupt for a run. `message` is required for, and only sent with, `redirect`. */
+  async interrupt(runId: string, interruptType: InterruptType = "abort", message?: string): Promise<void> {
+    assertRunId(runId);
+    if (interruptType === "redirect" && !message?.trim()) {
+      throw new NexusApiError("A redirect interrupt needs a message");
+    }
+    const body: Record<string, string> = { run_id: runId, interrupt_type: interruptType };
+    if (interruptType === "redirect") body.message = message!.trim();
+    await this.request("/api/interrupt", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    }, "Backend error interrupting run");
+  }
+
+  /**
+   * GET /api/runs — runs the backend knows about. Resolves to null when the
+   * backend does not expose run history (HTTP 404).
+   */
+  async runs(): Promise<RunInfo[] | null> {
+    const body = await this.getJsonOrNull("/api/runs", "Could not retrieve runs");
+    if (body === null) return null;
+    const list = Array.isArray(body) ? body : (body as { runs?: unknown }).runs;
+    if (!Array.isArray(list)) {
+      throw new NexusApiError("Backend returned an unexpected run list");
+    }
+    return list.filter((r): r is RunInfo => !!r && typeof r === "object" && typeof r.run_id === "string");
+  }
+
+  /** GET /api/runs/:run_id — resolves to null when the backend has no record of the run. */
+  async run(runId: string): Promise<RunInfo | null> {
+    assertRunId(runId);
+    const body = await this.getJsonOrNull(`/api/runs/${runId}`, "Could not retrieve run");
+    if (body === null) return null;
+    if (!body || typeof body !== "object" || Array.isArray(body)) {
+      throw new NexusApiError("Backend returned unexpected run data");
+    }
+    return { run_id: runId, ...(body as Record<string, unknown>) };
+  }
+
+  /**
+   * GET /agents — the registered agent roster, bare or in an `{ agents }`
+   * wrapper. Any other shape throws with the body attached.
+   */
+  async agents(): Promise<AgentInfo[]> {
+    const body = await this.getJson("/agents", "Could not retrieve agent list");
+    const list = Array.isArray(body) ? body : (body as { agents?: unknown } | null)?.agents;
+    if (!Array.isArray(list)) {
+      const raw = JSON.stringify(body, null, 2).slice(0, BODY_SNIPPET_LENGTH);
+      throw new NexusApiError("Backend returned an unexpected agent list", null, "", raw);
+    }
+    return list as AgentInfo[];
+  }
+
+  /** GET /cost — token usage and spend. */
+  async cost(): Promise<CostSummary> {
+    const body = await this.getJson("/cost", "Could not retrieve cost data");
+    if (!body || typeof body !== "object") {
+      throw new NexusApiError("Backend returned unexpected cost data");
+    }
+    return body as CostSummary;
+  }
+
+  private async getJson(path: string, label: string): Promise<unknown> {
+    const res = await this.request(path, {}, label);
+    const text = await res.text();
+    try {
+      return JSON.parse(text);
+    } catch {
+      throw new NexusApiError(`${label}: invalid JSON: ${text.slice(0, 200)}`);
+    }
+  }
+
+  private async getJsonOrNull(path: string, label: string): Promise<unknown> {
+    try {
+      return await this.getJson(path, label);
+    } catch (err) {
+      if (err instanceof NexusApiError && err.status === 404) return null;
+      throw err;
+    }
+  }
+
+  private async request(path: string, init: RequestInit, label: string): Promise<Response> {
+    let res: Response;
+    try {
+      const timeout = AbortSignal.timeout(this.requestTimeoutMs);
+      res = await fetch(`${this.baseUrl}${path}`, {
+        ...init,
+        signal: init.signal ? AbortSignal.any([init.signal, timeout]) : timeout,
+      });
+    } catch (err) {
+      throw networkError(label, err);
+    }
+    if (!res.ok) throw await responseError(label, res);
+    return res;
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// 3. ERROR HELPERS
+// ═══════════════════════════════════════════════════════════════════
+
+/** HTTP 4xx responses are final; network failures and 5xx are worth retrying. */
+function isRetryable(err: unknown): boolean {
+  if (err instanceof NexusApiError && err.status !== null) return err.status >= 500;
+  return true;
+}
+
+function assertRunId(runId: string): void {
+  if (!RUN_ID_PATTERN.test(runId)) {
+    throw new NexusApiError(`Invalid run ID: ${runId.slice(0, 64)}`);
+  }
+}
+
+async function responseError(label: string, res: Response): Promise<NexusApiError> {
+  let body = "";
+  try {
+    body = (await res.text()).slice(0, BODY_SNIPPET_LENGTH);
+  } catch {
+    body = "(could not read response body)";
+  }
+  return new NexusApiError(`${label}: HTTP ${res.status} ${res.statusText}`.trim(), res.status, res.statusText, body);
+}
+
+function networkError(label: string, err: unknown): NexusApiError {
+  const msg = err instanceof Error ? err.message : String(err);
+  return new NexusApiError(`${label}: ${msg}`);
+}
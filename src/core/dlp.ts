@@ -92,6 +92,16 @@ export function redact(text: string): string {
   return result;
 }
 
+/** How many recognized secrets a string contains (what `redact` would replace). */
+export function countSecrets(text: string): number {
+  let count = 0;
+  for (const pattern of SECRET_PATTERNS) {
+    pattern.lastIndex = 0;
+    count += text.match(pattern)?.length ?? 0;
+  }
+  return count;
+}
+
 /**
  * Redact secrets from an Error's message and stack.
  * Returns a new Error — never mutates the original.
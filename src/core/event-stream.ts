@@ -1,7 +1,9 @@
 import chalk from "chalk";
-import { dockerExec } from "./docker.js";
-import { loadConfig } from "./secrets.js";
+import { getBackendUrl, loadConfig } from "./secrets.js";
 import { redact } from "./dlp.js";
+import { parseSSEStream, type SSEEvent } from "./sse-parser.js";
+import { parseEvent, reportEventDiagnostic, type AgentEventType } from "./events.js";
+import { backoffMs, sleep } from "./utils.js";
 
 // Agent role color map
 const ROLE_COLORS: Record<string, (text: string) => string> = {
@@ -18,7 +20,7 @@ const ROLE_COLORS: Record<string, (text: string) => string> = {
 
 export interface AgentEvent {
   id?: string;
-  type: "agent_thinking" | "agent_response" | "task_delegated" | "agent_complete" | "error" | "heartbeat";
+  type: AgentEventType;
   agent?: string;
   role?: string;
   content?: string;
@@ -53,94 +55,164 @@ export function formatEvent(event: AgentEvent): string | null {
   }
 }
 
-function parseSSEData(raw: string): AgentEvent[] {
-  const events: AgentEvent[] = [];
-  const blocks = raw.split("\n\n");
-  for (const block of blocks) {
-    if (!block.trim()) continue;
-    let data = "";
-    for (const line of block.split("\n")) {
-      if (line.startsWith("data: ")) {
-        data += line.slice(6);
-      }
-    }
-    if (data) {
-      try {
-        events.push(JSON.parse(data));
-      } catch {
-        // Skip malformed events
-      }
-    }
-  }
-  return events;
+const AGENT_EVENT_TYPES: ReadonlySet<string> = new Set<AgentEventType>([
+  "agent_thinking", "agent_response", "task_delegated", "agent_complete", "error", "heartbeat",
+]);
+
+/**
+ * Validate a feed frame against the shared event schema. Returns null for
+ * frames that fail validation (reported in debug mode) and for schema
+ * events outside the feed vocabulary, which formatEvent has no rendering for.
+ */
+function toAgentEvent(decoded: SSEEvent): AgentEvent | null {
+  const { event, diagnostic } = parseEvent(decoded);
+  if (diagnostic) reportEventDiagnostic(diagnostic);
+  if (!AGENT_EVENT_TYPES.has(event.type)) return null;
+  const data = event.data as Record<string, unknown>;
+  return {
+    ...data,
+    type: event.type as AgentEventType,
+    id: typeof data["id"] === "string" ? data["id"] : decoded.id,
+  };
+}
+
+export type AgentEventListener = (event: AgentEvent) => void;
+
+export interface EventStreamOptions {
+  /** Backend base URL. Defaults to getBackendUrl(). */
+  baseUrl?: string;
 }
 
 export interface EventStreamStatus {
   active: boolean;
+  connected: boolean;
   consecutiveErrors: number;
   lastError: string | null;
 }
 
+/**
+ * Persistent subscription to the backend's GET /events SSE feed.
+ *
+ * Holds one HTTP connection open for as long as the stream is started,
+ * reconnecting with `Last-Event-ID` and exponential backoff when it drops,
+ * and fans each event out to every subscriber.
+ */
 export class EventStream {
   private active = false;
-  private lastId = "0";
-  private onEvent: (event: AgentEvent) => void;
-  private pollInterval: ReturnType<typeof setInterval> | null = null;
+  private connected = false;
+  private lastId: string | undefined;
+  private listeners = new Set<AgentEventListener>();
+  private controller: AbortController | null = null;
+  private reader: ReadableStreamDefaultReader<Uint8Array> | null = null;
   private consecutiveErrors = 0;
   private lastError: string | null = null;
+  private baseUrl: string;
 
-  constructor(onEvent: (event: AgentEvent) => void) {
-    this.onEvent = onEvent;
+  constructor(onEvent?: AgentEventListener, options: EventStreamOptions = {}) {
+    if (onEvent) this.listeners.add(onEvent);
+    this.baseUrl = (options.baseUrl ?? getBackendUrl()).replace(/\/+$/, "");
+  }
+
+  /** Register a listener. Returns a function that removes it again. */
+  subscribe(listener: AgentEventListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
   }
 
   getStatus(): EventStreamStatus {
     return {
       active: this.active,
+      connected: this.connected,
       consecutiveErrors: this.consecutiveErrors,
       lastError: this.lastError,
     };
   }
 
+  /**
+   * Open the connection in the background. Does nothing until NEXUS is
+   * set up, and calling it again while active is a no-op.
+   */
   async start(): Promise<void> {
-    this.active = true;
+    if (this.active) return;
     const config = loadConfig();
     if (!config) return;
+    this.active = true;
+    this.controller = new AbortController();
+    void this.run(this.controller.signal);
+  }
+
+  stop(): void {
+    this.active = false;
+    this.connected = false;
+    if (this.controller) {
+      this.controller.abort();
+      this.controller = null;
+    }
+    this.reader?.cancel().catch(() => {});
+    this.reader = null;
+  }
+
+  private async run(signal: AbortSignal): Promise<void> {
+    let attempt = 0;
+    // A `retry:` field from the server sets the shortest wait between connections
+    let serverRetryMs = 0;
 
-    // Poll for events every 2 seconds via SSH
-    this.pollInterval = setInterval(async () => {
-      if (!this.active) return;
+    while (!signal.aborted) {
       try {
-        const { stdout, code } = await dockerExec(
-          `curl -sf -H 'Last-Event-ID: ${this.lastId}' http://localhost:4200/events?timeout=1 2>/dev/null || true`,
-        );
-        if (code === 0 && stdout.trim()) {
-          this.consecutiveErrors = 0;
-          this.lastError = null;
-          const events = parseSSEData(stdout);
-          for (const event of events) {
-            if (event.id) this.lastId = event.id;
-            this.onEvent(event);
-          }
+        const headers: Record<string, string> = { Accept: "text/event-stream" };
+        if (this.lastId) headers["Last-Event-ID"] = this.lastId;
+
+        const res = await fetch(`${this.baseUrl}/events`, { headers, signal });
+        if (!res.ok) throw new Error(`HTTP ${res.status} ${res.statusText}`.trim());
+        if (!res.body) throw new Error("No response body");
+
+        this.connected = true;
+        this.consecutiveErrors = 0;
+        this.lastError = null;
+        attempt = 0;
+
+        this.reader = res.body.getReader();
+        for await (const decoded of parseSSEStream(this.reader)) {
+          if (decoded.id) this.lastId = decoded.id;
+          if (decoded.retry !== undefined) serverRetryMs = decoded.retry;
+          const event = toAgentEvent(decoded);
+          if (!event) continue;
+          if (event.id) this.lastId = event.id;
+          this.emit(event);
         }
+        // Server closed the stream cleanly — reconnect after the base delay
       } catch (err) {
+        if (signal.aborted) return;
         this.consecutiveErrors++;
         this.lastError = err instanceof Error ? err.message : String(err);
         // Emit error event after sustained failures so callers can surface it
         if (this.consecutiveErrors >= 5) {
-          this.onEvent({
+          this.emit({
             type: "error",
             content: `Event stream disconnected after ${this.consecutiveErrors} attempts: ${this.lastError}`,
           });
         }
+      } finally {
+        this.connected = false;
+      }
+
+      try {
+        await sleep(Math.max(backoffMs(attempt++), serverRetryMs), signal);
+      } catch {
+        return;
       }
-    }, 2000);
+    }
   }
 
-  stop(): void {
-    this.active = false;
-    if (this.pollInterval) {
-      clearInterval(this.pollInterval);
-      this.pollInterval = null;
+  private emit(event: AgentEvent): void {
+    for (const listener of this.listeners) {
+      try {
+        listener(event);
+      } catch {
+        // A failing subscriber must not break delivery to the others
+      }
     }
   }
 }
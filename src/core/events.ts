@@ -0,0 +1,355 @@
+// src/core/events.ts — versioned schema for backend stream events
+//
+// One vocabulary for both feeds: per-run GET /api/stream/:run_id and the
+// org-wide GET /events feed. Every frame is checked against hand-written
+// validators before it reaches the UI; frames that fail are surfaced as
+// diagnostics instead of being dropped silently.
+
+/** Bump when event shapes change incompatibly. */
+export const EVENT_SCHEMA_VERSION = 1;
+
+// ═══════════════════════════════════════════════════════════════════
+// 1. EVENT TYPES
+// ═══════════════════════════════════════════════════════════════════
+
+/** Payload shared by events that carry a free-text `content` field. */
+export interface ContentEventData {
+  content?: string;
+  [key: string]: unknown;
+}
+
+/** `progress` payload; `step_index` (0-based) names the plan step it belongs to. */
+export interface ProgressEventData extends ContentEventData {
+  step_index?: number;
+}
+
+export interface PlanEventData {
+  steps: string[];
+  [key: string]: unknown;
+}
+
+export interface AgentWorkingEventData {
+  agent?: string;
+  task?: string;
+  /** 0-based index of the plan step being worked on, when the backend knows it. */
+  step_index?: number;
+  [key: string]: unknown;
+}
+
+export interface AgentResultEventData {
+  agent?: string;
+  result?: string;
+  content?: string;
+  step_index?: number;
+  [key: string]: unknown;
+}
+
+export interface ExecutionCompleteEventData {
+  summary?: string;
+  todos_completed?: number;
+  [key: string]: unknown;
+}
+
+export interface DoneEventData {
+  content?: string;
+  summary?: string;
+  result?: string;
+  [key: string]: unknown;
+}
+
+export interface ErrorEventData {
+  error?: string;
+  content?: string;
+  [key: string]: unknown;
+}
+
+/**
+ * `file_change` payload: an agent's proposed new version of a file, relative
+ * to the workspace root. `action` is "create", "modify" (the default) or
+ * "delete"; `content` is the full new text and is absent for deletions.
+ */
+export interface FileChangeEventData {
+  path: string;
+  action?: string;
+  content?: string;
+  agent?: string;
+  step_index?: number;
+  [key: string]: unknown;
+}
+
+/** Payload of the org-wide /events feed (agent_thinking, task_delegated, …). */
+export interface AgentActivityEventData {
+  agent?: string;
+  role?: string;
+  content?: string;
+  target?: string;
+  timestamp?: string;
+  [key: string]: unknown;
+}
+
+/**
+ * Discriminated union of every event the backend is known to emit.
+ *
+ * Frames whose `type` is not in the schema arrive as `unknown` with the
+ * original name preserved, so callers can still render them. Frames with
+ * a known type but an invalid payload arrive as `malformed` with the
+ * validation issues attached; callers should not act on them.
+ */
+export type NexusEvent =
+  | { type: "started"; data: ContentEventData }
+  | { type: "thinking"; data: ContentEventData }
+  | { type: "thought"; data: ContentEventData }
+  | { type: "action"; data: ContentEventData }
+  | { type: "observation"; data: ContentEventData }
+  | { type: "progress"; data: ProgressEventData }
+  | { type: "agent_response"; data: AgentResultEventData }
+  | { type: "plan"; data: PlanEventData }
+  | { type: "agent_working"; data: AgentWorkingEventData }
+  | { type: "agent_result"; data: AgentResultEventData }
+  | { type: "final_result"; data: DoneEventData }
+  | { type: "execution_complete"; data: ExecutionCompleteEventData }
+  | { type: "done"; data: DoneEventData }
+  | { type: "error"; data: ErrorEventData }
+  | { type: "file_change"; data: FileChangeEventData }
+  | { type: "agent_thinking"; data: AgentActivityEventData }
+  | { type: "task_delegated"; data: AgentActivityEventData }
+  | { type: "agent_complete"; data: AgentActivityEventData }
+  | { type: "heartbeat"; data: AgentActivityEventData }
+  | { type: "unknown"; name: string; data: Record<string, unknown> }
+  | { type: "malformed"; name: string; data: Record<string, unknown>; issues: string[] };
+
+export type NexusEventType = NexusEvent["type"];
+
+/** Event types that are part of the schema (everything but unknown/malformed). */
+export type KnownEventType = Exclude<NexusEventType, "unknown" | "malformed">;
+
+/** The subset of the vocabulary carried by the org-wide /events feed. */
+export type AgentEventType = "agent_thinking" | "agent_response" | "task_delegated" | "agent_complete" | "error" | "heartbeat";
+
+// ═══════════════════════════════════════════════════════════════════
+// 2. SCHEMA & VALIDATORS
+// ═══════════════════════════════════════════════════════════════════
+
+type FieldKind = "string" | "string?" | "number?" | "string[]";
+
+const CONTENT: Record<string, FieldKind> = { content: "string?" };
+const AGENT_ACTIVITY: Record<string, FieldKind> = {
+  agent: "string?", role: "string?", content: "string?", target: "string?", timestamp: "string?",
+};
+
+/** Field rules per event type. Fields not listed are passed through untouched. */
+const EVENT_SCHEMA: Record<KnownEventType, Record<string, FieldKind>> = {
+  started: CONTENT,
+  thinking: CONTENT,
+  thought: CONTENT,
+  action: CONTENT,
+  observation: CONTENT,
+  progress: { content: "string?", step_index: "number?" },
+  agent_response: { agent: "string?", result: "string?", content: "string?" },
+  plan: { steps: "string[]" },
+  agent_working: { agent: "string?", task: "string?", step_index: "number?" },
+  agent_result: { agent: "string?", result: "string?", content: "string?", step_index: "number?" },
+  final_result: { content: "string?", summary: "string?", result: "string?" },
+  execution_complete: { summary: "string?", todos_completed: "number?" },
+  done: { content: "string?", summary: "string?", result: "string?" },
+  error: { error: "string?", content: "string?" },
+  file_change: { path: "string", action: "string?", content: "string?", agent: "string?", step_index: "number?" },
+  agent_thinking: AGENT_ACTIVITY,
+  task_delegated: AGENT_ACTIVITY,
+  agent_complete: AGENT_ACTIVITY,
+  heartbeat: AGENT_ACTIVITY,
+};
+
+function checkField(name: string, kind: FieldKind, value: unknown): string | null {
+  switch (kind) {
+    case "string":
+      return typeof value === "string" && value ? null : `${name} must be a non-empty string`;
+    case "string?":
+      return value === undefined || typeof value === "string" ? null : `${name} must be a string`;
+    case "number?":
+      return value === undefined || (typeof value === "number" && Number.isFinite(value))
+        ? null
+        : `${name} must be a number`;
+    case "string[]":
+      if (!Array.isArray(value)) return `${name} must be an array of strings`;
+      return value.every((v) => typeof v === "string") ? null : `${name} must contain only strings`;
+  }
+}
+
+/**
+ * Plan steps as strings. Backends that send step objects are read through
+ * their `text` or `description` field, and numbers are coerced; anything
+ * else is left for validation to reject.
+ */
+function normalisePlanSteps(steps: unknown): unknown {
+  if (!Array.isArray(steps)) return steps;
+  return steps.map((step) => {
+    if (typeof step === "number") return String(step);
+    if (step && typeof step === "object") {
+      const { text, description } = step as Record<string, unknown>;
+      if (typeof text === "string") return text;
+      if (typeof description === "string") return description;
+    }
+    return step;
+  });
+}
+
+function isKnownType(type: string): type is KnownEventType {
+  return Object.prototype.hasOwnProperty.call(EVENT_SCHEMA, type);
+}
+
+/** Problem found while validating a frame, reported in debug mode. */
+export interface EventDiagnostic {
+  kind: "unknown" | "malformed" | "version";
+  name: string;
+  issues: string[];
+  data: unknown;
+}
+
+export interface ParsedEvent {
+  event: NexusEvent;
+  diagnostic?: EventDiagnostic;
+}
+
+/**
+ * Validate a raw `{ type, data }` frame against the schema.
+ *
+ * Always returns an event — `unknown` / `malformed` for frames that do not
+ * fit — plus a diagnostic describing what was wrong, if anything.
+ */
+export function parseEvent(raw: { type: unknown; data?: unknown }): ParsedEvent {
+  const name = typeof raw.type === "string" ? raw.type : String(raw.type);
+  const rawData = raw.data ?? {};
+
+  if (typeof raw.type !== "string" || !rawData || typeof rawData !== "object" || Array.isArray(rawData)) {
+    const issues = [typeof raw.type !== "string" ? "type must be a string" : "data must be an object"];
+    const data = rawData && typeof rawData === "object" && !Array.isArray(rawData) ? (rawData as Record<string, unknown>) : {};
+    return {
+      event: { type: "malformed", name, data, issues },
+      diagnostic: { kind: "malformed", name, issues, data: raw.data },
+    };
+  }
+
+  const data = { ...(rawData as Record<string, unknown>) };
+  if (name === "plan" && "steps" in data) data.steps = normalisePlanSteps(data.steps);
+  if (!isKnownType(name)) {
+    return {
+      event: { type: "unknown", name, data },
+      diagnostic: { kind: "unknown", name, issues: [`"${name}" is not in event schema v${EVENT_SCHEMA_VERSION}`], data },
+    };
+  }
+
+  const issues: string[] = [];
+  for (const [field, kind] of Object.entries(EVENT_SCHEMA[name])) {
+    // The backend serialises missing optional fields as null; treat them as absent
+    if (kind.endsWith("?") && data[field] === null) delete data[field];
+    const issue = checkField(field, kind, data[field]);
+    if (issue) issues.push(issue);
+  }
+  if (issues.length > 0) {
+    return {
+      event: { type: "malformed", name, data, issues },
+      diagnostic: { kind: "malformed", name, issues, data },
+    };
+  }
+
+  const event = { type: name, data } as NexusEvent;
+  const version = data["schema_version"];
+  if (typeof version === "number" && version > EVENT_SCHEMA_VERSION) {
+    return {
+      event,
+      diagnostic: {
+        kind: "version",
+        name,
+        issues: [`emitted with schema v${version}; this CLI understands v${EVENT_SCHEMA_VERSION}`],
+        data,
+      },
+    };
+  }
+  return { event };
+}
+
+/** Shorthand for parseEvent(raw).event. */
+export function toNexusEvent(raw: { type: unknown; data?: unknown }): NexusEvent {
+  return parseEvent(raw).event;
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// 3. DIAGNOSTICS
+// ═══════════════════════════════════════════════════════════════════
+
+/** True when unknown / malformed events should be reported (LOG_LEVEL=debug or NEXUS_DEBUG_EVENTS=1). */
+export function isEventDebugEnabled(): boolean {
+  return process.env.LOG_LEVEL === "debug" || process.env.NEXUS_DEBUG_EVENTS === "1";
+}
+
+/** Print a diagnostic to stderr when event debugging is enabled. Never throws. */
+export function reportEventDiagnostic(diagnostic: EventDiagnostic): void {
+  if (!isEventDebugEnabled()) return;
+  try {
+    const payload = JSON.stringify(diagnostic.data) ?? "undefined";
+    const snippet = payload.length > 200 ? payload.slice(0, 197) + "..." : payload;
+    console.error(`[events] ${diagnostic.kind} event "${diagnostic.name}": ${diagnostic.issues.join("; ")}`);
+    console.error(`[events]   data: ${snippet}`);
+  } catch {
+    // Diagnostics must never break the stream
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// 4. CONVERSION HELPERS
+// ═══════════════════════════════════════════════════════════════════
+
+/** The backend event name, resolving `unknown` / `malformed` events to their original name. */
+export function eventName(event: NexusEvent): string {
+  return event.type === "unknown" || event.type === "malformed" ? event.name : event.type;
+}
+
+/** True for events that end a run: completion or error. */
+export function isTerminalEvent(event: NexusEvent): boolean {
+  return event.type === "done" || event.type === "execution_complete" || event.type === "error";
+}
+
+/**
+ * A malformed frame whose raw type ends a run (`error`, `done`,
+ * `execution_complete`) as that terminal event, keeping only the fields
+ * that validate, so a bad payload still ends the stream visibly instead of
+ * leaving it to reconnect. Other events are returned unchanged.
+ */
+export function salvageTerminalEvent(event: NexusEvent): NexusEvent {
+  if (event.type !== "malformed") return event;
+  const strings = (...fields: string[]): Record<string, string> =>
+    Object.fromEntries(fields.flatMap((field) => {
+      const value = event.data[field];
+      return typeof value === "string" ? [[field, value]] : [];
+    }));
+  switch (event.name) {
+    case "error": {
+      const data: ErrorEventData = strings("error", "content");
+      if (!data.error && !data.content) data.error = `Backend sent a malformed error event (${event.issues.join("; ")})`;
+      return { type: "error", data };
+    }
+    case "done":
+      return { type: "done", data: strings("content", "summary", "result") };
+    case "execution_complete":
+      return { type: "execution_complete", data: strings("summary") };
+    default:
+      return event;
+  }
+}
+
+/** Best-effort error message from an `error` event. */
+export function errorMessage(data: ErrorEventData): string {
+  return data.error || data.content || "Unknown error";
+}
+
+/** The most descriptive text an event carries, or "" if none. */
+export function eventText(event: NexusEvent): string {
+  if (event.type === "malformed") return "";
+  const data = event.data as Record<string, unknown>;
+  for (const field of ["content", "summary", "result", "task", "response", "error"]) {
+    const value = data[field];
+    if (typeof value === "string" && value) return value;
+  }
+  return "";
+}
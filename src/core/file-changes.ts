@@ -0,0 +1,474 @@
+// src/core/file-changes.ts — review and apply the files a BUILD run changes
+//
+// Agents propose new file contents with `file_change` events. ChangeSet
+// collects them (the last proposal for a path wins), diffFile compares each
+// with the local copy as unified-diff hunks, and applyHunks builds the text
+// that results from the hunks the user accepted. writeChanges records every
+// file's previous contents in a journal under ~/.buildwithnexus/changes
+// before touching it, so `buildwithnexus undo` can put the tree back.
+
+import crypto from "node:crypto";
+import fs from "node:fs";
+import path from "node:path";
+import type { NexusEvent } from "./events.js";
+import { NEXUS_HOME } from "./secrets.js";
+
+// ═══════════════════════════════════════════════════════════════════
+// 1. CHANGE SET
+// ═══════════════════════════════════════════════════════════════════
+
+export type ChangeAction = "create" | "modify" | "delete";
+
+const CHANGE_ACTIONS: readonly string[] = ["create", "modify", "delete"];
+
+export interface FileChange {
+  /** Relative to the workspace root, with forward slashes. */
+  path: string;
+  action: ChangeAction;
+  /** Proposed contents; null for a deletion. */
+  content: string | null;
+  agent?: string;
+}
+
+export interface RejectedChange {
+  path: string;
+  reason: string;
+}
+
+/**
+ * Resolve a proposed path inside `root`. Throws for absolute paths, paths
+ * that leave the root (directly or through a symlinked directory), symlinks
+ * and paths inside .git (in any case, for case-insensitive filesystems).
+ */
+export function resolveChangePath(root: string, file: string): string {
+  if (path.isAbsolute(file)) throw new Error("absolute paths are not allowed");
+  const full = path.resolve(root, file);
+  const rel = path.relative(root, full);
+  if (!rel || rel.startsWith("..") || path.isAbsolute(rel)) throw new Error("outside the workspace");
+  if (rel.split(path.sep).some((part) => part.toLowerCase() === ".git")) throw new Error("inside .git");
+
+  // The nearest existing ancestor must really be inside the root
+  let existing = path.dirname(full);
+  while (!fs.existsSync(existing)) existing = path.dirname(existing);
+  const realRel = path.relative(fs.realpathSync(root), fs.realpathSync(existing));
+  if (realRel.startsWith("..") || path.isAbsolute(realRel)) throw new Error("outside the workspace");
+
+  // Writing to a symlink (even a dangling one) writes wherever it points
+  if (fs.lstatSync(full, { throwIfNoEntry: false })?.isSymbolicLink()) throw new Error("is a symlink");
+  return full;
+}
+
+/** The file changes proposed during a run. */
+export class ChangeSet {
+  private byPath = new Map<string, FileChange>();
+  readonly rejected: RejectedChange[] = [];
+
+  constructor(readonly root: string) {}
+
+  /** Record a `file_change` event. Returns false for any other event. */
+  apply(event: NexusEvent): boolean {
+    if (event.type !== "file_change") return false;
+    const { path: file, content, agent } = event.data;
+    const action = event.data.action ?? "modify";
+
+    const reject = (reason: string) => {
+      this.rejected.push({ path: file, reason });
+      return true;
+    };
+    if (!CHANGE_ACTIONS.includes(action)) return reject(`unknown action "${action}"`);
+    if (action !== "delete" && content === undefined) return reject("no content");
+    let full: string;
+    try {
+      full = resolveChangePath(this.root, file);
+    } catch (err) {
+      return reject((err as Error).message);
+    }
+
+    const rel = path.relative(this.root, full).split(path.sep).join("/");
+    this.byPath.set(rel, {
+      path: rel,
+      action: action as ChangeAction,
+      content: action === "delete" ? null : content ?? "",
+      ...(agent ? { agent } : {}),
+    });
+    return true;
+  }
+
+  get size(): number {
+    return this.byPath.size;
+  }
+
+  /** The latest proposal for each path, sorted by path. */
+  changes(): FileChange[] {
+    return [...this.byPath.values()].sort((a, b) => a.path.localeCompare(b.path));
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// 2. DIFF
+// ═══════════════════════════════════════════════════════════════════
+
+export interface DiffLine {
+  kind: " " | "+" | "-";
+  /** The line including its terminator; the last line may have none. */
+  text: string;
+}
+
+export interface Hunk {
+  /** 1-based, as in a unified diff header; the preceding line when oldLines is 0. */
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  lines: DiffLine[];
+}
+
+export interface FileDiff {
+  path: string;
+  action: ChangeAction;
+  before: string | null;
+  after: string | null;
+  hunks: Hunk[];
+  added: number;
+  removed: number;
+  agent?: string;
+}
+
+const CONTEXT_LINES = 3;
+// Above this many LCS cells the changed region is shown as replaced wholesale
+const MAX_LCS_CELLS = 4_000_000;
+
+/** Split text into lines that keep their "\n", so joining them is lossless. */
+export function splitLines(text: string): string[] {
+  return text.match(/[^\n]*\n|[^\n]+$/g) ?? [];
+}
+
+/** Line diff of `a` against `b` (longest common subsequence). */
+export function diffLines(a: readonly string[], b: readonly string[]): DiffLine[] {
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const head = a.slice(0, start).map((text): DiffLine => ({ kind: " ", text }));
+  const tail = a.slice(endA).map((text): DiffLine => ({ kind: " ", text }));
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+  const n = midA.length;
+  const m = midB.length;
+  const middle: DiffLine[] = [];
+
+  if ((n + 1) * (m + 1) > MAX_LCS_CELLS) {
+    midA.forEach((text) => middle.push({ kind: "-", text }));
+    midB.forEach((text) => middle.push({ kind: "+", text }));
+    return [...head, ...middle, ...tail];
+  }
+
+  const width = m + 1;
+  const lcs = new Uint32Array((n + 1) * width);
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i * width + j] = midA[i] === midB[j]
+        ? lcs[(i + 1) * width + j + 1] + 1
+        : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+    }
+  }
+  let i = 0;
+  let j = 0;
+  while (i < n || j < m) {
+    if (i < n && j < m && midA[i] === midB[j]) {
+      middle.push({ kind: " ", text: midA[i] });
+      i++;
+      j++;
+    } else if (i < n && (j >= m || lcs[(i + 1) * width + j] >= lcs[i * width + j + 1])) {
+      middle.push({ kind: "-", text: midA[i++] });
+    } else {
+      middle.push({ kind: "+", text: midB[j++] });
+    }
+  }
+  return [...head, ...middle, ...tail];
+}
+
+/** Group a line diff into hunks with `context` unchanged lines around each change. */
+export function toHunks(lines: readonly DiffLine[], context: number = CONTEXT_LINES): Hunk[] {
+  const changed = lines.flatMap((line, index) => (line.kind === " " ? [] : [index]));
+  const hunks: Hunk[] = [];
+  let k = 0;
+  while (k < changed.length) {
+    const first = changed[k];
+    let last = first;
+    while (k + 1 < changed.length && changed[k + 1] - last <= 2 * context + 1) last = changed[++k];
+    k++;
+
+    const from = Math.max(0, first - context);
+    const to = Math.min(lines.length, last + context + 1);
+    const before = lines.slice(0, from);
+    const oldBefore = before.filter((l) => l.kind !== "+").length;
+    const newBefore = before.filter((l) => l.kind !== "-").length;
+    const body = lines.slice(from, to);
+    const oldLines = body.filter((l) => l.kind !== "+").length;
+    const newLines = body.filter((l) => l.kind !== "-").length;
+    hunks.push({
+      oldStart: oldLines === 0 ? oldBefore : oldBefore + 1,
+      oldLines,
+      newStart: newLines === 0 ? newBefore : newBefore + 1,
+      newLines,
+      lines: body,
+    });
+  }
+  return hunks;
+}
+
+/** Compare a proposed change with the file currently at `root`/`change.path`. */
+export function diffFile(change: FileChange, root: string): FileDiff {
+  const full = resolveChangePath(root, change.path);
+  const before = fs.existsSync(full) ? fs.readFileSync(full, "utf-8") : null;
+  const after = change.content;
+  const action: ChangeAction = before === null ? "create" : after === null ? "delete" : "modify";
+  const lines = before === after ? [] : diffLines(splitLines(before ?? ""), splitLines(after ?? ""));
+  return {
+    path: change.path,
+    action,
+    before,
+    after,
+    hunks: toHunks(lines),
+    added: lines.filter((l) => l.kind === "+").length,
+    removed: lines.filter((l) => l.kind === "-").length,
+    ...(change.agent ? { agent: change.agent } : {}),
+  };
+}
+
+/** The text that results from applying only the accepted hunks to `before`. */
+export function applyHunks(before: string, hunks: readonly Hunk[], accepted: readonly boolean[]): string {
+  const old = splitLines(before);
+  const out: string[] = [];
+  let cursor = 0;
+  hunks.forEach((hunk, index) => {
+    const offset = hunk.oldLines === 0 ? hunk.oldStart : hunk.oldStart - 1;
+    out.push(...old.slice(cursor, offset));
+    const keep = accepted[index] ? "-" : "+";
+    for (const line of hunk.lines) if (line.kind !== keep) out.push(line.text);
+    cursor = offset + hunk.oldLines;
+  });
+  out.push(...old.slice(cursor));
+  return out.join("");
+}
+
+/**
+ * The file's new contents given the accepted hunks: null deletes it,
+ * undefined leaves it alone.
+ */
+export function resultOf(diff: FileDiff, accepted: readonly boolean[]): string | null | undefined {
+  if (!accepted.some(Boolean)) return undefined;
+  if (accepted.every(Boolean)) return diff.after;
+  return applyHunks(diff.before ?? "", diff.hunks, accepted);
+}
+
+/** A `git diff`-style rendering of one file's changes. */
+export function formatUnifiedDiff(diff: FileDiff): string {
+  const out = [
+    `--- ${diff.action === "create" ? "/dev/null" : `a/${diff.path}`}`,
+    `+++ ${diff.action === "delete" ? "/dev/null" : `b/${diff.path}`}`,
+  ];
+  for (const hunk of diff.hunks) {
+    out.push(`@@ -${hunk.oldStart},${hunk.oldLines} +${hunk.newStart},${hunk.newLines} @@`);
+    for (const line of hunk.lines) {
+      out.push(line.kind + line.text.replace(/\n$/, ""));
+      if (!line.text.endsWith("\n")) out.push("\\ No newline at end of file");
+    }
+  }
+  return out.join("\n") + "\n";
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// 3. JOURNAL
+// ═══════════════════════════════════════════════════════════════════
+
+/**
+ * Journals hold the exact previous contents of every file they touch so
+ * they can be restored byte for byte — they are not redacted, and are
+ * written owner-only like the keys file.
+ */
+export const CHANGES_DIR = path.join(NEXUS_HOME, "changes");
+
+/** Bump when the journal format changes incompatibly. */
+export const CHANGE_JOURNAL_VERSION = 2;
+
+const JOURNAL_ID_PATTERN = /^[a-zA-Z0-9_-]+$/;
+
+export interface JournalEntry {
+  path: string;
+  /** Contents before the change; null when the file did not exist. */
+  before: Buffer | null;
+  /** Contents written; null when the file was deleted. */
+  after: Buffer | null;
+}
+
+// On disk, contents are base64 so binary files survive JSON (version 1
+// journals held utf-8 text)
+interface StoredEntry {
+  path: string;
+  before: string | null;
+  after: string | null;
+}
+
+export interface ChangeJournal {
+  version: number;
+  id: string;
+  created_at: string;
+  /** Workspace root the paths are relative to. */
+  root: string;
+  task?: string;
+  run_id?: string;
+  undone_at?: string;
+  entries: JournalEntry[];
+}
+
+export interface FileWrite {
+  path: string;
+  /** New contents; null deletes the file. */
+  content: string | null;
+}
+
+export interface UndoResult {
+  restored: string[];
+  /** Files edited since the change was applied, left alone unless forced. */
+  conflicts: string[];
+}
+
+export function journalPath(id: string): string {
+  if (!JOURNAL_ID_PATTERN.test(id)) throw new Error(`Invalid change journal ID: ${id}`);
+  return path.join(CHANGES_DIR, `${id}.json`);
+}
+
+function saveJournal(journal: ChangeJournal): void {
+  const file = journalPath(journal.id);
+  fs.mkdirSync(CHANGES_DIR, { recursive: true, mode: 0o700 });
+  const tmp = `${file}.${process.pid}.tmp`;
+  const stored = {
+    ...journal,
+    version: CHANGE_JOURNAL_VERSION,
+    entries: journal.entries.map((e): StoredEntry => ({
+      path: e.path,
+      before: e.before?.toString("base64") ?? null,
+      after: e.after?.toString("base64") ?? null,
+    })),
+  };
+  fs.writeFileSync(tmp, JSON.stringify(stored, null, 2) + "\n", { mode: 0o600 });
+  fs.renameSync(tmp, file);
+}
+
+function readIfExists(file: string): Buffer | null {
+  return fs.existsSync(file) ? fs.readFileSync(file) : null;
+}
+
+function sameContents(a: Buffer | null, b: Buffer | null): boolean {
+  return a === null || b === null ? a === b : a.equals(b);
+}
+
+function writeOrDelete(file: string, content: Buffer | string | null): void {
+  if (content === null) {
+    fs.rmSync(file, { force: true });
+  } else {
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, content);
+  }
+}
+
+/**
+ * Write files under `root`, journalling their previous contents first so a
+ * failure part-way through can still be undone.
+ */
+export function writeChanges(
+  root: string,
+  writes: readonly FileWrite[],
+  meta: { task?: string; runId?: string } = {},
+  now: Date = new Date(),
+): ChangeJournal {
+  const targets = writes.map((w) => ({ ...w, full: resolveChangePath(root, w.path) }));
+  const stamp = now.toISOString().replace(/[-:]/g, "").replace("T", "-").slice(0, 15);
+  const journal: ChangeJournal = {
+    version: CHANGE_JOURNAL_VERSION,
+    id: `${stamp}-${crypto.randomBytes(3).toString("hex")}`,
+    created_at: now.toISOString(),
+    root,
+    ...(meta.task ? { task: meta.task } : {}),
+    ...(meta.runId ? { run_id: meta.runId } : {}),
+    entries: targets.map((t) => ({
+      path: t.path,
+      before: readIfExists(t.full),
+      after: t.content === null ? null : Buffer.from(t.content, "utf-8"),
+    })),
+  };
+  saveJournal(journal);
+  for (const t of targets) writeOrDelete(t.full, t.content);
+  return journal;
+}
+
+/**
+ * Restore the files a journal changed. Files edited since are reported as
+ * conflicts and left alone unless `force` is set; the journal is marked
+ * undone once nothing is left in conflict.
+ */
+export function undoChanges(journal: ChangeJournal, options: { force?: boolean } = {}): UndoResult {
+  const result: UndoResult = { restored: [], conflicts: [] };
+  for (const entry of [...journal.entries].reverse()) {
+    const full = resolveChangePath(journal.root, entry.path);
+    const current = readIfExists(full);
+    if (sameContents(current, entry.before)) continue;
+    if (!sameContents(current, entry.after) && !options.force) {
+      result.conflicts.push(entry.path);
+      continue;
+    }
+    writeOrDelete(full, entry.before);
+    result.restored.push(entry.path);
+  }
+  if (result.conflicts.length === 0) {
+    journal.undone_at = new Date().toISOString();
+    saveJournal(journal);
+  }
+  return result;
+}
+
+export function loadJournal(id: string): ChangeJournal {
+  const file = journalPath(id);
+  if (!fs.existsSync(file)) throw new Error(`No change journal ${id} (looked in ${CHANGES_DIR})`);
+  let stored: Omit<ChangeJournal, "entries"> & { entries: StoredEntry[] };
+  try {
+    stored = JSON.parse(fs.readFileSync(file, "utf-8")) as typeof stored;
+  } catch (err) {
+    throw new Error(`Change journal ${id} is unreadable: ${(err as Error).message}`);
+  }
+  if (!stored || !Array.isArray(stored.entries) || typeof stored.root !== "string") {
+    throw new Error(`Change journal ${id} is not in a format this CLI understands`);
+  }
+  if (stored.version > CHANGE_JOURNAL_VERSION) {
+    throw new Error(`Change journal ${id} was written by a newer buildwithnexus — update to undo it`);
+  }
+  const encoding = stored.version < 2 ? "utf-8" : "base64";
+  const decode = (content: string | null) => (content === null ? null : Buffer.from(content, encoding));
+  return {
+    ...stored,
+    id,
+    entries: stored.entries.map((e) => ({ path: e.path, before: decode(e.before), after: decode(e.after) })),
+  };
+}
+
+/** Every readable journal, newest first. */
+export function listJournals(): ChangeJournal[] {
+  if (!fs.existsSync(CHANGES_DIR)) return [];
+  const journals: ChangeJournal[] = [];
+  for (const file of fs.readdirSync(CHANGES_DIR)) {
+    if (!file.endsWith(".json")) continue;
+    try {
+      journals.push(loadJournal(file.slice(0, -".json".length)));
+    } catch {
+      // Not a journal we wrote (or damaged) — skip it
+    }
+  }
+  return journals.sort((a, b) => b.created_at.localeCompare(a.created_at) || b.id.localeCompare(a.id));
+}
@@ -0,0 +1,168 @@
+// src/core/plan-progress.ts — follow a BUILD run's progress through its plan
+//
+// The backend streams agent activity, not step transitions. PlanTracker
+// maps that activity onto the plan: an explicit `step_index` wins; failing
+// that, an agent's task is matched against the step texts, and otherwise
+// work is assumed to move through the plan in order. Each step goes
+// pending → active → done (or error), with its start and end times kept
+// for per-step elapsed time.
+
+import { eventText, type NexusEvent } from "./events.js";
+
+export type StepState = "pending" | "active" | "done" | "error";
+
+export interface StepProgress {
+  text: string;
+  state: StepState;
+  /** The agent last seen working on the step. */
+  agent?: string;
+  startedAt?: number;
+  endedAt?: number;
+}
+
+// Share of a step's words an agent task must contain to count as that step
+const MATCH_THRESHOLD = 0.5;
+
+function words(text: string): Set<string> {
+  return new Set(text.toLowerCase().split(/[^a-z0-9]+/).filter((w) => w.length > 2));
+}
+
+/** Time spent on a step so far, or in total once it has ended. */
+export function stepElapsedMs(step: StepProgress, now: number = Date.now()): number {
+  if (step.startedAt === undefined) return 0;
+  return (step.endedAt ?? now) - step.startedAt;
+}
+
+/** "42s", "1m 42s", "1h 5m". */
+export function formatElapsed(ms: number): string {
+  const seconds = Math.max(0, Math.round(ms / 1000));
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `${minutes}m ${seconds % 60}s`;
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+}
+
+export class PlanTracker {
+  private progress: StepProgress[] = [];
+  private agentSteps = new Map<string, number>();
+
+  constructor(steps: readonly string[] = []) {
+    this.reset(steps);
+  }
+
+  get steps(): readonly StepProgress[] {
+    return this.progress;
+  }
+
+  get hasPlan(): boolean {
+    return this.progress.length > 0;
+  }
+
+  /** Start over with a new list of steps, e.g. when the run announces its own plan. */
+  reset(steps: readonly string[]): void {
+    this.progress = steps.map((text) => ({ text, state: "pending" }));
+    this.agentSteps.clear();
+  }
+
+  /** Apply one stream event. Returns true when any step changed state. */
+  apply(event: NexusEvent, now: number = Date.now()): boolean {
+    if (!this.hasPlan) return false;
+
+    switch (event.type) {
+      case "agent_working": {
+        const agent = event.data.agent || "Agent";
+        const index = this.validIndex(event.data.step_index) ?? this.matchStep(event.data.task || "") ?? this.nextPending();
+        if (index === null) return false;
+        this.agentSteps.set(agent, index);
+        this.progress[index].agent = agent;
+        return this.start(index, now);
+      }
+      case "agent_result": {
+        const agent = event.data.agent || "Agent";
+        const index = this.validIndex(event.data.step_index) ?? this.agentSteps.get(agent) ?? this.firstActive();
+        this.agentSteps.delete(agent);
+        if (index === null) return false;
+        return this.finish(index, "done", now);
+      }
+      case "progress": {
+        // "Step 3: …" in the text names a 1-based step when no index is sent
+        const mentioned = /\bstep\s+(\d+)\b/i.exec(eventText(event));
+        const index = this.validIndex(event.data.step_index) ?? (mentioned ? this.validIndex(Number(mentioned[1]) - 1) : null);
+        if (index === null) return false;
+        // Progress reports the run's position in the plan: reaching a step finishes those before it
+        let changed = false;
+        for (let earlier = 0; earlier < index; earlier++) {
+          if (this.progress[earlier].state === "active") changed = this.finish(earlier, "done", now) || changed;
+        }
+        return this.start(index, now) || changed;
+      }
+      case "execution_complete":
+      case "done":
+        return this.finishActive("done", now);
+      case "error":
+        return this.finishActive("error", now);
+      default:
+        return false;
+    }
+  }
+
+  private start(index: number, now: number): boolean {
+    const step = this.progress[index];
+    if (step.state === "active") return false;
+    step.state = "active";
+    step.startedAt = now;
+    delete step.endedAt;
+    return true;
+  }
+
+  private finish(index: number, state: "done" | "error", now: number): boolean {
+    const step = this.progress[index];
+    if (step.state === state) return false;
+    step.startedAt ??= now;
+    step.state = state;
+    step.endedAt = now;
+    return true;
+  }
+
+  private finishActive(state: "done" | "error", now: number): boolean {
+    let changed = false;
+    this.progress.forEach((step, index) => {
+      if (step.state === "active") changed = this.finish(index, state, now) || changed;
+    });
+    return changed;
+  }
+
+  private validIndex(index: number | undefined): number | null {
+    return index !== undefined && Number.isInteger(index) && index >= 0 && index < this.progress.length ? index : null;
+  }
+
+  /** The unfinished step whose words best match `task`, if any matches well enough. */
+  private matchStep(task: string): number | null {
+    const taskWords = words(task);
+    if (taskWords.size === 0) return null;
+    let best: number | null = null;
+    let bestScore = MATCH_THRESHOLD;
+    this.progress.forEach((step, index) => {
+      if (step.state === "done") return;
+      const stepWords = words(step.text);
+      if (stepWords.size === 0) return;
+      const shared = [...stepWords].filter((w) => taskWords.has(w)).length;
+      const score = shared / stepWords.size;
+      if (score >= bestScore && (best === null || score > bestScore)) {
+        best = index;
+        bestScore = score;
+      }
+    });
+    return best;
+  }
+
+  private nextPending(): number | null {
+    const index = this.progress.findIndex((step) => step.state === "pending");
+    return index === -1 ? null : index;
+  }
+
+  private firstActive(): number | null {
+    const index = this.progress.findIndex((step) => step.state === "active");
+    return index === -1 ? null : index;
+  }
+}
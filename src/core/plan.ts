@@ -0,0 +1,423 @@
+// src/core/plan.ts — reviewable execution plans
+//
+// The backend proposes a plan as a list of step strings. Before it runs,
+// the user can reshape it: add, remove, reorder and split steps, mark
+// steps to skip or to hold for approval, and attach notes. PlanEditor
+// applies those edits with undo; the markdown helpers round-trip a plan
+// through $EDITOR; diffPlan compares the result with the original.
+// Plan files save a reviewed plan to disk (markdown or YAML) so it can be
+// checked into a pull request and executed later with `apply`.
+
+import fs from "node:fs";
+import path from "node:path";
+import YAML from "yaml";
+import { redact } from "./dlp.js";
+
+// ═══════════════════════════════════════════════════════════════════
+// 1. MODEL
+// ═══════════════════════════════════════════════════════════════════
+
+export type StepStatus = "run" | "skip" | "needs-approval";
+
+export interface PlanStep {
+  text: string;
+  status: StepStatus;
+  note?: string;
+}
+
+export function stepsFromTexts(texts: string[]): PlanStep[] {
+  return texts.map((text) => ({ text, status: "run" }));
+}
+
+/** The steps that run, in order: every step the user did not skip. */
+export function runSteps(steps: readonly PlanStep[]): PlanStep[] {
+  return steps.filter((step) => step.status !== "skip");
+}
+
+/**
+ * The step texts sent to the backend. Approval flags and notes are folded
+ * into the text here, for the payload only; the CLI keeps working from the
+ * PlanStep objects.
+ */
+export function toRunSteps(steps: readonly PlanStep[]): string[] {
+  return runSteps(steps).map((step) => {
+    let text = step.status === "needs-approval" ? `[needs approval] ${step.text}` : step.text;
+    if (step.note) text += ` (note: ${step.note})`;
+    return text;
+  });
+}
+
+/** Indices into runSteps(steps) of the steps held for approval. */
+export function approvalSteps(steps: readonly PlanStep[]): number[] {
+  return runSteps(steps).flatMap((step, index) => (step.status === "needs-approval" ? [index] : []));
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// 2. EDITOR
+// ═══════════════════════════════════════════════════════════════════
+
+const MAX_UNDO = 50;
+
+function cloneSteps(steps: readonly PlanStep[]): PlanStep[] {
+  return steps.map((step) => ({ ...step }));
+}
+
+/**
+ * Mutable plan with an undo history. Indices are 0-based; out-of-range
+ * indices and empty text throw RangeError with a message fit for users.
+ */
+export class PlanEditor {
+  private current: PlanStep[];
+  private history: PlanStep[][] = [];
+
+  constructor(steps: readonly PlanStep[]) {
+    this.current = cloneSteps(steps);
+  }
+
+  get steps(): readonly PlanStep[] {
+    return this.current;
+  }
+
+  get canUndo(): boolean {
+    return this.history.length > 0;
+  }
+
+  edit(index: number, text: string): void {
+    this.assertStep(index);
+    const clean = this.text(text);
+    this.change((steps) => {
+      steps[index].text = clean;
+    });
+  }
+
+  /** Insert before `index`; `index === steps.length` appends. */
+  insert(index: number, text: string): void {
+    this.assertInsertPosition(index);
+    const clean = this.text(text);
+    this.change((steps) => {
+      steps.splice(index, 0, { text: clean, status: "run" });
+    });
+  }
+
+  remove(index: number): void {
+    this.assertStep(index);
+    this.change((steps) => {
+      steps.splice(index, 1);
+    });
+  }
+
+  move(from: number, to: number): void {
+    this.assertStep(from);
+    this.assertStep(to);
+    if (from === to) return;
+    this.change((steps) => {
+      const [step] = steps.splice(from, 1);
+      steps.splice(to, 0, step);
+    });
+  }
+
+  /** Replace one step with several; status and note stay on the first part. */
+  split(index: number, parts: string[]): void {
+    this.assertStep(index);
+    const clean = parts.map((p) => p.trim()).filter(Boolean);
+    if (clean.length < 2) throw new RangeError("Splitting needs at least two non-empty parts");
+    this.change((steps) => {
+      const [first, ...rest] = clean;
+      steps.splice(index, 1, { ...steps[index], text: first }, ...rest.map((text) => ({ text, status: "run" as const })));
+    });
+  }
+
+  /** Set a step's status, or back to "run" if it already has it. */
+  toggle(index: number, status: Exclude<StepStatus, "run">): void {
+    this.assertStep(index);
+    this.change((steps) => {
+      steps[index].status = steps[index].status === status ? "run" : status;
+    });
+  }
+
+  /** Attach a note; an empty note removes it. */
+  setNote(index: number, note: string): void {
+    this.assertStep(index);
+    const clean = note.trim();
+    this.change((steps) => {
+      if (clean) steps[index].note = clean;
+      else delete steps[index].note;
+    });
+  }
+
+  /** Replace the whole plan, e.g. with the result of an $EDITOR session. */
+  replace(steps: readonly PlanStep[]): void {
+    this.change(() => cloneSteps(steps));
+  }
+
+  /** Revert the last change. Returns false when there is nothing to undo. */
+  undo(): boolean {
+    const previous = this.history.pop();
+    if (!previous) return false;
+    this.current = previous;
+    return true;
+  }
+
+  private change(mutate: (steps: PlanStep[]) => PlanStep[] | void): void {
+    const next = cloneSteps(this.current);
+    const result = mutate(next) ?? next;
+    this.history.push(this.current);
+    if (this.history.length > MAX_UNDO) this.history.shift();
+    this.current = result;
+  }
+
+  /** Throw unless `index` names an existing step. */
+  assertStep(index: number): void {
+    if (!Number.isInteger(index) || index < 0 || index >= this.current.length) {
+      throw new RangeError(
+        this.current.length === 0 ? "The plan has no steps" : `Step must be between 1 and ${this.current.length}`,
+      );
+    }
+  }
+
+  /** Throw unless a step can be inserted before `index`. */
+  assertInsertPosition(index: number): void {
+    if (!Number.isInteger(index) || index < 0 || index > this.current.length) {
+      throw new RangeError(`Can only insert at positions 1–${this.current.length + 1}`);
+    }
+  }
+
+  private text(text: string): string {
+    const clean = text.trim();
+    if (!clean) throw new RangeError("Step text cannot be empty");
+    return clean;
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// 3. MARKDOWN CHECKLIST
+// ═══════════════════════════════════════════════════════════════════
+
+const STATUS_MARKS: Record<StepStatus, string> = { run: " ", skip: "s", "needs-approval": "?" };
+
+const CHECKLIST_HELP = [
+  "<!--",
+  "  One step per \"- [ ]\" line, in execution order. Reorder by moving lines.",
+  "  [s] = skip this step   [?] = hold for approval before it runs",
+  "  Indented \"> \" lines under a step are notes. Delete a line to drop the step.",
+  "-->",
+];
+
+/** Render a plan as an editable markdown checklist. */
+export function planToMarkdown(task: string, steps: readonly PlanStep[]): string {
+  const lines = [`# Plan: ${task.replace(/\s+/g, " ").trim()}`, "", ...CHECKLIST_HELP, ""];
+  for (const step of steps) {
+    lines.push(`- [${STATUS_MARKS[step.status]}] ${step.text}`);
+    if (step.note) lines.push(`  > ${step.note}`);
+  }
+  return lines.join("\n") + "\n";
+}
+
+/**
+ * Parse a markdown checklist back into steps. Headings, comments and
+ * other prose are ignored; plain "- item" bullets count as steps to run.
+ */
+export function planFromMarkdown(markdown: string): PlanStep[] {
+  const steps: PlanStep[] = [];
+  const text = markdown.replace(/<!--[\s\S]*?-->/g, "");
+
+  for (const line of text.split(/\r?\n/)) {
+    const note = /^\s+>\s?(.*)$/.exec(line);
+    if (note && steps.length > 0) {
+      const last = steps[steps.length - 1];
+      const addition = note[1].trim();
+      if (addition) last.note = last.note ? `${last.note} ${addition}` : addition;
+      continue;
+    }
+
+    const item = /^\s*[-*+]\s+(?:\[(.)\]\s*)?(.*)$/.exec(line);
+    if (!item || !item[2].trim()) continue;
+    const mark = (item[1] ?? " ").toLowerCase();
+    const status: StepStatus = mark === "s" || mark === "-" || mark === "~"
+      ? "skip"
+      : mark === "?" || mark === "!"
+        ? "needs-approval"
+        : "run";
+    steps.push({ text: item[2].trim(), status });
+  }
+  return steps;
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// 4. DIFF
+// ═══════════════════════════════════════════════════════════════════
+
+export type PlanDiffLine =
+  | { kind: "same"; text: string }
+  | { kind: "added"; step: PlanStep }
+  | { kind: "removed"; text: string }
+  | { kind: "changed"; step: PlanStep };
+
+/**
+ * Compare the backend's original step texts with the edited plan.
+ * Steps are matched by text (longest common subsequence), so a moved step
+ * shows as removed from its old place and added at its new one; matched
+ * steps that gained a status or note show as changed.
+ */
+export function diffPlan(original: readonly string[], edited: readonly PlanStep[]): PlanDiffLine[] {
+  const n = original.length;
+  const m = edited.length;
+  const lcs: number[][] = Array.from({ length: n + 1 }, () => new Array<number>(m + 1).fill(0));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i][j] = original[i] === edited[j].text ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const diff: PlanDiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < n || j < m) {
+    if (i < n && j < m && original[i] === edited[j].text) {
+      const step = edited[j];
+      diff.push(step.status !== "run" || step.note ? { kind: "changed", step } : { kind: "same", text: step.text });
+      i++;
+      j++;
+    } else if (j < m && (i >= n || lcs[i][j + 1] >= lcs[i + 1][j])) {
+      diff.push({ kind: "added", step: edited[j++] });
+    } else {
+      diff.push({ kind: "removed", text: original[i++] });
+    }
+  }
+  return diff;
+}
+
+/** True when the edited plan differs from the original in any way. */
+export function planChanged(original: readonly string[], edited: readonly PlanStep[]): boolean {
+  return diffPlan(original, edited).some((line) => line.kind !== "same");
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// 5. PLAN FILES
+// ═══════════════════════════════════════════════════════════════════
+
+export const PLAN_FILE_VERSION = 1;
+
+export type PlanFormat = "md" | "yaml";
+
+export interface PlanDocument {
+  version: number;
+  task: string;
+  created_at: string;
+  cli_version: string;
+  backend_url: string;
+  backend_version: string | null;
+  /** The planning run the steps came from, when there was one. */
+  source_run_id?: string;
+  steps: PlanStep[];
+}
+
+const STATUSES: readonly StepStatus[] = ["run", "skip", "needs-approval"];
+
+/** Pick the file format from the extension: .md/.markdown or .yaml/.yml. */
+export function planFormatFromPath(file: string): PlanFormat {
+  const ext = path.extname(file).toLowerCase();
+  if (ext === ".md" || ext === ".markdown") return "md";
+  if (ext === ".yaml" || ext === ".yml") return "yaml";
+  throw new Error(`Unsupported plan file "${file}" — use a .md or .yaml extension`);
+}
+
+/**
+ * Render a plan file. Secrets are redacted, since plan files are meant to
+ * be committed. Markdown carries the metadata as YAML front matter above
+ * the checklist; YAML lists steps with their status only when not "run".
+ */
+export function serializePlan(doc: PlanDocument, format: PlanFormat): string {
+  const { steps, ...meta } = doc;
+  if (format === "md") {
+    const frontMatter = YAML.stringify(meta, { lineWidth: 0 });
+    return redact(`---\n${frontMatter}---\n\n${planToMarkdown(doc.task, steps)}`);
+  }
+  const yamlSteps = steps.map(({ text, status, note }) => ({
+    text,
+    ...(status !== "run" ? { status } : {}),
+    ...(note ? { note } : {}),
+  }));
+  return redact(
+    "# Reviewed buildwithnexus plan. Execute with: buildwithnexus apply <file>\n" +
+      "# A step runs unless it sets status to skip or needs-approval.\n" +
+      YAML.stringify({ ...meta, steps: yamlSteps }, { lineWidth: 0 }),
+  );
+}
+
+/** Parse a plan file. Throws with a message naming the problem when it is malformed. */
+export function parsePlan(text: string, format: PlanFormat): PlanDocument {
+  let meta: Record<string, unknown>;
+  let steps: PlanStep[];
+  try {
+    if (format === "md") {
+      const match = /^---\r?\n([\s\S]*?)\r?\n---[ \t]*(?:\r?\n|$)/.exec(text);
+      const body = match ? text.slice(match[0].length) : text;
+      const front: unknown = match ? YAML.parse(match[1]) : null;
+      meta = isRecord(front) ? front : {};
+      // A checklist without front matter still names its task in the heading
+      const heading = /^#\s+Plan:\s*(.+)$/m.exec(body);
+      if (typeof meta.task !== "string" && heading) meta = { ...meta, task: heading[1].trim() };
+      steps = planFromMarkdown(body);
+    } else {
+      const parsed: unknown = YAML.parse(text);
+      if (!isRecord(parsed)) throw new Error("expected a mapping at the top level");
+      meta = parsed;
+      steps = parseYamlSteps(parsed.steps);
+    }
+  } catch (err) {
+    throw new Error(`Invalid plan file: ${err instanceof Error ? err.message : String(err)}`);
+  }
+
+  if (typeof meta.task !== "string" || !meta.task.trim()) {
+    throw new Error("Invalid plan file: missing the task");
+  }
+  if (typeof meta.version === "number" && meta.version > PLAN_FILE_VERSION) {
+    throw new Error(`Plan file version ${meta.version} is newer than this CLI supports — update buildwithnexus`);
+  }
+  if (steps.length === 0) throw new Error("Invalid plan file: no steps");
+
+  const str = (value: unknown) => (typeof value === "string" ? value : "");
+  return {
+    version: PLAN_FILE_VERSION,
+    task: meta.task,
+    created_at: str(meta.created_at),
+    cli_version: str(meta.cli_version),
+    backend_url: str(meta.backend_url),
+    backend_version: typeof meta.backend_version === "string" ? meta.backend_version : null,
+    ...(typeof meta.source_run_id === "string" ? { source_run_id: meta.source_run_id } : {}),
+    steps,
+  };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function parseYamlSteps(value: unknown): PlanStep[] {
+  if (!Array.isArray(value)) throw new Error("steps must be a list");
+  return value.map((entry, i) => {
+    if (typeof entry === "string") return { text: entry.trim(), status: "run" as const };
+    if (!isRecord(entry) || typeof entry.text !== "string" || !entry.text.trim()) {
+      throw new Error(`step ${i + 1} needs a text`);
+    }
+    const status = entry.status ?? "run";
+    if (!STATUSES.includes(status as StepStatus)) {
+      throw new Error(`step ${i + 1} has unknown status "${String(status)}" (use ${STATUSES.join(", ")})`);
+    }
+    const step: PlanStep = { text: entry.text.trim(), status: status as StepStatus };
+    if (typeof entry.note === "string" && entry.note.trim()) step.note = entry.note.trim();
+    return step;
+  });
+}
+
+/** Write a plan file in the format its extension names. */
+export function writePlanFile(file: string, doc: PlanDocument): void {
+  fs.writeFileSync(file, serializePlan(doc, planFormatFromPath(file)));
+}
+
+export function readPlanFile(file: string): PlanDocument {
+  const format = planFormatFromPath(file);
+  if (!fs.existsSync(file)) throw new Error(`No plan file at ${file}`);
+  return parsePlan(fs.readFileSync(file, "utf-8"), format);
+}
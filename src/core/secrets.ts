@@ -12,6 +12,8 @@ export interface NexusConfig {
   httpPort: number;
   httpsPort: number;
   masterSecret?: string;
+  /** How the shell suggests a mode: "keywords" (default), "rules" or "backend". */
+  intentClassifier?: string;
 }
 
 export interface NexusKeys {
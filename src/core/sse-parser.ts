@@ -1,36 +1,196 @@
 /**
- * Shared SSE stream parser used by all streaming call sites.
+ * Shared SSE parsing used by all streaming call sites.
  *
- * Yields parsed { type, data } objects from a raw ReadableStreamDefaultReader.
- * Handles buffering, line splitting, 'data: ' prefix stripping, and JSON parsing.
- * Parse errors are silently skipped (recoverable); stream close ends the generator.
+ * `SSEDecoder` implements the WHATWG event-stream format: `event:`, `data:`,
+ * `id:` and `retry:` fields, `:` comment lines (keepalives), multi-line
+ * `data:` concatenation, CRLF / CR / LF line endings, and an optional single
+ * space after the colon. An event is dispatched on each blank line.
+ *
+ * `parseSSEStream` decodes a byte stream with it and JSON-parses each event's
+ * data into the `{ type, data }` shape the NEXUS backend emits.
+ */
+
+/** One dispatched event-stream message, before any JSON decoding. */
+export interface SSEMessage {
+  /** Value of the `event:` field, or "message" when none was sent. */
+  event: string;
+  /** All `data:` lines of the event joined with "\n". */
+  data: string;
+  /** Last event ID in effect when the event was dispatched. */
+  id?: string;
+  /** Most recent `retry:` reconnection time advertised by the server, in ms. */
+  retry?: number;
+}
+
+/** A decoded backend event plus the SSE metadata it arrived with. */
+export interface SSEEvent {
+  type: string;
+  data: Record<string, unknown>;
+  event: string;
+  id?: string;
+  retry?: number;
+}
+
+export class SSEDecoder {
+  private buffer = '';
+  private dataLines: string[] = [];
+  private eventName = '';
+  private lastEventId: string | undefined;
+  private retry: number | undefined;
+
+  /** Feed a chunk of decoded text; returns the events it completed. */
+  push(text: string): SSEMessage[] {
+    this.buffer += text;
+    const messages: SSEMessage[] = [];
+    let start = 0;
+
+    for (let i = 0; i < this.buffer.length; i++) {
+      const ch = this.buffer[i];
+      if (ch !== '\n' && ch !== '\r') continue;
+      // A trailing CR may be the first half of a CRLF split across chunks
+      if (ch === '\r' && i === this.buffer.length - 1) break;
+
+      const line = this.buffer.slice(start, i);
+      if (ch === '\r' && this.buffer[i + 1] === '\n') i++;
+      start = i + 1;
+
+      const message = this.processLine(line);
+      if (message) messages.push(message);
+    }
+
+    this.buffer = this.buffer.slice(start);
+    return messages;
+  }
+
+  /**
+   * Flush at end of stream. Unlike the strict spec, an event left without
+   * its terminating blank line is still dispatched rather than discarded.
+   */
+  end(): SSEMessage[] {
+    const messages: SSEMessage[] = [];
+    const rest = this.buffer.replace(/\r$/, '');
+    this.buffer = '';
+    if (rest) {
+      const message = this.processLine(rest);
+      if (message) messages.push(message);
+    }
+    const pending = this.dispatch();
+    if (pending) messages.push(pending);
+    return messages;
+  }
+
+  private processLine(line: string): SSEMessage | null {
+    if (line === '') return this.dispatch();
+    if (line.startsWith(':')) return null; // comment / keepalive
+
+    const colon = line.indexOf(':');
+    const field = colon === -1 ? line : line.slice(0, colon);
+    let value = colon === -1 ? '' : line.slice(colon + 1);
+    if (value.startsWith(' ')) value = value.slice(1);
+
+    switch (field) {
+      case 'event':
+        this.eventName = value;
+        break;
+      case 'data':
+        this.dataLines.push(value);
+        break;
+      case 'id':
+        if (!value.includes('\0')) this.lastEventId = value;
+        break;
+      case 'retry':
+        if (/^\d+$/.test(value)) this.retry = parseInt(value, 10);
+        break;
+      default:
+        // Unknown fields are ignored per spec
+        break;
+    }
+    return null;
+  }
+
+  private dispatch(): SSEMessage | null {
+    if (this.dataLines.length === 0) {
+      this.eventName = '';
+      return null;
+    }
+    const message: SSEMessage = {
+      event: this.eventName || 'message',
+      data: this.dataLines.join('\n'),
+    };
+    if (this.lastEventId !== undefined) message.id = this.lastEventId;
+    if (this.retry !== undefined) message.retry = this.retry;
+    this.dataLines = [];
+    this.eventName = '';
+    return message;
+  }
+}
+
+/**
+ * Decode a message's data into a backend event.
+ *
+ * NEXUS frames carry a JSON `{ type, data }` envelope (or a flat
+ * `{ type, ...fields }` object). Standard frames that name the event with
+ * `event:` and send the payload directly as data are accepted too: the
+ * event name becomes the type, a JSON object becomes the data, and any
+ * other payload is wrapped as `{ content }`. Returns null for unnamed
+ * events whose data is not JSON.
+ */
+export function decodeSSEMessage(message: SSEMessage): SSEEvent | null {
+  const named = message.event !== 'message';
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(message.data);
+  } catch (e) {
+    if (!named) {
+      if (process.env.LOG_LEVEL === 'debug') console.error('SSE parse error:', e);
+      return null;
+    }
+    parsed = message.data;
+  }
+
+  const meta = { event: message.event, id: message.id, retry: message.retry };
+  if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+    const obj = parsed as Record<string, unknown>;
+    if (typeof obj['type'] === 'string') {
+      // `{ type, data }` envelope; flat `{ type, ...fields }` objects keep their fields as data
+      const { type, data: envelopeData, ...fields } = obj;
+      const data = envelopeData && typeof envelopeData === 'object' && !Array.isArray(envelopeData)
+        ? (envelopeData as Record<string, unknown>)
+        : fields;
+      return stripUndefined({ type: type as string, data, ...meta });
+    }
+    return stripUndefined({ type: message.event, data: obj, ...meta });
+  }
+  if (!named) return null;
+  return stripUndefined({ type: message.event, data: { content: typeof parsed === 'string' ? parsed : JSON.stringify(parsed) }, ...meta });
+}
+
+function stripUndefined(event: SSEEvent): SSEEvent {
+  if (event.id === undefined) delete event.id;
+  if (event.retry === undefined) delete event.retry;
+  return event;
+}
+
+/**
+ * Yields decoded events from a raw ReadableStreamDefaultReader.
+ * Malformed events are silently skipped (recoverable); stream close ends the generator.
  */
 export async function* parseSSEStream(
   reader: ReadableStreamDefaultReader<Uint8Array>
-): AsyncGenerator<{ type: string; data: Record<string, unknown> }> {
+): AsyncGenerator<SSEEvent> {
   const decoder = new TextDecoder();
-  let buffer = '';
+  const sse = new SSEDecoder();
 
   while (true) {
     const { done, value } = await reader.read();
-    if (done) break;
+    const messages = done
+      ? [...sse.push(decoder.decode()), ...sse.end()]
+      : sse.push(decoder.decode(value, { stream: true }));
 
-    buffer += decoder.decode(value, { stream: true });
-    const lines = buffer.split('\n');
-    buffer = lines.pop() || '';
-
-    for (const line of lines) {
-      if (!line.startsWith('data: ')) continue;
-      try {
-        const parsed = JSON.parse(line.slice(6)) as {
-          type: string;
-          data: Record<string, unknown>;
-        };
-        yield parsed;
-      } catch (e) {
-        // Ignore parse errors for partial / malformed JSON lines
-        if (process.env.LOG_LEVEL === 'debug') console.error('SSE parse error:', e);
-      }
+    for (const message of messages) {
+      const event = decodeSSEMessage(message);
+      if (event) yield event;
     }
+    if (done) break;
   }
 }
@@ -0,0 +1,241 @@
+// src/core/transcript.ts — local, redacted record of every streamed run
+//
+// Each run is written to ~/.buildwithnexus/runs/<run_id>.jsonl as it streams:
+// a `meta` line, one `event` line per backend event (with its offset from
+// the start of the run) and a closing `end` line. Recording the same run
+// again appends to its transcript. Every line passes through
+// DLP `redact` before it touches disk. Recording is best-effort — a full
+// disk or unwritable home never breaks the run being recorded.
+
+import fs from "node:fs";
+import path from "node:path";
+import { redact } from "./dlp.js";
+import { parseEvent, eventName, isTerminalEvent, type NexusEvent } from "./events.js";
+import { NEXUS_HOME } from "./secrets.js";
+
+export const RUNS_DIR = path.join(NEXUS_HOME, "runs");
+
+/** Bump when the line format changes incompatibly. */
+export const TRANSCRIPT_VERSION = 1;
+
+export type TranscriptMode = "PLAN" | "BUILD" | "BRAINSTORM" | "RUN";
+
+/**
+ * How a recorded run ended. `incomplete` = the stream stopped without a
+ * terminal event; `detached` = the user stopped watching but left it running.
+ */
+export type TranscriptStatus = "done" | "error" | "interrupted" | "detached" | "incomplete";
+
+/** Abort reason meaning the user detached from a run rather than stopping it. */
+export const DETACHED = "detached";
+
+export interface TranscriptMeta {
+  run_id: string;
+  task: string;
+  mode: TranscriptMode;
+  backend_url: string;
+  started_at: string;
+}
+
+export interface TranscriptEnd {
+  status: TranscriptStatus;
+  ended_at: string;
+  duration_ms: number;
+  error?: string;
+}
+
+export interface TranscriptEntry {
+  /** Milliseconds since the run started. */
+  t: number;
+  event: NexusEvent;
+}
+
+export interface Transcript {
+  meta: TranscriptMeta;
+  events: TranscriptEntry[];
+  /** Missing when the CLI exited before the run finished. */
+  end?: TranscriptEnd;
+}
+
+type TranscriptLine =
+  | ({ kind: "meta"; version: number } & TranscriptMeta)
+  | { kind: "event"; t: number; type: string; data: Record<string, unknown> }
+  | ({ kind: "end" } & TranscriptEnd);
+
+const RUN_ID_PATTERN = /^[a-zA-Z0-9_-]+$/;
+
+/** Path of a run's transcript. Throws for run IDs that could escape RUNS_DIR. */
+export function transcriptPath(runId: string): string {
+  if (!RUN_ID_PATTERN.test(runId)) {
+    throw new Error(`Invalid run ID: ${runId}`);
+  }
+  return path.join(RUNS_DIR, `${runId}.jsonl`);
+}
+
+/**
+ * Events that end a mode's run as far as the CLI is concerned, beyond the
+ * terminal ones: callers stop reading a planning run at its plan and a
+ * brainstorm turn at its answer.
+ */
+const MODE_OUTCOME: Partial<Record<TranscriptMode, NexusEvent["type"]>> = {
+  PLAN: "plan",
+  BRAINSTORM: "final_result",
+};
+
+/** When an existing transcript's run started, or null if there is none to continue. */
+function recordedStart(file: string): number | null {
+  try {
+    const first = fs.readFileSync(file, "utf-8").split("\n", 1)[0];
+    const line = JSON.parse(first) as TranscriptLine;
+    const startedAt = line.kind === "meta" ? Date.parse(line.started_at) : NaN;
+    return Number.isNaN(startedAt) ? null : startedAt;
+  } catch {
+    return null;
+  }
+}
+
+export class TranscriptWriter {
+  private readonly file: string;
+  private terminal: NexusEvent | null = null;
+  private finished = false;
+  private broken = false;
+
+  private constructor(
+    runId: string,
+    private readonly mode: TranscriptMode,
+    private readonly startedAt: number,
+  ) {
+    this.file = transcriptPath(runId);
+  }
+
+  /**
+   * Start recording a run. A run that already has a transcript (e.g. one
+   * reattached to with `runs attach`) is continued: no second `meta` line, and event
+   * offsets keep counting from its original start.
+   */
+  static start(meta: Omit<TranscriptMeta, "started_at">): TranscriptWriter {
+    const existing = recordedStart(transcriptPath(meta.run_id));
+    const writer = new TranscriptWriter(meta.run_id, meta.mode, existing ?? Date.now());
+    if (existing === null) {
+      writer.write({ kind: "meta", version: TRANSCRIPT_VERSION, ...meta, started_at: new Date(writer.startedAt).toISOString() });
+    }
+    return writer;
+  }
+
+  record(event: NexusEvent): void {
+    if (this.finished) return;
+    if (isTerminalEvent(event) || event.type === MODE_OUTCOME[this.mode]) this.terminal = event;
+    this.write({ kind: "event", t: Date.now() - this.startedAt, type: eventName(event), data: event.data });
+  }
+
+  /**
+   * Write the closing line. Without an explicit status it is inferred from
+   * the last terminal event seen. Only the first call has any effect.
+   */
+  finish(status?: TranscriptStatus, error?: string): void {
+    if (this.finished) return;
+    this.finished = true;
+    const inferred: TranscriptStatus = this.terminal
+      ? (this.terminal.type === "error" ? "error" : "done")
+      : "incomplete";
+    const end: TranscriptEnd = {
+      status: status ?? inferred,
+      ended_at: new Date().toISOString(),
+      duration_ms: Date.now() - this.startedAt,
+    };
+    if (error) end.error = error;
+    this.write({ kind: "end", ...end });
+  }
+
+  /**
+   * Pass a stream through while recording it. The transcript is finished
+   * when the stream ends, fails, or the consumer stops iterating. Once
+   * `signal` has fired the run is recorded as interrupted, or as detached
+   * when the abort reason is DETACHED.
+   */
+  async *tee(stream: AsyncIterable<NexusEvent>, signal?: AbortSignal): AsyncGenerator<NexusEvent> {
+    try {
+      for await (const event of stream) {
+        this.record(event);
+        yield event;
+      }
+    } catch (err) {
+      if (!signal?.aborted) this.finish("error", err instanceof Error ? err.message : String(err));
+      throw err;
+    } finally {
+      if (signal?.aborted) this.finish(signal.reason === DETACHED ? "detached" : "interrupted");
+      else this.finish();
+    }
+  }
+
+  private write(line: TranscriptLine): void {
+    if (this.broken) return;
+    try {
+      fs.mkdirSync(RUNS_DIR, { recursive: true, mode: 0o700 });
+      fs.appendFileSync(this.file, redact(JSON.stringify(line)) + "\n", { mode: 0o600 });
+    } catch (err) {
+      // Stop trying after the first failure; the run itself carries on
+      this.broken = true;
+      if (process.env.LOG_LEVEL === "debug") console.error("Transcript write failed:", err);
+    }
+  }
+}
+
+/**
+ * Read a recorded run. Throws if the transcript does not exist or has no
+ * metadata line; unparseable lines (e.g. a write cut short) are skipped.
+ */
+export function readTranscript(runId: string): Transcript {
+  const file = transcriptPath(runId);
+  if (!fs.existsSync(file)) {
+    throw new Error(`No transcript for run ${runId} (looked in ${RUNS_DIR})`);
+  }
+
+  let meta: TranscriptMeta | undefined;
+  let end: TranscriptEnd | undefined;
+  const events: TranscriptEntry[] = [];
+
+  for (const raw of fs.readFileSync(file, "utf-8").split("\n")) {
+    if (!raw.trim()) continue;
+    let line: TranscriptLine;
+    try {
+      line = JSON.parse(raw) as TranscriptLine;
+    } catch {
+      continue;
+    }
+    if (line.kind === "meta") {
+      const { kind: _kind, version: _version, ...rest } = line;
+      meta = rest;
+    } else if (line.kind === "event") {
+      events.push({ t: line.t, event: parseEvent({ type: line.type, data: line.data }).event });
+    } else if (line.kind === "end") {
+      const { kind: _kind, ...rest } = line;
+      end = rest;
+    }
+  }
+
+  if (!meta) throw new Error(`Transcript for run ${runId} is missing its metadata line`);
+  return { meta, events, end };
+}
+
+export interface TranscriptSummary {
+  meta: TranscriptMeta;
+  end?: TranscriptEnd;
+  eventCount: number;
+}
+
+/** Every readable transcript under RUNS_DIR, newest first. */
+export function listTranscripts(): TranscriptSummary[] {
+  if (!fs.existsSync(RUNS_DIR)) return [];
+  const summaries: TranscriptSummary[] = [];
+  for (const file of fs.readdirSync(RUNS_DIR)) {
+    if (!file.endsWith(".jsonl")) continue;
+    try {
+      const { meta, end, events } = readTranscript(file.slice(0, -".jsonl".length));
+      summaries.push({ meta, end, eventCount: events.length });
+    } catch {
+      // Not a transcript we wrote (or truncated before its metadata) — skip it
+    }
+  }
+  return summaries.sort((a, b) => b.meta.started_at.localeCompare(a.meta.started_at));
+}
@@ -4,3 +4,21 @@
 export function backoffMs(attempt: number): number {
   return Math.min(3000 * Math.pow(2, attempt), 30_000);
 }
+
+/**
+ * Resolve after `ms`, or reject with the signal's reason if it aborts first.
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
@@ -0,0 +1,277 @@
+// src/core/workspace.ts — a snapshot of the user's project sent with each run
+//
+// The backend has no view of where the CLI is running. gatherWorkspace
+// collects the essentials — directory, git state, detected stack and a
+// compact directory tree — so agents know which project they are working
+// in. Like attachments, the snapshot is DLP-redacted, and the home directory
+// is shown as `~`. `buildwithnexus context` previews it; `--no-context` (or
+// NEXUS_NO_CONTEXT=1) stops it being sent.
+
+import { execFileSync } from "node:child_process";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { IgnoreMatcher, workspaceRoot } from "./attachments.js";
+import { redact } from "./dlp.js";
+
+// ═══════════════════════════════════════════════════════════════════
+// 1. TYPES & LIMITS
+// ═══════════════════════════════════════════════════════════════════
+
+export interface WorkspaceGit {
+  /** Current branch, or "detached at <hash>". */
+  branch: string;
+  /** `git status --porcelain` lines, e.g. " M src/app.ts". */
+  dirty: string[];
+  /** Changed files beyond those listed in `dirty`. */
+  dirty_omitted: number;
+  /** "<hash> <subject>", newest first. */
+  recent_commits: string[];
+}
+
+export interface WorkspaceContext {
+  cwd: string;
+  /** Repository root (or cwd outside a repository). */
+  root: string;
+  git: WorkspaceGit | null;
+  /** Languages and frameworks detected from manifest files. */
+  stack: string[];
+  /** Manifest files the stack was detected from, relative to the root. */
+  manifests: string[];
+  /** Indented directory tree of the root, .gitignore'd entries left out. */
+  tree: string;
+}
+
+const GIT_TIMEOUT_MS = 3000;
+const MAX_DIRTY_FILES = 20;
+const RECENT_COMMITS = 5;
+const TREE_DEPTH = 2;
+const TREE_ENTRIES_PER_DIR = 15;
+const TREE_MAX_LINES = 80;
+
+/** True unless NEXUS_NO_CONTEXT turns workspace sharing off. */
+export function workspaceSharingEnabled(env: NodeJS.ProcessEnv = process.env): boolean {
+  const value = env.NEXUS_NO_CONTEXT?.trim().toLowerCase();
+  return !value || value === "0" || value === "false";
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// 2. GIT
+// ═══════════════════════════════════════════════════════════════════
+
+function git(cwd: string, args: string[]): string | null {
+  try {
+    return execFileSync("git", args, {
+      cwd,
+      encoding: "utf-8",
+      timeout: GIT_TIMEOUT_MS,
+      stdio: ["ignore", "pipe", "ignore"],
+    }).trimEnd();
+  } catch {
+    return null;
+  }
+}
+
+/** Branch, changes and recent commits; null outside a repository or without git. */
+export function gitState(cwd: string): WorkspaceGit | null {
+  if (git(cwd, ["rev-parse", "--is-inside-work-tree"]) !== "true") return null;
+
+  const head = git(cwd, ["rev-parse", "--short", "HEAD"]);
+  const branch = git(cwd, ["symbolic-ref", "--quiet", "--short", "HEAD"]) ?? (head ? `detached at ${head}` : "unknown");
+  const status = (git(cwd, ["status", "--porcelain"]) ?? "").split("\n").filter(Boolean);
+  const log = head ? git(cwd, ["log", `-${RECENT_COMMITS}`, "--format=%h %s"]) : null;
+
+  return {
+    branch,
+    dirty: status.slice(0, MAX_DIRTY_FILES),
+    dirty_omitted: Math.max(0, status.length - MAX_DIRTY_FILES),
+    recent_commits: (log ?? "").split("\n").filter(Boolean),
+  };
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// 3. STACK DETECTION
+// ═══════════════════════════════════════════════════════════════════
+
+interface ManifestRule {
+  file: string;
+  stack: string[];
+  /** Frameworks recognised by a pattern in the manifest's text. */
+  frameworks?: Array<[RegExp, string]>;
+}
+
+const npmDep = (name: string) => new RegExp(`"${name.replace(/[/.]/g, "\\$&")}"\\s*:`);
+
+const MANIFESTS: ManifestRule[] = [
+  {
+    file: "package.json",
+    stack: ["Node.js"],
+    frameworks: [
+      [npmDep("typescript"), "TypeScript"],
+      [npmDep("react"), "React"],
+      [npmDep("next"), "Next.js"],
+      [npmDep("vue"), "Vue"],
+      [npmDep("svelte"), "Svelte"],
+      [npmDep("@angular/core"), "Angular"],
+      [npmDep("express"), "Express"],
+      [npmDep("fastify"), "Fastify"],
+      [npmDep("@nestjs/core"), "NestJS"],
+      [npmDep("electron"), "Electron"],
+      [npmDep("vitest"), "Vitest"],
+      [npmDep("jest"), "Jest"],
+    ],
+  },
+  { file: "tsconfig.json", stack: ["TypeScript"] },
+  ...["pyproject.toml", "requirements.txt", "setup.py", "Pipfile"].map((file) => ({
+    file,
+    stack: ["Python"],
+    frameworks: [
+      [/\bdjango\b/i, "Django"],
+      [/\bflask\b/i, "Flask"],
+      [/\bfastapi\b/i, "FastAPI"],
+      [/\bpytest\b/i, "pytest"],
+    ] as Array<[RegExp, string]>,
+  })),
+  { file: "go.mod", stack: ["Go"], frameworks: [[/gin-gonic\/gin/, "Gin"]] },
+  { file: "Cargo.toml", stack: ["Rust"], frameworks: [[/^\s*tokio\s*=/m, "Tokio"], [/^\s*axum\s*=/m, "Axum"]] },
+  { file: "Gemfile", stack: ["Ruby"], frameworks: [[/gem ["']rails["']/, "Rails"]] },
+  { file: "pom.xml", stack: ["Java", "Maven"], frameworks: [[/spring-boot/, "Spring Boot"]] },
+  { file: "build.gradle", stack: ["Java", "Gradle"], frameworks: [[/spring-boot/, "Spring Boot"]] },
+  { file: "build.gradle.kts", stack: ["Kotlin", "Gradle"], frameworks: [[/spring-boot/, "Spring Boot"]] },
+  { file: "composer.json", stack: ["PHP"], frameworks: [[/laravel\/framework/, "Laravel"]] },
+  { file: "Package.swift", stack: ["Swift"] },
+  { file: "mix.exs", stack: ["Elixir"], frameworks: [[/:phoenix\b/, "Phoenix"]] },
+  { file: "pubspec.yaml", stack: ["Dart"], frameworks: [[/^\s*flutter:/m, "Flutter"]] },
+  { file: "Dockerfile", stack: ["Docker"] },
+];
+
+/** Languages and frameworks named by manifest files in `dirs` (first one wins on duplicates). */
+export function detectStack(dirs: string[], root: string): { stack: string[]; manifests: string[] } {
+  const stack: string[] = [];
+  const manifests: string[] = [];
+  const add = (name: string) => {
+    if (!stack.includes(name)) stack.push(name);
+  };
+  for (const dir of [...new Set(dirs)]) {
+    for (const rule of MANIFESTS) {
+      const file = path.join(dir, rule.file);
+      let text: string;
+      try {
+        text = fs.readFileSync(file, "utf-8");
+      } catch {
+        continue;
+      }
+      manifests.push(path.relative(root, file).split(path.sep).join("/"));
+      rule.stack.forEach(add);
+      for (const [pattern, name] of rule.frameworks ?? []) {
+        if (pattern.test(text)) add(name);
+      }
+    }
+  }
+  return { stack, manifests };
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// 4. DIRECTORY TREE
+// ═══════════════════════════════════════════════════════════════════
+
+/**
+ * A compact tree of `root`: directories first, `TREE_DEPTH` levels deep,
+ * deeper directories shown with their entry count.
+ */
+export function directoryTree(root: string): string {
+  const ignore = new IgnoreMatcher(root);
+  const lines: string[] = [];
+
+  const entriesOf = (dir: string): fs.Dirent[] => {
+    try {
+      return fs
+        .readdirSync(dir, { withFileTypes: true })
+        .filter((e) => e.isDirectory() || e.isFile())
+        .filter((e) => !ignore.ignored(path.relative(root, path.join(dir, e.name)).split(path.sep).join("/"), e.isDirectory()))
+        .sort((a, b) => Number(b.isDirectory()) - Number(a.isDirectory()) || a.name.localeCompare(b.name));
+    } catch {
+      return [];
+    }
+  };
+
+  const walk = (dir: string, depth: number) => {
+    const entries = entriesOf(dir);
+    const indent = "  ".repeat(depth);
+    for (const entry of entries.slice(0, TREE_ENTRIES_PER_DIR)) {
+      if (lines.length >= TREE_MAX_LINES) return;
+      const full = path.join(dir, entry.name);
+      if (!entry.isDirectory()) {
+        lines.push(`${indent}${entry.name}`);
+      } else if (depth + 1 < TREE_DEPTH) {
+        lines.push(`${indent}${entry.name}/`);
+        walk(full, depth + 1);
+      } else {
+        const count = entriesOf(full).length;
+        lines.push(`${indent}${entry.name}/ (${count} ${count === 1 ? "entry" : "entries"})`);
+      }
+    }
+    if (entries.length > TREE_ENTRIES_PER_DIR && lines.length < TREE_MAX_LINES) {
+      lines.push(`${indent}… ${entries.length - TREE_ENTRIES_PER_DIR} more`);
+    }
+  };
+
+  walk(root, 0);
+  if (lines.length >= TREE_MAX_LINES) lines.push("…");
+  return lines.join("\n");
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// 5. SNAPSHOT
+// ═══════════════════════════════════════════════════════════════════
+
+function displayPath(p: string): string {
+  const home = os.homedir();
+  return p === home || p.startsWith(home + path.sep) ? "~" + p.slice(home.length) : p;
+}
+
+/** Gather the snapshot sent with runs. Never throws; missing pieces are left empty. */
+export function gatherWorkspace(cwd?: string): WorkspaceContext {
+  let real: string;
+  try {
+    real = fs.realpathSync(cwd ?? process.cwd());
+  } catch {
+    // The directory vanished or can't be read; describe it as given
+    real = path.resolve(cwd ?? process.env.PWD ?? path.sep);
+  }
+  const root = workspaceRoot(real);
+  const { stack, manifests } = detectStack([root, real], root);
+  const context: WorkspaceContext = {
+    cwd: displayPath(real),
+    root: displayPath(root),
+    git: gitState(real),
+    stack,
+    manifests,
+    tree: directoryTree(root),
+  };
+  return JSON.parse(redact(JSON.stringify(context))) as WorkspaceContext;
+}
+
+/** Plain-text rendering of a snapshot, for previews. */
+export function formatWorkspace(context: WorkspaceContext): string {
+  const lines = [`Directory: ${context.cwd}`];
+  if (context.root !== context.cwd) lines.push(`Repository: ${context.root}`);
+  if (context.git) {
+    const { branch, dirty, dirty_omitted, recent_commits } = context.git;
+    const changed = dirty.length + dirty_omitted;
+    lines.push(`Git branch: ${branch} (${changed === 0 ? "clean" : `${changed} changed file${changed === 1 ? "" : "s"}`})`);
+    for (const line of dirty) lines.push(`  ${line}`);
+    if (dirty_omitted > 0) lines.push(`  … ${dirty_omitted} more`);
+    if (recent_commits.length > 0) {
+      lines.push("Recent commits:");
+      for (const commit of recent_commits) lines.push(`  ${commit}`);
+    }
+  } else {
+    lines.push("Git: not a repository");
+  }
+  lines.push(`Stack: ${context.stack.length > 0 ? context.stack.join(", ") : "not detected"}`);
+  if (context.manifests.length > 0) lines.push(`  from ${context.manifests.join(", ")}`);
+  lines.push("Tree:");
+  for (const line of context.tree.split("\n").filter(Boolean)) lines.push(`  ${line}`);
+  return lines.join("\n");
+}
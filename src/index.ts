@@ -0,0 +1,21 @@
+// src/index.ts — programmatic entry point for the buildwithnexus package
+export {
+  NexusClient,
+  NexusApiError,
+  type NexusClientOptions,
+  type CreateRunOptions,
+  type StreamRunOptions,
+  type InterruptType,
+  type AgentInfo,
+  type CostSummary,
+  type RunInfo,
+} from "./core/client.js";
+export * from "./core/events.js";
+export { buildRunPayload, type RunContext, type RunPayload, type RunPlan } from "./core/api.js";
+export {
+  collectAttachments,
+  parseAttachmentRefs,
+  type Attachment,
+  type AttachmentResult,
+} from "./core/attachments.js";
+export { gatherWorkspace, formatWorkspace, type WorkspaceContext, type WorkspaceGit } from "./core/workspace.js";
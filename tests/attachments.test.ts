@@ -0,0 +1,146 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { collectAttachments, formatBytes, parseAttachmentRefs, parseGitignore } from "../src/core/attachments.js";
+
+const SECRET = "sk-ant-api03-" + "x".repeat(40);
+
+let root: string;
+
+function write(rel: string, content: string | Buffer): void {
+  const file = path.join(root, rel);
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, content);
+}
+
+beforeEach(() => {
+  root = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), "nexus-attach-")));
+  fs.mkdirSync(path.join(root, ".git"));
+});
+
+afterEach(() => {
+  fs.rmSync(root, { recursive: true, force: true });
+});
+
+describe("parseAttachmentRefs", () => {
+  it("finds @path tokens without trailing punctuation", () => {
+    expect(parseAttachmentRefs("fix @src/app.ts, then read @docs/ and @src/app.ts.")).toEqual(["src/app.ts", "docs/"]);
+  });
+
+  it("ignores email addresses and bare @", () => {
+    expect(parseAttachmentRefs("mail me@example.com @ noon")).toEqual([]);
+  });
+});
+
+describe("parseGitignore", () => {
+  const ignored = (rules: string, rel: string) => parseGitignore(rules).reduce((hit, r) => (r.pattern.test(rel) ? !r.negate : hit), false);
+
+  it("matches unanchored names at any depth and anchored paths from the root", () => {
+    expect(ignored("*.log", "a/b/debug.log")).toBe(true);
+    expect(ignored("/build", "build")).toBe(true);
+    expect(ignored("/build", "src/build")).toBe(false);
+    expect(ignored("docs/**/*.md", "docs/a/b/x.md")).toBe(true);
+    expect(ignored("*.log\n!keep.log", "keep.log")).toBe(false);
+  });
+});
+
+describe("collectAttachments", () => {
+  it("attaches files and directories relative to cwd", () => {
+    write("src/app.ts", "export const app = 1;\n");
+    write("src/util/math.ts", "export const add = 1;\n");
+    write("README.md", "# hi\n");
+
+    const result = collectAttachments(["README.md", "src"], { cwd: root });
+    expect(result.attachments.map((a) => a.path)).toEqual(["README.md", "src/app.ts", "src/util/math.ts"]);
+    expect(result.attachments[0]).toEqual({ path: "README.md", content: "# hi\n", size: 5 });
+    expect(result.skipped).toEqual([]);
+  });
+
+  it("respects .gitignore files, including nested ones", () => {
+    write(".gitignore", "node_modules/\n*.log\n.env\n");
+    write("src/.gitignore", "generated/\n!important.log\n");
+    write("src/app.ts", "ok\n");
+    write("src/debug.log", "noise\n");
+    write("src/important.log", "keep\n");
+    write("src/generated/out.ts", "noise\n");
+    write("node_modules/pkg/index.js", "noise\n");
+    write(".env", "KEY=1\n");
+
+    const result = collectAttachments([".", ".env"], { cwd: root });
+    expect(result.attachments.map((a) => a.path)).toEqual([".gitignore", "src/.gitignore", "src/app.ts", "src/important.log"]);
+    expect(result.skipped).toEqual([{ path: ".env", reason: "ignored by .gitignore" }]);
+  });
+
+  it("skips binary, oversized and missing files and stops at the total budget", () => {
+    write("image.png", Buffer.from([0x89, 0x50, 0x00, 0x01]));
+    write("big.txt", "x".repeat(200));
+    write("a.txt", "a".repeat(60));
+    write("b.txt", "b".repeat(60));
+
+    const result = collectAttachments(["image.png", "big.txt", "a.txt", "b.txt", "nope.ts"], {
+      cwd: root,
+      maxFileBytes: 100,
+      maxTotalBytes: 100,
+    });
+    expect(result.attachments.map((a) => a.path)).toEqual(["a.txt"]);
+    expect(result.skipped).toEqual([
+      { path: "image.png", reason: "binary file" },
+      { path: "big.txt", reason: "larger than 100 B" },
+      { path: "b.txt", reason: "would exceed the 100 B total" },
+      { path: "nope.ts", reason: "not found" },
+    ]);
+  });
+
+  it("stops at the file limit and sums up what was left out in one entry", () => {
+    for (const name of ["a", "b", "c", "d"]) write(`${name}.txt`, name);
+    write("z/deep/e.txt", "e");
+
+    const exact = collectAttachments(["a.txt", "b.txt", "c.txt", "d.txt"], { cwd: root, maxFiles: 2 });
+    expect(exact.attachments.map((a) => a.path)).toEqual(["a.txt", "b.txt"]);
+    expect(exact.skipped).toEqual([{ path: "2 more files", reason: "over the 2-file limit" }]);
+
+    const walked = collectAttachments(["."], { cwd: root, maxFiles: 2 });
+    expect(walked.attachments.map((a) => a.path)).toEqual(["a.txt", "b.txt"]);
+    expect(walked.skipped).toEqual([{ path: "at least 2 more files", reason: "over the 2-file limit" }]);
+  });
+
+  it("refuses paths outside the workspace", () => {
+    const outside = fs.mkdtempSync(path.join(os.tmpdir(), "nexus-outside-"));
+    try {
+      fs.writeFileSync(path.join(outside, "id_rsa"), "private\n");
+      fs.symlinkSync(path.join(outside, "id_rsa"), path.join(root, "link"));
+      const result = collectAttachments([path.join(outside, "id_rsa"), "link"], { cwd: root });
+      expect(result.attachments).toEqual([]);
+      expect(result.skipped.map((s) => s.reason)).toEqual(["outside the workspace", "outside the workspace"]);
+    } finally {
+      fs.rmSync(outside, { recursive: true, force: true });
+    }
+  });
+
+  it("redacts secrets and reports which files had them", () => {
+    write("config.ts", `const key = "${SECRET}";\n`);
+    const result = collectAttachments(["config.ts"], { cwd: root });
+    expect(result.attachments[0].content).toBe('const key = "[REDACTED]";\n');
+    expect(result.redacted).toEqual(["config.ts"]);
+  });
+
+  it("resolves paths from a subdirectory against the repository's .gitignore", () => {
+    write(".gitignore", "*.tmp\n");
+    write("pkg/a.ts", "a\n");
+    write("pkg/b.tmp", "b\n");
+    write("shared.ts", "s\n");
+
+    const result = collectAttachments([".", "../shared.ts"], { cwd: path.join(root, "pkg") });
+    expect(result.attachments.map((a) => a.path)).toEqual(["a.ts", "../shared.ts"]);
+  });
+});
+
+describe("formatBytes", () => {
+  it("uses B, KB and MB", () => {
+    expect(formatBytes(512)).toBe("512 B");
+    expect(formatBytes(12_400)).toBe("12.4 KB");
+    expect(formatBytes(100_000)).toBe("100 KB");
+    expect(formatBytes(1_200_000)).toBe("1.2 MB");
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, it, expect, vi } from "vitest";
+import { BrainstormContext, estimateTokens, formatTokens } from "../src/core/brainstorm-context.js";
+import { addMessage, createSession, type BrainstormSession } from "../src/core/brainstorm-session.js";
+
+function sessionWithTurns(turns: number, size = 40): BrainstormSession {
+  const session = createSession("t");
+  for (let i = 1; i <= turns; i++) {
+    addMessage(session, "user", `question ${i} ` + "q".repeat(size));
+    addMessage(session, "assistant", `answer ${i} ` + "a".repeat(size));
+  }
+  return session;
+}
+
+describe("BrainstormContext", () => {
+  it("sends the bare question first, then the conversation so far", () => {
+    const session = createSession("t");
+    const context = new BrainstormContext(session);
+    expect(context.prompt("first?")).toBe("first?");
+    addMessage(session, "user", "first?");
+    addMessage(session, "assistant", "answer");
+    expect(context.prompt("second?")).toBe("User: first?\n\nAssistant: answer\n\nUser: second?");
+  });
+
+  it("asks for a summary only when over budget with older turns to fold", () => {
+    expect(new BrainstormContext(sessionWithTurns(2, 400), { maxTokens: 100, keepTurns: 2 }).needsSummary()).toBe(false);
+    expect(new BrainstormContext(sessionWithTurns(3, 400), { maxTokens: 100, keepTurns: 2 }).needsSummary()).toBe(true);
+    expect(new BrainstormContext(sessionWithTurns(3, 400), { maxTokens: 100_000, keepTurns: 2 }).needsSummary()).toBe(false);
+  });
+
+  it("folds older turns into a summary and keeps recent turns verbatim", async () => {
+    const session = sessionWithTurns(5);
+    const context = new BrainstormContext(session, { keepTurns: 2 });
+    const summariser = vi.fn(async () => "- likes idea A\n");
+
+    expect(await context.summarise(summariser)).toBe(true);
+    expect(summariser.mock.calls[0][0]).toContain("question 3");
+    expect(summariser.mock.calls[0][0]).not.toContain("question 4");
+    expect(session.summary).toEqual({ text: "- likes idea A", through: 6 });
+
+    const prompt = context.prompt("next?");
+    expect(prompt.startsWith("Summary of the earlier conversation:\n- likes idea A\n\nUser: question 4")).toBe(true);
+    expect(prompt).not.toContain("question 3");
+    expect(context.usage()).toMatchObject({ summarised: 6, verbatim: 4 });
+
+    // Nothing new to fold until more turns arrive; then the old summary is carried forward
+    expect(await context.summarise(summariser)).toBe(false);
+    addMessage(session, "user", "question 6");
+    addMessage(session, "assistant", "answer 6");
+    await context.summarise(async (p) => {
+      expect(p).toContain("Summary so far:\n- likes idea A");
+      return "- merged";
+    });
+    expect(session.summary).toEqual({ text: "- merged", through: 8 });
+  });
+
+  it("leaves the context unchanged when summarising fails", async () => {
+    const session = sessionWithTurns(5);
+    const context = new BrainstormContext(session, { keepTurns: 1 });
+    await expect(context.summarise(async () => "  ")).rejects.toThrow("empty summary");
+    await expect(context.summarise(async () => { throw new Error("down"); })).rejects.toThrow("down");
+    expect(session.summary).toBeUndefined();
+  });
+});
+
+describe("token helpers", () => {
+  it("estimates and formats token counts", () => {
+    expect(estimateTokens("x".repeat(10))).toBe(3);
+    expect(formatTokens(850)).toBe("850");
+    expect(formatTokens(2_140)).toBe("2.1k");
+    expect(formatTokens(12_600)).toBe("13k");
+  });
+});
@@ -0,0 +1,99 @@
+import { describe, it, expect } from "vitest";
+import fs from "node:fs";
+import {
+  BRAINSTORMS_DIR,
+  addMessage,
+  createSession,
+  DISTILL_REQUEST,
+  formatTaskBrief,
+  listSessions,
+  loadSession,
+  parseTaskBrief,
+  saveSession,
+  sessionPath,
+  sessionTitle,
+  sessionToMarkdown,
+} from "../src/core/brainstorm-session.js";
+
+const SECRET = "sk-ant-api03-" + "x".repeat(40);
+
+describe("brainstorm sessions", () => {
+  it("saves, reloads and lists sessions, newest first", () => {
+    const older = createSession("Pricing ideas", new Date("2026-01-01T10:00:00Z"));
+    addMessage(older, "user", "How should we price?");
+    addMessage(older, "assistant", "Tiered plans.");
+    older.updated_at = "2026-01-01T10:05:00.000Z";
+    saveSession(older);
+
+    const newer = createSession("Onboarding flow", new Date("2026-01-02T10:00:00Z"));
+    addMessage(newer, "user", "Ideas for onboarding?");
+    saveSession(newer);
+
+    expect(older.id).toMatch(/^20260101-100000-[0-9a-f]{6}$/);
+    expect(loadSession(older.id)).toEqual(older);
+    expect(listSessions().map((s) => s.id)).toEqual([newer.id, older.id]);
+    expect(listSessions()[1]).toMatchObject({ title: "Pricing ideas", turns: 1 });
+    expect(fs.statSync(sessionPath(older.id)).mode & 0o777).toBe(0o600);
+  });
+
+  it("redacts secrets before writing", () => {
+    const session = createSession("Keys");
+    addMessage(session, "user", `my key is ${SECRET}`);
+    saveSession(session);
+    expect(fs.readFileSync(sessionPath(session.id), "utf-8")).not.toContain(SECRET);
+    expect(loadSession(session.id).messages[0].content).toContain("[REDACTED]");
+  });
+
+  it("rejects unknown, unsafe and unreadable sessions", () => {
+    expect(() => loadSession("missing")).toThrow("No brainstorm session missing");
+    expect(() => loadSession("../etc/passwd")).toThrow("Invalid brainstorm session ID");
+    fs.writeFileSync(`${BRAINSTORMS_DIR}/broken.json`, "{ nope");
+    expect(() => loadSession("broken")).toThrow("unreadable");
+    expect(listSessions().some((s) => s.id === "broken")).toBe(false);
+  });
+
+  it("derives one-line titles", () => {
+    expect(sessionTitle("  a\nmulti-line   idea ")).toBe("a multi-line idea");
+    expect(sessionTitle("x".repeat(100))).toHaveLength(60);
+    expect(sessionTitle("   ")).toBe("Untitled brainstorm");
+  });
+});
+
+describe("sessionToMarkdown", () => {
+  it("renders a titled transcript", () => {
+    const session = createSession("Pricing ideas");
+    addMessage(session, "user", "How should we price?");
+    addMessage(session, "assistant", `Tiered plans. ${SECRET}\n`);
+    const markdown = sessionToMarkdown(session);
+    expect(markdown).toContain("# Pricing ideas\n");
+    expect(markdown).toContain("## You\n\nHow should we price?\n");
+    expect(markdown).toContain("## NEXUS CPO\n\nTiered plans. [REDACTED]\n");
+    expect(markdown).not.toContain(SECRET);
+  });
+});
+
+describe("task briefs", () => {
+  it("asks for the format the parser reads", () => {
+    expect(DISTILL_REQUEST).toContain("TASK:");
+    expect(DISTILL_REQUEST).toContain("ACCEPTANCE CRITERIA:");
+  });
+
+  it("parses the requested format leniently", () => {
+    expect(parseTaskBrief("**TASK:** Build a todo\napp with sync.\n\n**Acceptance criteria:**\n- Works offline\n2. Syncs in 5s\nnot a bullet")).toEqual({
+      task: "Build a todo app with sync.",
+      criteria: ["Works offline", "Syncs in 5s"],
+    });
+  });
+
+  it("falls back to the whole reply as the task", () => {
+    expect(parseTaskBrief("Just build a CLI.")).toEqual({ task: "Just build a CLI.", criteria: [] });
+    expect(parseTaskBrief("   ")).toBeNull();
+  });
+
+  it("round-trips through the editable text form", () => {
+    const brief = { task: "Build a todo app", criteria: ["Works offline", "Has tests"] };
+    expect(formatTaskBrief(brief)).toBe("Build a todo app\n\nAcceptance criteria:\n- Works offline\n- Has tests");
+    expect(parseTaskBrief(formatTaskBrief(brief))).toEqual(brief);
+    expect(formatTaskBrief({ task: "Only a task", criteria: [] })).toBe("Only a task");
+  });
+});
@@ -0,0 +1,363 @@
+import { describe, it, expect, afterEach, vi } from "vitest";
+
+// Reconnect immediately so tests don't wait on real backoff delays
+vi.mock("../src/core/utils.js", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../src/core/utils.js")>()),
+  backoffMs: () => 0,
+}));
+
+import { NexusClient, NexusApiError } from "../src/core/client.js";
+import type { NexusEvent } from "../src/core/events.js";
+
+const KEYS = { anthropic: "ant-key" };
+
+function sseResponse(frames: string[]): Response {
+  const encoder = new TextEncoder();
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (const frame of frames) controller.enqueue(encoder.encode(frame));
+      controller.close();
+    },
+  });
+  return new Response(body, { status: 200 });
+}
+
+function mockFetch(handler: (url: string, init?: RequestInit) => Response) {
+  const fn = vi.fn(async (url: string | URL | Request, init?: RequestInit) => handler(String(url), init));
+  vi.stubGlobal("fetch", fn);
+  return fn;
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("NexusClient.createRun", () => {
+  it("posts the run payload and returns the run ID", async () => {
+    const fetchMock = mockFetch(() => Response.json({ run_id: "run_123" }));
+    const client = new NexusClient({ baseUrl: "http://localhost:4200/", keys: KEYS });
+
+    const runId = await client.createRun("build it", { agentRole: "engineer", agentGoal: "ship" });
+
+    expect(runId).toBe("run_123");
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe("http://localhost:4200/api/run");
+    expect(init?.method).toBe("POST");
+    const body = JSON.parse(String(init?.body));
+    expect(body).toMatchObject({ task: "build it", agent_role: "engineer", agent_goal: "ship", api_key: "ant-key" });
+  });
+
+  it("gives up on starting a run when its signal fires", async () => {
+    mockFetch((_url, init) => {
+      expect(init?.signal).toBeInstanceOf(AbortSignal);
+      init?.signal?.throwIfAborted();
+      return Response.json({ run_id: "run_123" });
+    });
+    const client = new NexusClient({ baseUrl: "http://localhost:4200", keys: KEYS });
+
+    await expect(client.createRun("classify", { signal: AbortSignal.abort() })).rejects.toBeInstanceOf(NexusApiError);
+  });
+
+  it("sends approved plan steps and the planning run to reuse", async () => {
+    const fetchMock = mockFetch(() => Response.json({ run_id: "run_456" }));
+    const client = new NexusClient({ baseUrl: "http://localhost:4200", keys: KEYS });
+
+    await client.createRun("build it", { planSteps: ["design", "ship"], parentRunId: "run_123" });
+
+    const body = JSON.parse(String(fetchMock.mock.calls[0][1]?.body));
+    expect(body).toMatchObject({ plan_steps: ["design", "ship"], parent_run_id: "run_123" });
+  });
+
+  it("omits plan fields for an ordinary run", async () => {
+    const fetchMock = mockFetch(() => Response.json({ run_id: "run_456" }));
+    const client = new NexusClient({ baseUrl: "http://localhost:4200", keys: KEYS });
+
+    await client.createRun("build it", { planSteps: [] });
+
+    const body = JSON.parse(String(fetchMock.mock.calls[0][1]?.body));
+    expect(body).not.toHaveProperty("plan_steps");
+    expect(body).not.toHaveProperty("parent_run_id");
+  });
+
+  it("sends attachments and the workspace snapshot only when given", async () => {
+    const fetchMock = mockFetch(() => Response.json({ run_id: "run_456" }));
+    const client = new NexusClient({ baseUrl: "http://localhost:4200", keys: KEYS });
+    const attachment = { path: "src/app.ts", content: "export {};\n", size: 11 };
+    const workspace = { cwd: "~/app", root: "~/app", git: null, stack: ["Go"], manifests: ["go.mod"], tree: "go.mod" };
+
+    await client.createRun("fix @src/app.ts", { attachments: [attachment], workspace });
+    await client.createRun("build it", { attachments: [] });
+
+    expect(JSON.parse(String(fetchMock.mock.calls[0][1]?.body))).toMatchObject({ attachments: [attachment], workspace });
+    const plain = JSON.parse(String(fetchMock.mock.calls[1][1]?.body));
+    expect(plain).not.toHaveProperty("attachments");
+    expect(plain).not.toHaveProperty("workspace");
+  });
+
+  it("sends a model only when one is chosen", async () => {
+    const fetchMock = mockFetch(() => Response.json({ run_id: "run_456" }));
+    const client = new NexusClient({ baseUrl: "http://localhost:4200", keys: KEYS });
+
+    await client.createRun("classify this", { model: "claude-haiku-4-5-20251001" });
+    await client.createRun("build it");
+
+    expect(JSON.parse(String(fetchMock.mock.calls[0][1]?.body))).toMatchObject({ model: "claude-haiku-4-5-20251001" });
+    expect(JSON.parse(String(fetchMock.mock.calls[1][1]?.body))).not.toHaveProperty("model");
+  });
+
+  it("throws NexusApiError with status and body on HTTP failure", async () => {
+    mockFetch(() => new Response("boom", { status: 500, statusText: "Internal Server Error" }));
+    const client = new NexusClient({ baseUrl: "http://localhost:4200", keys: KEYS });
+
+    const err = await client.createRun("x").catch((e: unknown) => e);
+    expect(err).toBeInstanceOf(NexusApiError);
+    expect((err as NexusApiError).status).toBe(500);
+    expect((err as NexusApiError).body).toBe("boom");
+  });
+
+  it("rejects run IDs with unsafe characters", async () => {
+    mockFetch(() => Response.json({ run_id: "../etc/passwd" }));
+    const client = new NexusClient({ baseUrl: "http://localhost:4200", keys: KEYS });
+    await expect(client.createRun("x")).rejects.toThrow("invalid characters");
+  });
+
+  it("rejects non-JSON responses", async () => {
+    mockFetch(() => new Response("<html>", { status: 200 }));
+    const client = new NexusClient({ baseUrl: "http://localhost:4200", keys: KEYS });
+    await expect(client.createRun("x")).rejects.toThrow("invalid JSON");
+  });
+});
+
+describe("NexusClient.streamRun", () => {
+  it("yields typed events and maps unrecognised types to unknown", async () => {
+    mockFetch(() => sseResponse([
+      'data: {"type":"plan","data":{"steps":["a","b"]}}\n\n',
+      'data: {"type":"custom_thing","data":{"x":1}}\n\n',
+      'data: {"type":"done","data":{}}\n\n',
+    ]));
+    const client = new NexusClient({ baseUrl: "http://localhost:4200", keys: KEYS });
+
+    const events: NexusEvent[] = [];
+    for await (const event of client.streamRun("run_1")) events.push(event);
+
+    expect(events.map((e) => e.type)).toEqual(["plan", "unknown", "done"]);
+    expect(events[0]).toEqual({ type: "plan", data: { steps: ["a", "b"] } });
+    expect(events[1]).toEqual({ type: "unknown", name: "custom_thing", data: { x: 1 } });
+  });
+
+  it("throws NexusApiError when the stream endpoint fails", async () => {
+    mockFetch(() => new Response("missing", { status: 404, statusText: "Not Found" }));
+    const client = new NexusClient({ baseUrl: "http://localhost:4200", keys: KEYS });
+
+    const iterate = async () => {
+      for await (const _ of client.streamRun("run_1")) { /* drain */ }
+    };
+    await expect(iterate()).rejects.toBeInstanceOf(NexusApiError);
+  });
+});
+
+describe("NexusClient.streamRun reconnection", () => {
+  it("reconnects with Last-Event-ID when the stream drops before a terminal event", async () => {
+    let call = 0;
+    const fetchMock = mockFetch(() => {
+      call++;
+      if (call === 1) return sseResponse(['id: 4\ndata: {"type":"started","data":{}}\n\n']);
+      return sseResponse(['id: 5\ndata: {"type":"done","data":{}}\n\n']);
+    });
+    const client = new NexusClient({ baseUrl: "http://localhost:4200", keys: KEYS });
+    const onReconnecting = vi.fn();
+    const onReconnected = vi.fn();
+
+    const types: string[] = [];
+    for await (const event of client.streamRun("run_1", { onReconnecting, onReconnected })) {
+      types.push(event.type);
+    }
+
+    expect(types).toEqual(["started", "done"]);
+    expect(onReconnecting).toHaveBeenCalledTimes(1);
+    expect(onReconnected).toHaveBeenCalledTimes(1);
+    const headers = fetchMock.mock.calls[1][1]?.headers as Record<string, string>;
+    expect(headers["Last-Event-ID"]).toBe("4");
+  });
+
+  it("retries network failures and gives up after maxReconnectAttempts", async () => {
+    const fetchMock = mockFetch(() => {
+      throw new TypeError("fetch failed");
+    });
+    const client = new NexusClient({ baseUrl: "http://localhost:4200", keys: KEYS, maxReconnectAttempts: 2 });
+
+    const iterate = async () => {
+      for await (const _ of client.streamRun("run_1")) { /* drain */ }
+    };
+    await expect(iterate()).rejects.toThrow("fetch failed");
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it("stops following a backend that keeps closing the stream early", async () => {
+    let call = 0;
+    const fetchMock = mockFetch(() => {
+      call++;
+      return sseResponse([`id: ${call}\ndata: {"type":"started","data":{}}\n\n`]);
+    });
+    const client = new NexusClient({ baseUrl: "http://localhost:4200", keys: KEYS, maxTotalReconnects: 3 });
+
+    const types: string[] = [];
+    for await (const event of client.streamRun("run_1")) types.push(event.type);
+
+    expect(types).toEqual(["started", "started", "started", "started"]);
+    expect(fetchMock).toHaveBeenCalledTimes(4);
+  });
+
+  it("ends the stream on a malformed error event", async () => {
+    const fetchMock = mockFetch(() => sseResponse(['data: {"type":"error","data":{"error":{"code":500}}}\n\n']));
+    const client = new NexusClient({ baseUrl: "http://localhost:4200", keys: KEYS });
+    const onDiagnostic = vi.fn();
+
+    const events: NexusEvent[] = [];
+    for await (const event of client.streamRun("run_1", { onDiagnostic })) events.push(event);
+
+    expect(events).toEqual([{ type: "error", data: { error: "Backend sent a malformed error event (error must be a string)" } }]);
+    expect(onDiagnostic).toHaveBeenCalledWith(expect.objectContaining({ kind: "malformed", name: "error" }));
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("reconnects a stream that goes idle", async () => {
+    let call = 0;
+    mockFetch(() => {
+      call++;
+      if (call === 1) {
+        // Never sends anything and never closes
+        return new Response(new ReadableStream<Uint8Array>({ start() {} }), { status: 200 });
+      }
+      return sseResponse(['data: {"type":"done","data":{}}\n\n']);
+    });
+    const client = new NexusClient({ baseUrl: "http://localhost:4200", keys: KEYS, streamIdleTimeoutMs: 50 });
+    const onReconnecting = vi.fn();
+
+    const types: string[] = [];
+    for await (const event of client.streamRun("run_1", { onReconnecting })) types.push(event.type);
+
+    expect(types).toEqual(["done"]);
+    expect(onReconnecting.mock.calls[0][0].reason).toContain("no data from backend");
+  });
+
+  it("keeps a quiet stream open while the run is paused", async () => {
+    let paused = true;
+    const fetchMock = mockFetch(() => {
+      const encoder = new TextEncoder();
+      return new Response(new ReadableStream<Uint8Array>({
+        start(controller) {
+          // Silent for several idle timeouts, then the run resumes and finishes
+          setTimeout(() => {
+            paused = false;
+            controller.enqueue(encoder.encode('data: {"type":"done","data":{}}\n\n'));
+            controller.close();
+          }, 150);
+        },
+      }), { status: 200 });
+    });
+    const client = new NexusClient({ baseUrl: "http://localhost:4200", keys: KEYS, streamIdleTimeoutMs: 40 });
+    const onReconnecting = vi.fn();
+
+    const types: string[] = [];
+    for await (const event of client.streamRun("run_1", { onReconnecting, paused: () => paused })) types.push(event.type);
+
+    expect(types).toEqual(["done"]);
+    expect(onReconnecting).not.toHaveBeenCalled();
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("NexusClient.interrupt", () => {
+  it("posts the interrupt type for the run", async () => {
+    const fetchMock = mockFetch(() => Response.json({ ok: true }));
+    const client = new NexusClient({ baseUrl: "http://localhost:4200", keys: KEYS });
+
+    await client.interrupt("run_1");
+
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe("http://localhost:4200/api/interrupt");
+    expect(JSON.parse(String(init?.body))).toEqual({ run_id: "run_1", interrupt_type: "abort" });
+  });
+
+  it("sends the steering message with a redirect", async () => {
+    const fetchMock = mockFetch(() => Response.json({ ok: true }));
+    const client = new NexusClient({ baseUrl: "http://localhost:4200", keys: KEYS });
+
+    await client.interrupt("run_1", "redirect", " use Postgres instead of SQLite ");
+
+    expect(JSON.parse(String(fetchMock.mock.calls[0][1]?.body))).toEqual({
+      run_id: "run_1",
+      interrupt_type: "redirect",
+      message: "use Postgres instead of SQLite",
+    });
+  });
+
+  it("refuses a redirect without a message", async () => {
+    const fetchMock = mockFetch(() => Response.json({ ok: true }));
+    const client = new NexusClient({ baseUrl: "http://localhost:4200", keys: KEYS });
+
+    await expect(client.interrupt("run_1", "redirect", "  ")).rejects.toThrow("needs a message");
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
+
+describe("NexusClient.runs / run", () => {
+  it("accepts a bare list or a { runs } wrapper", async () => {
+    mockFetch(() => Response.json({ runs: [{ run_id: "run_1", status: "running" }, { nope: true }] }));
+    const client = new NexusClient({ baseUrl: "http://localhost:4200", keys: KEYS });
+    expect(await client.runs()).toEqual([{ run_id: "run_1", status: "running" }]);
+  });
+
+  it("returns null when the backend has no run history endpoint", async () => {
+    mockFetch(() => new Response("not found", { status: 404 }));
+    const client = new NexusClient({ baseUrl: "http://localhost:4200", keys: KEYS });
+    expect(await client.runs()).toBeNull();
+    expect(await client.run("run_1")).toBeNull();
+  });
+
+  it("fetches a single run by ID", async () => {
+    const fetchMock = mockFetch(() => Response.json({ status: "done" }));
+    const client = new NexusClient({ baseUrl: "http://localhost:4200", keys: KEYS });
+    expect(await client.run("run_1")).toEqual({ run_id: "run_1", status: "done" });
+    expect(fetchMock.mock.calls[0][0]).toBe("http://localhost:4200/api/runs/run_1");
+  });
+});
+
+describe("NexusClient.backendVersion", () => {
+  it("reads the version from the health response", async () => {
+    const fetchMock = mockFetch(() => Response.json({ status: "ok", version: "2.4.1" }));
+    const client = new NexusClient({ baseUrl: "http://localhost:4200", keys: KEYS });
+    expect(await client.backendVersion()).toBe("2.4.1");
+    expect(fetchMock.mock.calls[0][0]).toBe("http://localhost:4200/health");
+  });
+
+  it("returns null when no version is reported", async () => {
+    mockFetch(() => new Response("ok", { status: 200 }));
+    const client = new NexusClient({ baseUrl: "http://localhost:4200", keys: KEYS });
+    expect(await client.backendVersion()).toBeNull();
+  });
+});
+
+describe("NexusClient.agents / cost", () => {
+  it("returns the parsed agent list", async () => {
+    mockFetch(() => Response.json([{ name: "CPO", status: "active" }]));
+    const client = new NexusClient({ baseUrl: "http://localhost:4200", keys: KEYS });
+    expect(await client.agents()).toEqual([{ name: "CPO", status: "active" }]);
+  });
+
+  it("unwraps an { agents } list and keeps the body of any other shape", async () => {
+    mockFetch(() => Response.json({ agents: [{ name: "CPO" }] }));
+    const client = new NexusClient({ baseUrl: "http://localhost:4200", keys: KEYS });
+    expect(await client.agents()).toEqual([{ name: "CPO" }]);
+
+    mockFetch(() => Response.json({ roster: "CPO" }));
+    await expect(client.agents()).rejects.toMatchObject({ status: null, body: expect.stringContaining("roster") });
+  });
+
+  it("returns the parsed cost summary", async () => {
+    mockFetch(() => Response.json({ total: 1.5 }));
+    const client = new NexusClient({ baseUrl: "http://localhost:4200", keys: KEYS });
+    expect(await client.cost()).toEqual({ total: 1.5 });
+  });
+});
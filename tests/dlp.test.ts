@@ -8,6 +8,7 @@ import {
   shellCommand,
   redact,
   redactError,
+  countSecrets,
   DlpViolation,
   validateKeyValue,
   validateAllKeys,
@@ -154,6 +155,13 @@ describe("redact", () => {
   });
 });
 
+describe("countSecrets", () => {
+  it("counts the keys redact would replace", () => {
+    expect(countSecrets("anthropic=sk-ant-REDACTED openai=sk-bbbbbbbbbbbbbbbbbbbbbb")).toBe(2);
+    expect(countSecrets("No secrets here")).toBe(0);
+  });
+});
+
 describe("redactError", () => {
   it("redacts Error message and stack", () => {
     const err = new Error("Failed with key sk-ant-REDACTED");
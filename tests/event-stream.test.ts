@@ -0,0 +1,144 @@
+import { describe, it, expect, afterEach, vi } from "vitest";
+
+// Reconnect immediately so tests don't wait on real backoff delays
+vi.mock("../src/core/utils.js", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../src/core/utils.js")>()),
+  backoffMs: () => 0,
+}));
+
+// EventStream only connects once NEXUS is set up
+const setup = vi.hoisted(() => ({ config: {} as object | null }));
+vi.mock("../src/core/secrets.js", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../src/core/secrets.js")>()),
+  loadConfig: () => setup.config,
+}));
+
+import { EventStream, formatEvent, type AgentEvent } from "../src/core/event-stream.js";
+
+function sseResponse(frames: string[], close = true): Response {
+  const encoder = new TextEncoder();
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (const frame of frames) controller.enqueue(encoder.encode(frame));
+      if (close) controller.close();
+    },
+  });
+  return new Response(body, { status: 200 });
+}
+
+function waitFor(predicate: () => boolean, timeoutMs = 2000): Promise<void> {
+  const start = Date.now();
+  return new Promise((resolve, reject) => {
+    const tick = () => {
+      if (predicate()) return resolve();
+      if (Date.now() - start > timeoutMs) return reject(new Error("timed out"));
+      setTimeout(tick, 5);
+    };
+    tick();
+  });
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  setup.config = {};
+});
+
+describe("EventStream", () => {
+  it("delivers events to every subscriber and resumes with Last-Event-ID", async () => {
+    const calls: RequestInit[] = [];
+    vi.stubGlobal("fetch", vi.fn(async (_url: string, init: RequestInit) => {
+      calls.push(init);
+      if (calls.length === 1) {
+        return sseResponse(['id: 1\ndata: {"type":"agent_thinking","role":"CPO"}\n\n']);
+      }
+      return sseResponse(['id: 2\ndata: {"type":"agent_complete","role":"CPO"}\n\n'], false);
+    }));
+
+    const first: AgentEvent[] = [];
+    const second: AgentEvent[] = [];
+    const stream = new EventStream((e) => first.push(e), { baseUrl: "http://localhost:4200" });
+    stream.subscribe((e) => second.push(e));
+
+    await stream.start();
+    await waitFor(() => first.length === 2);
+    stream.stop();
+
+    expect(first.map((e) => e.type)).toEqual(["agent_thinking", "agent_complete"]);
+    expect(second).toEqual(first);
+    expect(first[0]).toMatchObject({ id: "1", role: "CPO" });
+    expect((calls[1].headers as Record<string, string>)["Last-Event-ID"]).toBe("1");
+  });
+
+  it("waits at least the server's retry interval before reconnecting", async () => {
+    const calledAt: number[] = [];
+    vi.stubGlobal("fetch", vi.fn(async () => {
+      calledAt.push(Date.now());
+      if (calledAt.length === 1) return sseResponse(['retry: 150\ndata: {"type":"heartbeat"}\n\n']);
+      return sseResponse([], false);
+    }));
+
+    const stream = new EventStream(undefined, { baseUrl: "http://localhost:4200" });
+    await stream.start();
+    await waitFor(() => calledAt.length === 2);
+    stream.stop();
+
+    expect(calledAt[1] - calledAt[0]).toBeGreaterThanOrEqual(140);
+  });
+
+  it("does not connect before NEXUS is set up", async () => {
+    setup.config = null;
+    const fetchMock = vi.fn();
+    vi.stubGlobal("fetch", fetchMock);
+
+    const stream = new EventStream(undefined, { baseUrl: "http://localhost:4200" });
+    await stream.start();
+    stream.stop();
+
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(stream.getStatus().active).toBe(false);
+  });
+
+  it("unsubscribed listeners stop receiving events", async () => {
+    vi.stubGlobal("fetch", vi.fn(async () => sseResponse(['data: {"type":"heartbeat"}\n\n'], false)));
+
+    const received: AgentEvent[] = [];
+    const stream = new EventStream(undefined, { baseUrl: "http://localhost:4200" });
+    const unsubscribe = stream.subscribe((e) => received.push(e));
+    unsubscribe();
+
+    const other: AgentEvent[] = [];
+    stream.subscribe((e) => other.push(e));
+    await stream.start();
+    await waitFor(() => other.length === 1);
+    stream.stop();
+
+    expect(received).toHaveLength(0);
+  });
+
+  it("emits an error event after sustained connection failures", async () => {
+    vi.stubGlobal("fetch", vi.fn(async () => {
+      throw new TypeError("fetch failed");
+    }));
+
+    const errors: AgentEvent[] = [];
+    const stream = new EventStream((e) => errors.push(e), { baseUrl: "http://localhost:4200" });
+    await stream.start();
+    await waitFor(() => errors.length > 0);
+    stream.stop();
+
+    expect(errors[0].type).toBe("error");
+    expect(errors[0].content).toContain("fetch failed");
+    expect(stream.getStatus().active).toBe(false);
+  });
+});
+
+describe("formatEvent", () => {
+  it("returns null for heartbeats", () => {
+    expect(formatEvent({ type: "heartbeat" })).toBeNull();
+  });
+
+  it("redacts secrets in agent responses", () => {
+    const out = formatEvent({ type: "agent_response", content: "key sk-ant-REDACTED" });
+    expect(out).toContain("[REDACTED]");
+  });
+});
@@ -0,0 +1,116 @@
+import { describe, it, expect, afterEach, vi } from "vitest";
+import {
+  EVENT_SCHEMA_VERSION,
+  parseEvent,
+  reportEventDiagnostic,
+  eventText,
+  salvageTerminalEvent,
+} from "../src/core/events.js";
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  vi.restoreAllMocks();
+});
+
+describe("parseEvent", () => {
+  it("accepts frames that match the schema", () => {
+    const { event, diagnostic } = parseEvent({ type: "plan", data: { steps: ["a", "b"] } });
+    expect(event).toEqual({ type: "plan", data: { steps: ["a", "b"] } });
+    expect(diagnostic).toBeUndefined();
+  });
+
+  it("treats null optional fields as absent", () => {
+    const { event, diagnostic } = parseEvent({ type: "done", data: { summary: null, result: "ok" } });
+    expect(event).toEqual({ type: "done", data: { result: "ok" } });
+    expect(diagnostic).toBeUndefined();
+  });
+
+  it("keeps unknown event types with their original name", () => {
+    const { event, diagnostic } = parseEvent({ type: "custom_thing", data: { x: 1 } });
+    expect(event).toEqual({ type: "unknown", name: "custom_thing", data: { x: 1 } });
+    expect(diagnostic?.kind).toBe("unknown");
+  });
+
+  it("marks known types with invalid payloads as malformed", () => {
+    const { event, diagnostic } = parseEvent({ type: "plan", data: { steps: "do everything" } });
+    expect(event.type).toBe("malformed");
+    expect(diagnostic).toMatchObject({ kind: "malformed", name: "plan", issues: ["steps must be an array of strings"] });
+  });
+
+  it("reads plan steps sent as objects through their text or description", () => {
+    const { event, diagnostic } = parseEvent({
+      type: "plan",
+      data: { steps: [{ text: "design" }, { description: "ship", id: 2 }, "test", 4] },
+    });
+    expect(event).toEqual({ type: "plan", data: { steps: ["design", "ship", "test", "4"] } });
+    expect(diagnostic).toBeUndefined();
+    expect(parseEvent({ type: "plan", data: { steps: [{ id: 1 }] } }).event.type).toBe("malformed");
+  });
+
+  it("requires a path on file_change events", () => {
+    expect(parseEvent({ type: "file_change", data: { path: "src/a.ts", content: "x" } }).event.type).toBe("file_change");
+    expect(parseEvent({ type: "file_change", data: { content: "x" } }).diagnostic?.issues).toEqual([
+      "path must be a non-empty string",
+    ]);
+  });
+
+  it("rejects non-object data", () => {
+    const { event } = parseEvent({ type: "done", data: ["x"] });
+    expect(event).toMatchObject({ type: "malformed", name: "done", issues: ["data must be an object"] });
+  });
+
+  it("flags events from a newer schema version but still delivers them", () => {
+    const { event, diagnostic } = parseEvent({
+      type: "done",
+      data: { schema_version: EVENT_SCHEMA_VERSION + 1 },
+    });
+    expect(event.type).toBe("done");
+    expect(diagnostic?.kind).toBe("version");
+  });
+});
+
+describe("eventText", () => {
+  it("returns the first descriptive field", () => {
+    expect(eventText({ type: "done", data: { summary: "all good" } })).toBe("all good");
+  });
+
+  it("returns nothing for malformed events", () => {
+    expect(eventText({ type: "malformed", name: "done", data: { content: "x" }, issues: [] })).toBe("");
+  });
+});
+
+describe("reportEventDiagnostic", () => {
+  const diagnostic = { kind: "unknown" as const, name: "custom_thing", issues: ["not in schema"], data: {} };
+
+  it("is silent unless event debugging is enabled", () => {
+    vi.stubEnv("LOG_LEVEL", "info");
+    vi.stubEnv("NEXUS_DEBUG_EVENTS", "");
+    const spy = vi.spyOn(console, "error").mockImplementation(() => {});
+    reportEventDiagnostic(diagnostic);
+    expect(spy).not.toHaveBeenCalled();
+  });
+
+  it("prints to stderr with NEXUS_DEBUG_EVENTS=1", () => {
+    vi.stubEnv("NEXUS_DEBUG_EVENTS", "1");
+    const spy = vi.spyOn(console, "error").mockImplementation(() => {});
+    reportEventDiagnostic(diagnostic);
+    expect(spy.mock.calls[0][0]).toContain('unknown event "custom_thing"');
+  });
+});
+
+describe("salvageTerminalEvent", () => {
+  it("turns malformed terminal frames into the events they name", () => {
+    expect(salvageTerminalEvent(parseEvent({ type: "done", data: { summary: 3, result: "ok" } }).event))
+      .toEqual({ type: "done", data: { result: "ok" } });
+    expect(salvageTerminalEvent(parseEvent({ type: "done", data: ["x"] }).event)).toEqual({ type: "done", data: {} });
+    expect(salvageTerminalEvent(parseEvent({ type: "error", data: { error: 1, content: "boom" } }).event))
+      .toEqual({ type: "error", data: { content: "boom" } });
+  });
+
+  it("leaves other events alone", () => {
+    const plan = parseEvent({ type: "plan", data: { steps: "do everything" } }).event;
+    expect(salvageTerminalEvent(plan)).toBe(plan);
+    const started = parseEvent({ type: "started", data: {} }).event;
+    expect(salvageTerminalEvent(started)).toBe(started);
+  });
+});
@@ -0,0 +1,214 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import {
+  CHANGES_DIR,
+  ChangeSet,
+  applyHunks,
+  diffFile,
+  diffLines,
+  formatUnifiedDiff,
+  journalPath,
+  listJournals,
+  loadJournal,
+  resultOf,
+  splitLines,
+  toHunks,
+  undoChanges,
+  writeChanges,
+} from "../src/core/file-changes.js";
+import type { NexusEvent } from "../src/core/events.js";
+
+const change = (data: { path: string; action?: string; content?: string; agent?: string }): NexusEvent => ({
+  type: "file_change",
+  data,
+});
+
+const numbered = (count: number) => Array.from({ length: count }, (_, i) => `line ${i + 1}\n`).join("");
+
+let root: string;
+
+function read(rel: string): string | null {
+  const file = path.join(root, rel);
+  return fs.existsSync(file) ? fs.readFileSync(file, "utf-8") : null;
+}
+
+beforeEach(() => {
+  root = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), "nexus-changes-")));
+});
+
+afterEach(() => {
+  fs.rmSync(root, { recursive: true, force: true });
+});
+
+describe("ChangeSet", () => {
+  it("keeps the latest proposal per path and ignores other events", () => {
+    const changes = new ChangeSet(root);
+    expect(changes.apply({ type: "done", data: {} })).toBe(false);
+    changes.apply(change({ path: "src/b.ts", content: "one" }));
+    changes.apply(change({ path: "./src/b.ts", content: "two", agent: "Engineer" }));
+    changes.apply(change({ path: "a.ts", action: "delete" }));
+    expect(changes.changes()).toEqual([
+      { path: "a.ts", action: "delete", content: null },
+      { path: "src/b.ts", action: "modify", content: "two", agent: "Engineer" },
+    ]);
+  });
+
+  it("rejects paths outside the workspace and incomplete changes", () => {
+    const outside = fs.mkdtempSync(path.join(os.tmpdir(), "nexus-outside-"));
+    try {
+      fs.symlinkSync(outside, path.join(root, "escape"));
+      const changes = new ChangeSet(root);
+      changes.apply(change({ path: "../etc/passwd", content: "x" }));
+      changes.apply(change({ path: "/etc/passwd", content: "x" }));
+      changes.apply(change({ path: ".git/hooks/pre-commit", content: "x" }));
+      changes.apply(change({ path: "escape/file.txt", content: "x" }));
+      changes.apply(change({ path: "a.ts" }));
+      changes.apply(change({ path: "b.ts", action: "rename", content: "x" }));
+      expect(changes.size).toBe(0);
+      expect(changes.rejected.map((r) => r.reason)).toEqual([
+        "outside the workspace",
+        "absolute paths are not allowed",
+        "inside .git",
+        "outside the workspace",
+        "no content",
+        'unknown action "rename"',
+      ]);
+    } finally {
+      fs.rmSync(outside, { recursive: true, force: true });
+    }
+  });
+
+  it("rejects symlinked files and .git in any case", () => {
+    const outside = fs.mkdtempSync(path.join(os.tmpdir(), "nexus-outside-"));
+    try {
+      fs.writeFileSync(path.join(outside, "secret.txt"), "keep\n");
+      fs.symlinkSync(path.join(outside, "secret.txt"), path.join(root, "link.txt"));
+      fs.symlinkSync(path.join(outside, "missing.txt"), path.join(root, "dangling.txt"));
+      const changes = new ChangeSet(root);
+      changes.apply(change({ path: "link.txt", content: "pwned" }));
+      changes.apply(change({ path: "dangling.txt", content: "pwned" }));
+      changes.apply(change({ path: ".GIT/config", content: "x" }));
+      expect(changes.size).toBe(0);
+      expect(changes.rejected.map((r) => r.reason)).toEqual(["is a symlink", "is a symlink", "inside .git"]);
+      expect(() => writeChanges(root, [{ path: "link.txt", content: "pwned" }])).toThrow("is a symlink");
+      expect(fs.readFileSync(path.join(outside, "secret.txt"), "utf-8")).toBe("keep\n");
+      expect(fs.existsSync(path.join(outside, "missing.txt"))).toBe(false);
+    } finally {
+      fs.rmSync(outside, { recursive: true, force: true });
+    }
+  });
+});
+
+describe("diffs and hunks", () => {
+  it("renders a unified diff with separate hunks", () => {
+    const before = numbered(20);
+    const lines = splitLines(before);
+    lines[1] = "changed 2\n";
+    lines.splice(15, 1);
+    const after = lines.join("") + "new end";
+    fs.writeFileSync(path.join(root, "x.txt"), before);
+
+    const diff = diffFile({ path: "x.txt", action: "modify", content: after }, root);
+    expect(diff).toMatchObject({ action: "modify", added: 2, removed: 2 });
+    expect(diff.hunks.map((h) => [h.oldStart, h.oldLines, h.newStart, h.newLines])).toEqual([
+      [1, 5, 1, 5],
+      [13, 8, 13, 8],
+    ]);
+    const text = formatUnifiedDiff(diff);
+    expect(text).toContain("--- a/x.txt\n+++ b/x.txt\n@@ -1,5 +1,5 @@\n line 1\n-line 2\n+changed 2\n");
+    expect(text).toContain("+new end\n\\ No newline at end of file\n");
+  });
+
+  it("applies only the accepted hunks", () => {
+    const before = numbered(20);
+    const after = before.replace("line 2\n", "two\n").replace("line 19\n", "nineteen\n");
+    const hunks = toHunks(diffLines(splitLines(before), splitLines(after)));
+    expect(hunks).toHaveLength(2);
+    expect(applyHunks(before, hunks, [true, true])).toBe(after);
+    expect(applyHunks(before, hunks, [false, false])).toBe(before);
+    expect(applyHunks(before, hunks, [false, true])).toBe(before.replace("line 19\n", "nineteen\n"));
+  });
+
+  it("describes creations and deletions", () => {
+    fs.writeFileSync(path.join(root, "old.txt"), "bye\n");
+    const created = diffFile({ path: "new.txt", action: "create", content: "hi\n" }, root);
+    const deleted = diffFile({ path: "old.txt", action: "delete", content: null }, root);
+    expect(formatUnifiedDiff(created)).toBe("--- /dev/null\n+++ b/new.txt\n@@ -0,0 +1,1 @@\n+hi\n");
+    expect(formatUnifiedDiff(deleted)).toBe("--- a/old.txt\n+++ /dev/null\n@@ -1,1 +0,0 @@\n-bye\n");
+    expect(resultOf(deleted, [true])).toBeNull();
+    expect(resultOf(created, [false])).toBeUndefined();
+  });
+
+  it("has no hunks when the file already matches", () => {
+    fs.writeFileSync(path.join(root, "same.txt"), "same\n");
+    expect(diffFile({ path: "same.txt", action: "modify", content: "same\n" }, root).hunks).toEqual([]);
+  });
+});
+
+describe("change journal", () => {
+  it("writes changes and undoes them exactly", () => {
+    fs.writeFileSync(path.join(root, "keep.txt"), "original\n");
+    fs.writeFileSync(path.join(root, "gone.txt"), "remove me\n");
+
+    const journal = writeChanges(
+      root,
+      [
+        { path: "keep.txt", content: "edited\n" },
+        { path: "gone.txt", content: null },
+        { path: "src/new.ts", content: "export {};\n" },
+      ],
+      { task: "refactor", runId: "run_1" },
+    );
+    expect([read("keep.txt"), read("gone.txt"), read("src/new.ts")]).toEqual(["edited\n", null, "export {};\n"]);
+    expect(fs.statSync(journalPath(journal.id)).mode & 0o777).toBe(0o600);
+    expect(loadJournal(journal.id)).toMatchObject({ task: "refactor", run_id: "run_1", root });
+
+    expect(undoChanges(loadJournal(journal.id))).toEqual({
+      restored: ["src/new.ts", "gone.txt", "keep.txt"],
+      conflicts: [],
+    });
+    expect([read("keep.txt"), read("gone.txt"), read("src/new.ts")]).toEqual(["original\n", "remove me\n", null]);
+    expect(loadJournal(journal.id).undone_at).toBeDefined();
+  });
+
+  it("leaves files edited since alone unless forced", () => {
+    fs.writeFileSync(path.join(root, "a.txt"), "v1\n");
+    const journal = writeChanges(root, [{ path: "a.txt", content: "v2\n" }]);
+    fs.writeFileSync(path.join(root, "a.txt"), "v3 by hand\n");
+
+    expect(undoChanges(journal)).toEqual({ restored: [], conflicts: ["a.txt"] });
+    expect(read("a.txt")).toBe("v3 by hand\n");
+    expect(loadJournal(journal.id).undone_at).toBeUndefined();
+
+    expect(undoChanges(journal, { force: true })).toEqual({ restored: ["a.txt"], conflicts: [] });
+    expect(read("a.txt")).toBe("v1\n");
+  });
+
+  it("restores binary files byte for byte", () => {
+    const binary = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x00, 0xff, 0xfe, 0x0a, 0x80]);
+    fs.writeFileSync(path.join(root, "logo.png"), binary);
+    const journal = writeChanges(root, [{ path: "logo.png", content: "replaced\n" }]);
+    expect(undoChanges(loadJournal(journal.id))).toEqual({ restored: ["logo.png"], conflicts: [] });
+    expect(fs.readFileSync(path.join(root, "logo.png")).equals(binary)).toBe(true);
+  });
+
+  it("still reads version 1 journals of utf-8 text", () => {
+    fs.writeFileSync(path.join(root, "a.txt"), "new\n");
+    fs.mkdirSync(CHANGES_DIR, { recursive: true });
+    const v1 = { version: 1, id: "v1", created_at: "2026-01-01T00:00:00Z", root, entries: [{ path: "a.txt", before: "old\n", after: "new\n" }] };
+    fs.writeFileSync(journalPath("v1-journal"), JSON.stringify(v1));
+    expect(undoChanges(loadJournal("v1-journal")).restored).toEqual(["a.txt"]);
+    expect(read("a.txt")).toBe("old\n");
+  });
+
+  it("lists journals newest first and rejects bad IDs", () => {
+    const older = writeChanges(root, [{ path: "a.txt", content: "a" }], {}, new Date("2026-01-01T00:00:00Z"));
+    const newer = writeChanges(root, [{ path: "b.txt", content: "b" }], {}, new Date("2026-02-01T00:00:00Z"));
+    const ids = listJournals().map((j) => j.id);
+    expect(ids.indexOf(newer.id)).toBeLessThan(ids.indexOf(older.id));
+    expect(() => loadJournal("../../etc/passwd")).toThrow("Invalid change journal ID");
+    expect(() => loadJournal("missing")).toThrow(`No change journal missing (looked in ${CHANGES_DIR})`);
+  });
+});
@@ -0,0 +1,151 @@
+import { describe, it, expect, vi } from "vitest";
+import fs from "node:fs";
+import path from "node:path";
+import {
+  BackendClassifier,
+  FallbackClassifier,
+  KeywordClassifier,
+  RulesClassifier,
+  configuredIntentClassifier,
+  createIntentClassifier,
+  findIntentRules,
+  parseClassifierReply,
+  parseIntentRules,
+} from "../src/cli/intent-backends.js";
+import { describeSignals } from "../src/cli/intent-classifier.js";
+import { NEXUS_HOME } from "../src/core/secrets.js";
+
+const RULES = `
+rules:
+  - match: "^(hotfix|fix)\\\\b"
+    mode: build
+  - match: "\\\\b(rfc|adr)\\\\b"
+    mode: PLAN
+    confidence: 0.9
+`;
+
+describe("parseIntentRules", () => {
+  it("reads case-insensitive patterns, modes and confidences", () => {
+    const rules = parseIntentRules(RULES);
+    expect(rules.map((r) => [r.pattern.source, r.mode, r.confidence])).toEqual([
+      ["^(hotfix|fix)\\b", "build", 1],
+      ["\\b(rfc|adr)\\b", "plan", 0.9],
+    ]);
+    expect(rules[0].pattern.test("Hotfix the login")).toBe(true);
+  });
+
+  it("names the rule that is malformed", () => {
+    expect(() => parseIntentRules("rules:\n  - mode: build\n")).toThrow(/rule 1 needs a "match"/);
+    expect(() => parseIntentRules("rules:\n  - match: x\n")).toThrow(/rule 1 needs a "mode"/);
+    expect(() => parseIntentRules("rules:\n  - match: x\n    mode: plan\n  - match: y\n    mode: ship\n")).toThrow(/rule 2 has mode "ship"/);
+    expect(() => parseIntentRules('rules:\n  - match: "("\n    mode: plan\n')).toThrow(/rule 1: Invalid regular expression/);
+    expect(() => parseIntentRules('rules:\n  - match: x\n    mode: plan\n    confidence: 2\n')).toThrow(/confidence outside/);
+    expect(() => parseIntentRules("modes: []\n")).toThrow(/top-level "rules" list/);
+  });
+});
+
+describe("RulesClassifier", () => {
+  const classifier = new RulesClassifier(parseIntentRules(RULES), new KeywordClassifier());
+
+  it("lets the first matching rule decide", async () => {
+    const result = await classifier.classify("write the ADR for caching");
+    expect(result).toMatchObject({ intent: "plan", confidence: 0.9, classifier: "rules" });
+    expect(describeSignals(result)).toBe("team rule /\\b(rfc|adr)\\b/");
+  });
+
+  it("falls back to keywords when no rule matches", async () => {
+    const result = await classifier.classify("brainstorm names for the project");
+    expect(result.intent).toBe("brainstorm");
+    expect(result.classifier).toBeUndefined();
+  });
+});
+
+describe("findIntentRules", () => {
+  it("prefers the repository's rules over the user's", () => {
+    const repo = fs.mkdtempSync(path.join(NEXUS_HOME, "repo-"));
+    fs.mkdirSync(path.join(repo, ".git"));
+    expect(findIntentRules(repo)).toBeNull();
+
+    fs.writeFileSync(path.join(NEXUS_HOME, "intent-rules.yaml"), RULES);
+    expect(findIntentRules(repo)).toBe(path.join(NEXUS_HOME, "intent-rules.yaml"));
+
+    fs.mkdirSync(path.join(repo, ".buildwithnexus"));
+    fs.writeFileSync(path.join(repo, ".buildwithnexus", "intent-rules.yaml"), RULES);
+    fs.mkdirSync(path.join(repo, "src"));
+    expect(findIntentRules(path.join(repo, "src"))).toBe(path.join(repo, ".buildwithnexus", "intent-rules.yaml"));
+    fs.rmSync(path.join(NEXUS_HOME, "intent-rules.yaml"));
+  });
+});
+
+describe("parseClassifierReply", () => {
+  it("reads the JSON answer, clamping the confidence", () => {
+    expect(parseClassifierReply('Sure!\n{"mode": "Brainstorm", "confidence": 1.4, "reason": "open-ended question"}')).toEqual({
+      intent: "brainstorm",
+      confidence: 1,
+      reason: "open-ended question",
+    });
+  });
+
+  it("accepts a bare mode name but not an ambiguous reply", () => {
+    expect(parseClassifierReply("build")).toEqual({ intent: "build", confidence: 0.5, reason: "" });
+    expect(() => parseClassifierReply("either plan or build")).toThrow(/did not name a mode/);
+  });
+});
+
+describe("BackendClassifier", () => {
+  it("asks the backend and explains with its reason", async () => {
+    const prompter = vi.fn(async () => '{"mode": "plan", "confidence": 0.8, "reason": "needs a design first"}');
+    const result = await new BackendClassifier(prompter).classify("add multi-tenant billing");
+    expect(prompter.mock.calls[0][0]).toContain("add multi-tenant billing");
+    expect(result).toMatchObject({ intent: "plan", confidence: 0.8, classifier: "backend" });
+    expect(describeSignals(result)).toBe("backend: needs a design first");
+  });
+
+  it("gives up and aborts the request after the timeout", async () => {
+    let aborted = false;
+    const prompter = (_prompt: string, signal: AbortSignal) =>
+      new Promise<string>(() => signal.addEventListener("abort", () => (aborted = true)));
+    await expect(new BackendClassifier(prompter, 20).classify("build it")).rejects.toThrow(/within/);
+    expect(aborted).toBe(true);
+  });
+});
+
+describe("FallbackClassifier", () => {
+  it("uses keywords, saying why, when the backend fails", async () => {
+    const offline = new BackendClassifier(async () => {
+      throw new Error("fetch failed");
+    });
+    const result = await new FallbackClassifier(offline, new KeywordClassifier()).classify("build the login page");
+    expect(result.intent).toBe("build");
+    expect(result.fallbackReason).toBe("backend classifier unavailable: fetch failed");
+  });
+});
+
+describe("configuredIntentClassifier", () => {
+  it("takes the environment over config.json, defaulting to keywords", () => {
+    expect(configuredIntentClassifier({}, undefined)).toBe("keywords");
+    expect(configuredIntentClassifier({}, "rules")).toBe("rules");
+    expect(configuredIntentClassifier({ NEXUS_INTENT_CLASSIFIER: "Backend" }, "rules")).toBe("backend");
+    expect(() => configuredIntentClassifier({ NEXUS_INTENT_CLASSIFIER: "magic" }, undefined)).toThrow(/Unknown intent classifier "magic"/);
+  });
+});
+
+describe("createIntentClassifier", () => {
+  it("falls back to keywords, with a warning, when the choice can't work", () => {
+    const warn = vi.fn();
+    expect(createIntentClassifier("rules", { rulesFile: null, warn })).toBeInstanceOf(KeywordClassifier);
+    expect(createIntentClassifier("backend", { warn })).toBeInstanceOf(KeywordClassifier);
+    expect(warn).toHaveBeenCalledTimes(2);
+
+    const broken = path.join(NEXUS_HOME, "broken-rules.yaml");
+    fs.writeFileSync(broken, "rules: nope\n");
+    expect(createIntentClassifier("rules", { rulesFile: broken, warn })).toBeInstanceOf(KeywordClassifier);
+    expect(warn).toHaveBeenLastCalledWith(expect.stringContaining("Ignoring the intent rules"));
+  });
+
+  it("wraps the backend classifier with a keyword fallback", () => {
+    const classifier = createIntentClassifier("backend", { prompter: async () => "plan" });
+    expect(classifier).toBeInstanceOf(FallbackClassifier);
+    expect(classifier.name).toBe("backend");
+  });
+});
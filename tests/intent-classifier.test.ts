@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { classifyIntent } from '../src/cli/intent-classifier.js';
+import { AUTO_SELECT_CONFIDENCE, analyzeIntent, classifyIntent, describeSignals, detectStages } from '../src/cli/intent-classifier.js';
 
 describe('classifyIntent', () => {
   it('classifies PLAN keywords: "design"', () => {
@@ -56,3 +56,109 @@ describe('classifyIntent', () => {
     expect(classifyIntent('recommend an approach for authentication')).toBe('brainstorm');
   });
 });
+
+describe('analyzeIntent', () => {
+  it('matches whole words, not substrings', () => {
+    expect(analyzeIntent('review the address book').signals).toEqual([]);
+    expect(analyzeIntent('remodel the kitchen').signals).toEqual([]);
+    expect(analyzeIntent('prune old branches').signals).toEqual([]);
+  });
+
+  it('matches regular inflections of keywords', () => {
+    const phrases = analyzeIntent('planning and running the fixed migrations').signals.map((s) => s.phrase);
+    expect(phrases).toEqual(expect.arrayContaining(['planning', 'running', 'fixed']));
+  });
+
+  it('lets a phrase claim its words before single keywords', () => {
+    const result = analyzeIntent('how can we speed up the tests');
+    expect(result.signals.map((s) => s.phrase)).toContain('how can');
+    expect(result.signals.map((s) => s.phrase)).not.toContain('how');
+  });
+
+  it('turns a negated build towards planning', () => {
+    const result = analyzeIntent("don't build yet");
+    expect(result.intent).toBe('plan');
+    expect(result.signals).toEqual([{ intent: 'plan', phrase: 'build', weight: 1, negated: true }]);
+  });
+
+  it('ends a negation at a clause break', () => {
+    expect(analyzeIntent("don't plan it, build it").intent).toBe('build');
+    expect(analyzeIntent('no need to plan, just add the button').intent).toBe('build');
+  });
+
+  it('detects questions by a question mark or an opening question word', () => {
+    expect(analyzeIntent('postgres or sqlite?').question).toBe(true);
+    expect(analyzeIntent('which queue library fits best').question).toBe(true);
+    expect(analyzeIntent('could you fix the login bug').question).toBe(false);
+    expect(analyzeIntent('could you fix the login bug').intent).toBe('build');
+  });
+
+  it('is confident when the signals agree and hedges when they conflict', () => {
+    const clear = analyzeIntent('build and implement the feature');
+    const mixed = analyzeIntent('help me understand this architecture');
+    expect(clear.confidence).toBeGreaterThanOrEqual(AUTO_SELECT_CONFIDENCE);
+    expect(mixed.confidence).toBeLessThan(AUTO_SELECT_CONFIDENCE);
+    expect(mixed.scores.plan).toBeGreaterThan(0);
+  });
+
+  it('has zero confidence when nothing matched', () => {
+    expect(analyzeIntent('do it')).toMatchObject({ intent: 'build', confidence: 0, signals: [] });
+  });
+
+  it('explains a result with its strongest signals', () => {
+    expect(describeSignals(analyzeIntent('build and implement the feature'))).toBe('"build", "implement"');
+    expect(describeSignals(analyzeIntent("don't build yet"))).toBe('"not build"');
+    expect(describeSignals(analyzeIntent('why is it slow'))).toBe('phrased as a question, "why"');
+    expect(describeSignals(analyzeIntent('do it'))).toBe('no keywords matched');
+  });
+});
+
+describe('detectStages', () => {
+  it('splits a sequenced task into brainstorm, plan and build stages', () => {
+    expect(detectStages('figure out the best caching approach, then design it and build it')).toEqual([
+      { intent: 'brainstorm', text: 'figure out the best caching approach' },
+      { intent: 'plan', text: 'design it' },
+      { intent: 'build', text: 'build it' },
+    ]);
+  });
+
+  it('understands "first … after that …" across sentences', () => {
+    expect(detectStages('First explore the options for auth. After that, implement it.')).toEqual([
+      { intent: 'brainstorm', text: 'explore the options for auth' },
+      { intent: 'build', text: 'implement it' },
+    ]);
+  });
+
+  it('keeps words without an intent with the stage around them', () => {
+    expect(detectStages('design the schema, the API and the UI, then build it')).toEqual([
+      { intent: 'plan', text: 'design the schema, the API and the UI' },
+      { intent: 'build', text: 'build it' },
+    ]);
+  });
+
+  it('treats one intent, however phrased, as a single stage', () => {
+    expect(detectStages('build and implement the feature')).toEqual([]);
+    expect(detectStages("don't build yet, just plan it")).toEqual([]);
+    expect(detectStages('design the system architecture')).toEqual([]);
+  });
+
+  it('only starts a stage where the task reads as a new step', () => {
+    expect(detectStages('Add a plan view and build the settings page')).toEqual([]);
+    expect(detectStages('write the design doc and build the page')).toEqual([]);
+    expect(detectStages('update the brainstorm notes, then deploy')).toEqual([]);
+    expect(detectStages("brainstorm names, then let's design the logo")).toEqual([
+      { intent: 'brainstorm', text: 'brainstorm names' },
+      { intent: 'plan', text: "let's design the logo" },
+    ]);
+  });
+
+  it('only accepts stages in pipeline order', () => {
+    expect(detectStages('fix the bug and explain why')).toEqual([]);
+    expect(detectStages('build the page, then plan the next release')).toEqual([]);
+  });
+
+  it('is reported by analyzeIntent for compound tasks only', () => {
+    expect(analyzeIntent('brainstorm names for the product, then plan the launch').stages?.map((s) => s.intent)).toEqual(['brainstorm', 'plan']);
+    expect(analyzeIntent('build the login page')).not.toHaveProperty('stages');
+  });
+});
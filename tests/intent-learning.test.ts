@@ -0,0 +1,128 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import fs from "node:fs";
+import {
+  INTENT_FEEDBACK_FILE,
+  IntentModel,
+  MIN_FEEDBACK_RECORDS,
+  intentFeatures,
+  intentStats,
+  loadIntentFeedback,
+  recordIntentFeedback,
+  resetIntentFeedback,
+  type IntentFeedback,
+} from "../src/cli/intent-learning.js";
+import { analyzeIntent, describeSignals, taskWords } from "../src/cli/intent-classifier.js";
+
+beforeEach(() => {
+  fs.rmSync(INTENT_FEEDBACK_FILE, { force: true });
+});
+
+function record(features: string[], suggested: IntentFeedback["suggested"], chosen: IntentFeedback["chosen"], at = "2026-03-04T10:00:00.000Z"): IntentFeedback {
+  return { version: 1, at, features, suggested, chosen, confidence: 0.5 };
+}
+
+describe("intentFeatures", () => {
+  it("keeps distinct words, dropping stopwords and numbers", () => {
+    expect(intentFeatures("Build the dashboard, the DASHBOARD for 2 teams")).toEqual(["build", "dashboard", "teams"]);
+  });
+
+  it("redacts secrets before taking words", () => {
+    const features = intentFeatures("deploy with key sk-ant-REDACTED");
+    expect(features.join(" ")).not.toContain("abcdefghijklmnopqrstuvwxyz0123456789");
+    expect(features).toContain("deploy");
+  });
+});
+
+describe("feedback log", () => {
+  it("appends records with owner-only permissions and reads them back", () => {
+    recordIntentFeedback("build the dashboard", "build", "brainstorm", 0.67);
+    recordIntentFeedback("plan the release", "plan", "plan", 0.8);
+
+    const records = loadIntentFeedback();
+    expect(records.map((r) => [r.suggested, r.chosen])).toEqual([["build", "brainstorm"], ["plan", "plan"]]);
+    expect(records[0].features).toEqual(["build", "dashboard"]);
+    expect(fs.statSync(INTENT_FEEDBACK_FILE).mode & 0o777).toBe(0o600);
+  });
+
+  it("skips malformed lines", () => {
+    recordIntentFeedback("build it", "build", "build", 0.6);
+    fs.appendFileSync(INTENT_FEEDBACK_FILE, "not json\n" + JSON.stringify({ version: 1, suggested: "ship" }) + "\n");
+    expect(loadIntentFeedback()).toHaveLength(1);
+  });
+
+  it("resets by deleting the log", () => {
+    recordIntentFeedback("build it", "build", "build", 0.6);
+    expect(resetIntentFeedback()).toBe(1);
+    expect(fs.existsSync(INTENT_FEEDBACK_FILE)).toBe(false);
+    expect(resetIntentFeedback()).toBe(0);
+  });
+});
+
+describe("IntentModel", () => {
+  const overrides = Array.from({ length: 8 }, () => record(["build", "dashboard"], "build", "brainstorm"));
+
+  it("stays quiet until enough choices are recorded", () => {
+    const model = IntentModel.fromFeedback(overrides.slice(0, MIN_FEEDBACK_RECORDS - 1));
+    expect(model.signals(taskWords("build the dashboard"))).toEqual([]);
+  });
+
+  it("favours the mode the user keeps choosing, naming the telling word", () => {
+    const model = IntentModel.fromFeedback([...overrides, record(["build", "api"], "build", "build"), record(["build", "cli"], "build", "build")]);
+    const [signal] = model.signals(taskWords("build the dashboard"));
+    expect(signal).toMatchObject({ intent: "brainstorm", phrase: "dashboard", source: "learned" });
+    expect(signal.weight).toBeGreaterThan(0);
+  });
+
+  it("ignores words it has never seen", () => {
+    const model = IntentModel.fromFeedback(overrides);
+    expect(model.posterior(["kubernetes"])).toBeNull();
+    expect(model.signals(["kubernetes"])).toEqual([]);
+  });
+
+  it("changes a suggestion once the user has overridden it often enough", () => {
+    expect(analyzeIntent("build the dashboard").intent).toBe("build");
+
+    const model = IntentModel.fromFeedback([
+      ...Array.from({ length: 12 }, () => record(["build", "dashboard"], "build", "brainstorm")),
+      ...Array.from({ length: 3 }, () => record(["build", "api"], "build", "build")),
+    ]);
+    const result = analyzeIntent("build the dashboard", model);
+    expect(result.intent).toBe("brainstorm");
+    expect(describeSignals(result)).toBe('your past choices ("dashboard")');
+  });
+
+  it("learns from choices made during the session", () => {
+    const model = new IntentModel();
+    for (let i = 0; i < MIN_FEEDBACK_RECORDS; i++) model.train(["roadmap", "q3"], "brainstorm");
+    expect(model.size).toBe(MIN_FEEDBACK_RECORDS);
+    expect(model.signals(["roadmap"])[0]?.intent).toBe("brainstorm");
+  });
+});
+
+describe("intentStats", () => {
+  it("counts kept suggestions overall, per week and per mode", () => {
+    const stats = intentStats([
+      record(["a"], "build", "build", "2026-03-02T09:00:00.000Z"),
+      record(["b"], "build", "plan", "2026-03-08T23:00:00.000Z"),
+      record(["c"], "plan", "plan", "2026-03-09T09:00:00.000Z"),
+    ]);
+    expect(stats).toMatchObject({ total: 3, accepted: 2 });
+    expect(stats.weeks).toEqual([
+      { week: "2026-03-02", total: 2, accepted: 1 },
+      { week: "2026-03-09", total: 1, accepted: 1 },
+    ]);
+    expect(stats.confusion.build).toEqual({ plan: 1, build: 1, brainstorm: 0 });
+    expect(stats.confusion.plan.plan).toBe(1);
+  });
+
+  it("counts auto-selected modes apart from prompted choices", () => {
+    recordIntentFeedback("build the login page", "build", "build", 0.9, { auto: true });
+    recordIntentFeedback("build the admin page", "build", "plan", 0.8, { auto: true });
+    const records = loadIntentFeedback();
+    expect(records.map((r) => r.auto)).toEqual([true, true]);
+
+    const stats = intentStats([...records, record(["c"], "plan", "plan")]);
+    expect(stats).toMatchObject({ total: 1, accepted: 1, autoSelected: 2, autoRejected: 1 });
+    expect(stats.confusion.build.plan).toBe(0);
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, it, expect, afterEach, vi } from "vitest";
+import { RunInterruptGuard, RunProgress, parseInterruptChoice, describeProgress } from "../src/cli/interrupt.js";
+import { DETACHED } from "../src/core/transcript.js";
+import type { NexusClient } from "../src/core/client.js";
+
+function fakeClient(interrupt = vi.fn(async () => {})) {
+  return { client: { interrupt } as unknown as NexusClient, interrupt };
+}
+
+let guard: RunInterruptGuard | null = null;
+
+afterEach(() => {
+  guard?.disarm();
+  guard = null;
+});
+
+async function pressCtrlC(g: RunInterruptGuard): Promise<void> {
+  process.emit("SIGINT");
+  await g.gate();
+}
+
+describe("parseInterruptChoice", () => {
+  it("maps answers to choices and defaults to keep watching", () => {
+    expect(parseInterruptChoice("a")).toBe("abort");
+    expect(parseInterruptChoice(" Detach ")).toBe("detach");
+    expect(parseInterruptChoice("")).toBe("watch");
+    expect(parseInterruptChoice("k")).toBe("watch");
+  });
+});
+
+describe("RunInterruptGuard", () => {
+  it("aborts the backend run and stops the stream when the user chooses abort", async () => {
+    const { client, interrupt } = fakeClient();
+    const lines: string[] = [];
+    guard = new RunInterruptGuard(client, "run_1", { ask: async () => "a", print: (l) => lines.push(l) }).arm();
+
+    await pressCtrlC(guard);
+
+    expect(interrupt).toHaveBeenCalledWith("run_1", "abort");
+    expect(guard.choice).toBe("abort");
+    expect(guard.signal.aborted).toBe(true);
+    expect(lines.join("\n")).toContain("acknowledged");
+  });
+
+  it("detaches without interrupting the backend", async () => {
+    const { client, interrupt } = fakeClient();
+    guard = new RunInterruptGuard(client, "run_1", { ask: async () => "d", print: () => {} }).arm();
+
+    await pressCtrlC(guard);
+
+    expect(interrupt).not.toHaveBeenCalled();
+    expect(guard.signal.reason).toBe(DETACHED);
+  });
+
+  it("keeps streaming when the user chooses to keep watching", async () => {
+    const { client, interrupt } = fakeClient();
+    guard = new RunInterruptGuard(client, "run_1", { ask: async () => "k", print: () => {} }).arm();
+
+    await pressCtrlC(guard);
+
+    expect(interrupt).not.toHaveBeenCalled();
+    expect(guard.choice).toBeNull();
+    expect(guard.signal.aborted).toBe(false);
+  });
+
+  it("aborts straight away when there is no terminal to ask on", async () => {
+    const { client, interrupt } = fakeClient();
+    guard = new RunInterruptGuard(client, "run_1", { print: () => {} }).arm();
+
+    await pressCtrlC(guard);
+
+    expect(interrupt).toHaveBeenCalledTimes(1);
+    expect(guard.choice).toBe("abort");
+  });
+
+  it("reports an unacknowledged abort", async () => {
+    const { client } = fakeClient(vi.fn(async () => {
+      throw new Error("HTTP 500");
+    }));
+    const lines: string[] = [];
+    guard = new RunInterruptGuard(client, "run_1", { print: (l) => lines.push(l) }).arm();
+
+    await pressCtrlC(guard);
+
+    expect(lines.join("\n")).toContain("runs cancel run_1");
+    expect(guard.signal.aborted).toBe(true);
+  });
+});
+
+describe("RunProgress", () => {
+  it("tracks completed and in-flight agent work", () => {
+    const progress = new RunProgress();
+    progress.record({ type: "agent_working", data: { agent: "Engineer", task: "write code" } });
+    progress.record({ type: "agent_working", data: { agent: "QA", task: "test it" } });
+    progress.record({ type: "agent_result", data: { agent: "Engineer", result: "code written" } });
+
+    expect(progress.completed).toEqual([{ agent: "Engineer", result: "code written" }]);
+    expect(progress.inProgress).toEqual([{ agent: "QA", task: "test it" }]);
+    expect(describeProgress(progress).join("\n")).toContain("code written");
+  });
+});
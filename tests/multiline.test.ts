@@ -0,0 +1,53 @@
+import { describe, it, expect } from "vitest";
+import { PassThrough } from "node:stream";
+import * as readline from "node:readline";
+import { TaskComposer, readTask, stripTaskTemplate, trackPastes } from "../src/cli/multiline.js";
+
+describe("TaskComposer", () => {
+  it("finishes a plain line immediately", () => {
+    expect(new TaskComposer().push("build a todo app")).toBe("build a todo app");
+  });
+
+  it("joins lines ending in a backslash", () => {
+    const composer = new TaskComposer();
+    expect(composer.push("first line\\")).toBeNull();
+    expect(composer.push("second line\\")).toBeNull();
+    expect(composer.push("third")).toBe("first line\nsecond line\nthird");
+  });
+
+  it('collects a """ block verbatim', () => {
+    const composer = new TaskComposer();
+    expect(composer.push('"""')).toBeNull();
+    expect(composer.push("Error: boom")).toBeNull();
+    expect(composer.push("    at main (app.ts:1)")).toBeNull();
+    expect(composer.push("")).toBeNull();
+    expect(composer.push(' """ ')).toBe("Error: boom\n    at main (app.ts:1)");
+  });
+
+  it("keeps pasted lines until the next typed Enter", () => {
+    const composer = new TaskComposer();
+    expect(composer.push("spec:", true)).toBeNull();
+    expect(composer.push("- fast", true)).toBeNull();
+    expect(composer.push("")).toBe("spec:\n- fast");
+  });
+});
+
+describe("stripTaskTemplate", () => {
+  it("removes the instructions comment", () => {
+    expect(stripTaskTemplate("<!--\n  help\n-->\n\n# Spec\nDo it\n")).toBe("# Spec\nDo it");
+    expect(stripTaskTemplate("<!-- help -->\n  \n")).toBe("");
+  });
+});
+
+describe("readTask", () => {
+  it("reads a bracketed paste as one task", async () => {
+    const input = new PassThrough();
+    const rl = readline.createInterface({ input, output: new PassThrough(), terminal: true });
+    const isPasting = trackPastes(input as unknown as NodeJS.ReadStream);
+
+    const task = readTask(rl, "> ", isPasting);
+    input.write("\x1b[200~line one\nline two\x1b[201~\r");
+    expect(await task).toBe("line one\nline two");
+    rl.close();
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { ModePipeline, offerPipeline, pipelineCheckpoint } from "../src/cli/pipeline.js";
+
+function answers(...replies: string[]) {
+  const queue = [...replies];
+  return vi.fn(async () => queue.shift() ?? "");
+}
+
+beforeEach(() => {
+  vi.spyOn(console, "log").mockImplementation(() => {});
+});
+
+const stages = [
+  { intent: "brainstorm" as const, text: "figure out the best caching approach" },
+  { intent: "plan" as const, text: "design it" },
+  { intent: "build" as const, text: "build it" },
+];
+
+describe("ModePipeline", () => {
+  it("runs the stages as modes, in order", () => {
+    const pipeline = new ModePipeline(stages);
+    expect(pipeline.modes).toEqual(["BRAINSTORM", "PLAN", "BUILD"]);
+    expect(pipeline.nextAfter("BRAINSTORM")).toBe("PLAN");
+    expect(pipeline.nextAfter("PLAN")).toBe("BUILD");
+    expect(pipeline.nextAfter("BUILD")).toBeUndefined();
+  });
+
+  it("gives each stage the task up to its own words", () => {
+    const task = "figure out the best caching approach, then design it and build it";
+    const pipeline = new ModePipeline(stages);
+    expect(pipeline.taskFor("BRAINSTORM", task)).toBe("figure out the best caching approach");
+    expect(pipeline.taskFor("PLAN", task)).toBe("figure out the best caching approach, then design it");
+    expect(pipeline.taskFor("BUILD", task)).toBe(task);
+  });
+
+  it("has no next stage for a mode it doesn't include", () => {
+    expect(new ModePipeline(stages.slice(0, 2)).nextAfter("BUILD")).toBeUndefined();
+  });
+});
+
+describe("offerPipeline", () => {
+  it("runs the pipeline only on an explicit yes", async () => {
+    const pipeline = new ModePipeline(stages);
+    expect(await offerPipeline(pipeline, answers("y"))).toBe(true);
+    expect(await offerPipeline(pipeline, answers(""))).toBe(false);
+    expect(await offerPipeline(pipeline, answers("m"))).toBe(false);
+  });
+});
+
+describe("pipelineCheckpoint", () => {
+  it("continues with the hand-off on Enter", async () => {
+    expect(await pipelineCheckpoint("BRAINSTORM", "PLAN", "Add an LRU cache", answers(""))).toEqual({
+      next: "continue",
+      task: "Add an LRU cache",
+    });
+  });
+
+  it("lets the hand-off be edited before continuing", async () => {
+    const ask = answers("e", "Add a Redis cache with a 5 minute TTL", "");
+    expect(await pipelineCheckpoint("BRAINSTORM", "PLAN", "Add a cache", ask)).toEqual({
+      next: "continue",
+      task: "Add a Redis cache with a 5 minute TTL",
+    });
+    expect(ask).toHaveBeenCalledTimes(3);
+  });
+
+  it("keeps the hand-off when the edit is left empty", async () => {
+    expect(await pipelineCheckpoint("BRAINSTORM", "BUILD", "Add a cache", answers("e", "  ", "c"))).toEqual({
+      next: "continue",
+      task: "Add a cache",
+    });
+  });
+
+  it("stops the pipeline on s", async () => {
+    expect(await pipelineCheckpoint("BRAINSTORM", "PLAN", "Add a cache", answers("s"))).toEqual({ next: "stop" });
+  });
+});
@@ -0,0 +1,95 @@
+import { describe, it, expect } from "vitest";
+import { PlanTracker, formatElapsed, stepElapsedMs } from "../src/core/plan-progress.js";
+import type { NexusEvent } from "../src/core/events.js";
+
+const STEPS = ["Design the database schema", "Implement the REST API", "Write integration tests"];
+
+const working = (agent: string, task: string, step_index?: number): NexusEvent => ({
+  type: "agent_working",
+  data: { agent, task, ...(step_index !== undefined ? { step_index } : {}) },
+});
+const result = (agent: string, step_index?: number): NexusEvent => ({
+  type: "agent_result",
+  data: { agent, result: "ok", ...(step_index !== undefined ? { step_index } : {}) },
+});
+
+const states = (tracker: PlanTracker) => tracker.steps.map((s) => s.state);
+
+describe("PlanTracker", () => {
+  it("moves steps through pending, active and done with timings", () => {
+    const tracker = new PlanTracker(STEPS);
+    expect(states(tracker)).toEqual(["pending", "pending", "pending"]);
+
+    expect(tracker.apply(working("Engineer", "Design the database schema"), 1_000)).toBe(true);
+    expect(states(tracker)).toEqual(["active", "pending", "pending"]);
+    expect(tracker.steps[0].agent).toBe("Engineer");
+
+    expect(tracker.apply(result("Engineer"), 43_000)).toBe(true);
+    expect(states(tracker)).toEqual(["done", "pending", "pending"]);
+    expect(stepElapsedMs(tracker.steps[0])).toBe(42_000);
+  });
+
+  it("prefers an explicit step index", () => {
+    const tracker = new PlanTracker(STEPS);
+    tracker.apply(working("QA", "Design the database schema", 2));
+    expect(states(tracker)).toEqual(["pending", "pending", "active"]);
+    tracker.apply(result("Someone else", 2));
+    expect(states(tracker)).toEqual(["pending", "pending", "done"]);
+  });
+
+  it("matches agent tasks to steps by wording, falling back to plan order", () => {
+    const tracker = new PlanTracker(STEPS);
+    tracker.apply(working("QA", "writing integration tests for the API"));
+    expect(states(tracker)).toEqual(["pending", "pending", "active"]);
+    tracker.apply(working("Engineer", "getting started"));
+    expect(states(tracker)).toEqual(["active", "pending", "active"]);
+
+    // Results follow the step each agent was working on
+    tracker.apply(result("QA"));
+    expect(states(tracker)).toEqual(["active", "pending", "done"]);
+  });
+
+  it("activates steps named by progress events", () => {
+    const tracker = new PlanTracker(STEPS);
+    expect(tracker.apply({ type: "progress", data: { content: "Step 2: wiring routes" } })).toBe(true);
+    expect(tracker.apply({ type: "progress", data: { content: "Step 2: still wiring" } })).toBe(false);
+    expect(tracker.apply({ type: "progress", data: { content: "halfway", step_index: 0 } })).toBe(true);
+    expect(tracker.apply({ type: "progress", data: { content: "Step 9 of nothing" } })).toBe(false);
+    expect(states(tracker)).toEqual(["active", "active", "pending"]);
+  });
+
+  it("finishes earlier steps when progress moves on to a later one", () => {
+    const tracker = new PlanTracker(STEPS);
+    tracker.apply({ type: "progress", data: { content: "Step 1: schema" } }, 1_000);
+    expect(tracker.apply({ type: "progress", data: { content: "Step 2: routes" } }, 4_000)).toBe(true);
+    expect(states(tracker)).toEqual(["done", "active", "pending"]);
+    expect(stepElapsedMs(tracker.steps[0], 60_000)).toBe(3_000);
+  });
+
+  it("fails active steps on error and completes them on done", () => {
+    const failing = new PlanTracker(STEPS);
+    failing.apply(working("Engineer", "Implement the REST API"));
+    failing.apply({ type: "error", data: { error: "boom" } });
+    expect(states(failing)).toEqual(["pending", "error", "pending"]);
+
+    const finishing = new PlanTracker(STEPS);
+    finishing.apply(working("Engineer", "Implement the REST API"));
+    finishing.apply({ type: "done", data: {} });
+    expect(states(finishing)).toEqual(["pending", "done", "pending"]);
+  });
+
+  it("ignores events until it has a plan", () => {
+    const tracker = new PlanTracker();
+    expect(tracker.apply(working("Engineer", "anything"))).toBe(false);
+    tracker.reset(["Only step"]);
+    expect(tracker.apply(working("Engineer", "anything"))).toBe(true);
+  });
+});
+
+describe("formatElapsed", () => {
+  it("formats seconds, minutes and hours", () => {
+    expect(formatElapsed(4_400)).toBe("4s");
+    expect(formatElapsed(102_000)).toBe("1m 42s");
+    expect(formatElapsed(3_900_000)).toBe("1h 5m");
+  });
+});
@@ -0,0 +1,220 @@
+import { describe, it, expect } from "vitest";
+import {
+  PLAN_FILE_VERSION,
+  PlanEditor,
+  approvalSteps,
+  diffPlan,
+  parsePlan,
+  planChanged,
+  planFormatFromPath,
+  planFromMarkdown,
+  planToMarkdown,
+  serializePlan,
+  stepsFromTexts,
+  toRunSteps,
+  type PlanDocument,
+} from "../src/core/plan.js";
+import { parsePlanCommand } from "../src/cli/plan-editor.js";
+
+const texts = (editor: PlanEditor) => editor.steps.map((s) => s.text);
+
+describe("PlanEditor", () => {
+  it("edits, inserts, removes and moves steps", () => {
+    const editor = new PlanEditor(stepsFromTexts(["a", "b", "c"]));
+    editor.edit(0, " A ");
+    editor.insert(1, "x");
+    editor.insert(4, "end");
+    editor.remove(2);
+    editor.move(3, 0);
+    expect(texts(editor)).toEqual(["end", "A", "x", "c"]);
+  });
+
+  it("splits a step, keeping its status and note on the first part", () => {
+    const editor = new PlanEditor(stepsFromTexts(["a"]));
+    editor.toggle(0, "needs-approval");
+    editor.setNote(0, "careful");
+    editor.split(0, ["first", " ", "second"]);
+    expect(editor.steps).toEqual([
+      { text: "first", status: "needs-approval", note: "careful" },
+      { text: "second", status: "run" },
+    ]);
+    expect(() => editor.split(0, ["only"])).toThrow(RangeError);
+  });
+
+  it("toggles statuses and clears notes", () => {
+    const editor = new PlanEditor(stepsFromTexts(["a"]));
+    editor.toggle(0, "skip");
+    expect(editor.steps[0].status).toBe("skip");
+    editor.toggle(0, "needs-approval");
+    expect(editor.steps[0].status).toBe("needs-approval");
+    editor.toggle(0, "needs-approval");
+    expect(editor.steps[0].status).toBe("run");
+    editor.setNote(0, "n");
+    editor.setNote(0, "  ");
+    expect(editor.steps[0]).not.toHaveProperty("note");
+  });
+
+  it("rejects bad indices and empty text without recording history", () => {
+    const editor = new PlanEditor(stepsFromTexts(["a"]));
+    expect(() => editor.edit(1, "x")).toThrow("Step must be between 1 and 1");
+    expect(() => editor.insert(3, "x")).toThrow(RangeError);
+    expect(() => editor.edit(0, "   ")).toThrow("Step text cannot be empty");
+    expect(editor.canUndo).toBe(false);
+  });
+
+  it("undoes changes in reverse order", () => {
+    const editor = new PlanEditor(stepsFromTexts(["a", "b"]));
+    editor.remove(0);
+    editor.edit(0, "B");
+    expect(editor.undo()).toBe(true);
+    expect(texts(editor)).toEqual(["b"]);
+    expect(editor.undo()).toBe(true);
+    expect(texts(editor)).toEqual(["a", "b"]);
+    expect(editor.undo()).toBe(false);
+  });
+
+  it("does not share step objects with its input", () => {
+    const input = stepsFromTexts(["a"]);
+    const editor = new PlanEditor(input);
+    editor.edit(0, "changed");
+    expect(input[0].text).toBe("a");
+  });
+});
+
+describe("toRunSteps", () => {
+  it("drops skipped steps and folds flags and notes into the text", () => {
+    expect(toRunSteps([
+      { text: "one", status: "run" },
+      { text: "two", status: "skip" },
+      { text: "three", status: "needs-approval", note: "ask first" },
+    ])).toEqual(["one", "[needs approval] three (note: ask first)"]);
+  });
+
+  it("finds the run steps held for approval from their status, not their text", () => {
+    expect(approvalSteps([
+      { text: "one", status: "needs-approval" },
+      { text: "two", status: "skip" },
+      { text: "[needs approval] three", status: "run" },
+      { text: "four", status: "needs-approval" },
+    ])).toEqual([0, 2]);
+  });
+});
+
+describe("markdown checklist", () => {
+  it("round-trips statuses and notes", () => {
+    const steps = [
+      { text: "Set up the schema", status: "run" as const },
+      { text: "Seed data", status: "skip" as const, note: "not needed yet" },
+      { text: "Deploy", status: "needs-approval" as const },
+    ];
+    const markdown = planToMarkdown("Build an\napp", steps);
+    expect(markdown.startsWith("# Plan: Build an app\n")).toBe(true);
+    expect(planFromMarkdown(markdown)).toEqual(steps);
+  });
+
+  it("ignores prose and accepts plain bullets", () => {
+    const markdown = "# Title\n\nSome prose.\n- plain step\n* [x] done-looking step\n  > a note\n- [ ]   \n";
+    expect(planFromMarkdown(markdown)).toEqual([
+      { text: "plain step", status: "run" },
+      { text: "done-looking step", status: "run", note: "a note" },
+    ]);
+  });
+});
+
+describe("diffPlan", () => {
+  it("reports unchanged plans as same", () => {
+    expect(planChanged(["a", "b"], stepsFromTexts(["a", "b"]))).toBe(false);
+  });
+
+  it("reports added, removed and changed steps", () => {
+    const edited = [
+      { text: "a", status: "skip" as const },
+      { text: "new", status: "run" as const },
+      { text: "c", status: "run" as const },
+    ];
+    expect(diffPlan(["a", "b", "c"], edited)).toEqual([
+      { kind: "changed", step: edited[0] },
+      { kind: "added", step: edited[1] },
+      { kind: "removed", text: "b" },
+      { kind: "same", text: "c" },
+    ]);
+  });
+});
+
+describe("parsePlanCommand", () => {
+  it("parses step commands with 1-based numbers", () => {
+    expect(parsePlanCommand("2 new text")).toEqual({ kind: "edit", step: 2, text: "new text" });
+    expect(parsePlanCommand("i 1 first")).toEqual({ kind: "insert", step: 1, text: "first" });
+    expect(parsePlanCommand("m 3 1")).toEqual({ kind: "move", from: 3, to: 1 });
+    expect(parsePlanCommand("split 2 write | test")).toEqual({ kind: "split", step: 2, parts: ["write", "test"] });
+    expect(parsePlanCommand("approve 4")).toEqual({ kind: "approval", step: 4 });
+    expect(parsePlanCommand("note 1 keep it small")).toEqual({ kind: "note", step: 1, text: "keep it small" });
+  });
+
+  it("finishes on Enter and rejects malformed commands", () => {
+    expect(parsePlanCommand("")).toEqual({ kind: "done" });
+    expect(parsePlanCommand("d")).toMatchObject({ kind: "invalid" });
+    expect(parsePlanCommand("m 1")).toMatchObject({ kind: "invalid" });
+    expect(parsePlanCommand("frobnicate")).toMatchObject({ kind: "invalid" });
+  });
+});
+
+describe("plan files", () => {
+  const doc: PlanDocument = {
+    version: PLAN_FILE_VERSION,
+    task: "Add a login page",
+    created_at: "2026-01-02T03:04:05.000Z",
+    cli_version: "0.8.10",
+    backend_url: "http://localhost:4200",
+    backend_version: "2.4.1",
+    source_run_id: "run_1",
+    steps: [
+      { text: "Design the form", status: "run" },
+      { text: "Add OAuth", status: "skip", note: "later" },
+      { text: "Deploy", status: "needs-approval" },
+    ],
+  };
+
+  it("picks the format from the extension", () => {
+    expect(planFormatFromPath("plan.md")).toBe("md");
+    expect(planFormatFromPath("plans/plan.YML")).toBe("yaml");
+    expect(() => planFormatFromPath("plan.json")).toThrow("use a .md or .yaml extension");
+  });
+
+  it.each(["md", "yaml"] as const)("round-trips a %s plan with its metadata", (format) => {
+    expect(parsePlan(serializePlan(doc, format), format)).toEqual(doc);
+  });
+
+  it("omits the default status from YAML steps and accepts bare strings", () => {
+    const yaml = serializePlan(doc, "yaml");
+    expect(yaml).toContain("- text: Design the form\n");
+    expect(yaml).not.toContain("status: run");
+
+    const parsed = parsePlan("task: Ship it\nsteps:\n  - Write code\n  - text: Test\n    status: skip\n", "yaml");
+    expect(parsed.steps).toEqual([
+      { text: "Write code", status: "run" },
+      { text: "Test", status: "skip" },
+    ]);
+    expect(parsed.backend_version).toBeNull();
+  });
+
+  it("reads a hand-written markdown checklist without front matter", () => {
+    const parsed = parsePlan("# Plan: Ship it\n\n- [ ] Write code\n- [?] Release\n", "md");
+    expect(parsed.task).toBe("Ship it");
+    expect(parsed.steps.map((s) => s.status)).toEqual(["run", "needs-approval"]);
+  });
+
+  it("redacts secrets when writing", () => {
+    const secret = "sk-ant-api03-" + "a".repeat(40);
+    const text = serializePlan({ ...doc, task: `Use key ${secret}` }, "yaml");
+    expect(text).not.toContain(secret);
+  });
+
+  it("rejects malformed plans", () => {
+    expect(() => parsePlan("steps: []\n", "yaml")).toThrow("missing the task");
+    expect(() => parsePlan("task: x\nsteps: []\n", "yaml")).toThrow("no steps");
+    expect(() => parsePlan("task: x\nsteps:\n  - text: a\n    status: maybe\n", "yaml")).toThrow('unknown status "maybe"');
+    expect(() => parsePlan("- just a list\n", "yaml")).toThrow("Invalid plan file");
+    expect(() => parsePlan(`version: ${PLAN_FILE_VERSION + 1}\ntask: x\nsteps: [a]\n`, "yaml")).toThrow("newer than this CLI");
+  });
+});
@@ -0,0 +1,44 @@
+import { describe, it, expect } from "vitest";
+import { serializeEvent, serializeRunDocument, wireEvent, RUN_EXIT_CODES } from "../src/cli/run-output.js";
+
+describe("serializeEvent", () => {
+  it("emits the backend event name and full payload on one line", () => {
+    const content = "x".repeat(300);
+    const line = serializeEvent({ type: "thought", data: { content } });
+    expect(line).not.toContain("\n");
+    expect(JSON.parse(line)).toEqual({ type: "thought", data: { content } });
+  });
+
+  it("keeps the original name of unknown events", () => {
+    expect(wireEvent({ type: "unknown", name: "custom_thing", data: { x: 1 } })).toEqual({
+      type: "custom_thing",
+      data: { x: 1 },
+    });
+  });
+
+  it("redacts secrets", () => {
+    const line = serializeEvent({ type: "thought", data: { content: "key sk-ant-REDACTED" } });
+    expect(line).toContain("[REDACTED]");
+    expect(line).not.toContain("sk-ant-api03");
+  });
+});
+
+describe("serializeRunDocument", () => {
+  it("produces parseable JSON with secrets redacted", () => {
+    const doc = JSON.parse(serializeRunDocument({
+      run_id: "run_1",
+      status: "done",
+      summary: "used sk-abcdefghijklmnopqrstuvwxyz",
+      todos_completed: 2,
+      duration_ms: 1500,
+      events: [{ type: "done", data: {} }],
+    }));
+    expect(doc).toMatchObject({ run_id: "run_1", status: "done", todos_completed: 2, summary: "used [REDACTED]" });
+  });
+});
+
+describe("RUN_EXIT_CODES", () => {
+  it("distinguishes done, error and interrupted", () => {
+    expect(RUN_EXIT_CODES).toEqual({ done: 0, error: 1, interrupted: 130 });
+  });
+});
@@ -0,0 +1,14 @@
+// Runs before each test file: point NEXUS_HOME (read by src/core/secrets.ts
+// at import) at a fresh temporary directory, so no test reads or writes the
+// real ~/.buildwithnexus.
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { afterAll } from "vitest";
+
+const home = fs.mkdtempSync(path.join(os.tmpdir(), "nexus-test-home-"));
+process.env.NEXUS_HOME = home;
+
+afterAll(() => {
+  fs.rmSync(home, { recursive: true, force: true });
+});
@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { parseSSEStream } from '../src/core/sse-parser.js';
+import { parseSSEStream, SSEDecoder } from '../src/core/sse-parser.js';
 
 /** Build a mock ReadableStreamDefaultReader from an array of text chunks. */
 function makeReader(chunks: string[]): ReadableStreamDefaultReader<Uint8Array> {
@@ -35,9 +35,9 @@ describe('parseSSEStream', () => {
     expect(events[0].data).toEqual({ text: 'hello' });
   });
 
-  it('handles multi-line events in sequence', async () => {
+  it('handles multiple events in sequence', async () => {
     const reader = makeReader([
-      'data: {"type":"start","data":{}}\ndata: {"type":"end","data":{}}\n',
+      'data: {"type":"start","data":{}}\n\ndata: {"type":"end","data":{}}\n\n',
     ]);
     const events = await collect(reader);
     expect(events).toHaveLength(2);
@@ -47,7 +47,7 @@ describe('parseSSEStream', () => {
 
   it('silently swallows JSON parse errors', async () => {
     const reader = makeReader([
-      'data: NOT_VALID_JSON\ndata: {"type":"ok","data":{}}\n',
+      'data: NOT_VALID_JSON\n\ndata: {"type":"ok","data":{}}\n\n',
     ]);
     const events = await collect(reader);
     // malformed line is skipped, valid line is yielded
@@ -75,21 +75,97 @@ describe('parseSSEStream', () => {
 
   it('handles multiple events in sequence across chunks', async () => {
     const reader = makeReader([
-      'data: {"type":"a","data":{"n":1}}\n',
-      'data: {"type":"b","data":{"n":2}}\n',
-      'data: {"type":"c","data":{"n":3}}\n',
+      'data: {"type":"a","data":{"n":1}}\n\n',
+      'data: {"type":"b","data":{"n":2}}\n\n',
+      'data: {"type":"c","data":{"n":3}}\n\n',
     ]);
     const events = await collect(reader);
     expect(events).toHaveLength(3);
     expect(events.map(e => e.type)).toEqual(['a', 'b', 'c']);
   });
 
-  it('ignores lines that do not start with "data: "', async () => {
+  it('yields the event name and id alongside the payload', async () => {
     const reader = makeReader([
-      'event: ping\nid: 1\ndata: {"type":"ping","data":{}}\n',
+      'event: ping\nid: 1\ndata: {"type":"ping","data":{}}\n\n',
     ]);
     const events = await collect(reader);
+    expect(events).toEqual([{ type: 'ping', data: {}, event: 'ping', id: '1' }]);
+  });
+
+  it('carries the last id forward to later events', async () => {
+    const reader = makeReader([
+      'data: {"type":"a","data":{}}\n\n',
+      'id: 7\ndata: {"type":"b","data":{}}\n\n',
+      'data: {"type":"c","data":{}}\n\n',
+    ]);
+    const events = await collect(reader);
+    expect(events.map(e => e.id)).toEqual([undefined, '7', '7']);
+  });
+
+  it('concatenates multi-line data fields', async () => {
+    const reader = makeReader([
+      'data: {"type":"multi",\ndata: "data":{"n":1}}\n\n',
+    ]);
+    const events = await collect(reader);
+    expect(events).toHaveLength(1);
+    expect(events[0].data).toEqual({ n: 1 });
+  });
+
+  it('handles CRLF line endings, including a CRLF split across chunks', async () => {
+    const reader = makeReader([
+      'data: {"type":"a","data":{}}\r',
+      '\n\r\ndata: {"type":"b","data":{}}\r\n\r\n',
+    ]);
+    const events = await collect(reader);
+    expect(events.map(e => e.type)).toEqual(['a', 'b']);
+  });
+
+  it('accepts data: without a trailing space', async () => {
+    const reader = makeReader(['data:{"type":"tight","data":{}}\n\n']);
+    const events = await collect(reader);
+    expect(events[0].type).toBe('tight');
+  });
+
+  it('ignores comment keepalives', async () => {
+    const reader = makeReader([': keepalive\n\n: ping\ndata: {"type":"ok","data":{}}\n\n']);
+    const events = await collect(reader);
     expect(events).toHaveLength(1);
-    expect(events[0].type).toBe('ping');
+    expect(events[0].type).toBe('ok');
+  });
+
+  it('uses the event name as the type for standard frames', async () => {
+    const reader = makeReader([
+      'event: plan\ndata: {"steps":["a"]}\n\n',
+      'event: thought\ndata: considering options\n\n',
+    ]);
+    const events = await collect(reader);
+    expect(events[0]).toMatchObject({ type: 'plan', data: { steps: ['a'] } });
+    expect(events[1]).toMatchObject({ type: 'thought', data: { content: 'considering options' } });
+  });
+
+  it('reports the retry: interval', async () => {
+    const reader = makeReader(['retry: 5000\n\ndata: {"type":"a","data":{}}\n\n']);
+    const events = await collect(reader);
+    expect(events[0].retry).toBe(5000);
+  });
+});
+
+describe('SSEDecoder', () => {
+  it('dispatches only on a blank line', () => {
+    const decoder = new SSEDecoder();
+    expect(decoder.push('data: one\n')).toEqual([]);
+    expect(decoder.push('\n')).toEqual([{ event: 'message', data: 'one' }]);
+  });
+
+  it('does not dispatch events without data', () => {
+    const decoder = new SSEDecoder();
+    expect(decoder.push('event: empty\nid: 3\n\n')).toEqual([]);
+    expect(decoder.push('data: x\n\n')).toEqual([{ event: 'message', data: 'x', id: '3' }]);
+  });
+
+  it('flushes an unterminated event at end of stream', () => {
+    const decoder = new SSEDecoder();
+    decoder.push('data: tail');
+    expect(decoder.end()).toEqual([{ event: 'message', data: 'tail' }]);
   });
 });
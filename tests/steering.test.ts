@@ -0,0 +1,126 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { RunSteering, dueForApproval, parseSteeringInput } from "../src/cli/steering.js";
+import type { StepProgress } from "../src/core/plan-progress.js";
+import type { NexusClient } from "../src/core/client.js";
+
+beforeEach(() => {
+  vi.spyOn(console, "log").mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("parseSteeringInput", () => {
+  it("parses pause, resume and redirect", () => {
+    expect(parseSteeringInput("/pause")).toEqual({ kind: "pause" });
+    expect(parseSteeringInput(" /RESUME ")).toEqual({ kind: "resume" });
+    expect(parseSteeringInput("/redirect use Postgres instead of SQLite")).toEqual({
+      kind: "redirect",
+      message: "use Postgres instead of SQLite",
+    });
+  });
+
+  it("ignores blank lines and rejects everything else", () => {
+    expect(parseSteeringInput("   ")).toBeNull();
+    expect(parseSteeringInput("/redirect")).toMatchObject({ kind: "invalid" });
+    expect(parseSteeringInput("/explode")).toMatchObject({ kind: "invalid" });
+    expect(parseSteeringInput("use Postgres")).toMatchObject({ kind: "invalid" });
+  });
+});
+
+describe("RunSteering", () => {
+  function setup(interrupt = vi.fn(async () => {})) {
+    const steering = new RunSteering({ interrupt } as unknown as NexusClient, "run_1");
+    return { steering, interrupt };
+  }
+
+  it("sends pause, resume and redirect interrupts and tracks the paused state", async () => {
+    const { steering, interrupt } = setup();
+
+    await steering.handle("/pause");
+    expect(steering.paused).toBe(true);
+    await steering.handle("/redirect use Postgres");
+    await steering.handle("/resume");
+    expect(steering.paused).toBe(false);
+
+    expect(interrupt.mock.calls).toEqual([
+      ["run_1", "pause", undefined],
+      ["run_1", "redirect", "use Postgres"],
+      ["run_1", "resume", undefined],
+    ]);
+  });
+
+  it("does not send redundant pause or resume interrupts", async () => {
+    const { steering, interrupt } = setup();
+    await steering.handle("/resume");
+    await steering.handle("/pause");
+    await steering.handle("/pause");
+    expect(interrupt).toHaveBeenCalledTimes(1);
+  });
+
+  it("keeps the previous state when the backend rejects the interrupt", async () => {
+    const { steering } = setup(vi.fn(async () => {
+      throw new Error("HTTP 400");
+    }));
+    await steering.handle("/pause");
+    expect(steering.paused).toBe(false);
+  });
+
+  it("handles typed lines in order", async () => {
+    const { steering, interrupt } = setup();
+    let emit: (line: string) => void = () => {};
+    const stop = steering.listen((listener) => {
+      emit = listener;
+      return () => {};
+    });
+
+    emit("/pause");
+    emit("/resume");
+    await steering.settled();
+    stop();
+
+    expect(interrupt.mock.calls.map((c) => c[1])).toEqual(["pause", "resume"]);
+  });
+});
+
+describe("holding steps for approval", () => {
+  function setup() {
+    const interrupt = vi.fn(async () => {});
+    const steering = new RunSteering({ interrupt } as unknown as NexusClient, "run_1");
+    return { steering, interrupt };
+  }
+
+  it("returns each flagged step once, when it becomes active", () => {
+    const steps = (...states: StepProgress["state"][]) => states.map((state) => ({ text: "x", state }));
+    const pending = new Set([1, 2]);
+    expect(dueForApproval(steps("active", "pending", "pending"), pending)).toBeNull();
+    expect(dueForApproval(steps("done", "active", "pending"), pending)).toBe(1);
+    expect(dueForApproval(steps("done", "active", "pending"), pending)).toBeNull();
+    expect(dueForApproval(steps("done", "done", "done"), pending)).toBeNull();
+    expect(pending.size).toBe(0);
+  });
+
+  it("pauses the run until the step is approved, then resumes it", async () => {
+    const { steering, interrupt } = setup();
+    const ask = vi.fn().mockResolvedValueOnce("").mockResolvedValueOnce("y");
+    await expect(steering.holdForApproval(2, "[needs approval] Deploy", ask)).resolves.toBe(true);
+    expect(ask).toHaveBeenCalledTimes(2);
+    expect(interrupt.mock.calls.map((c) => c[1])).toEqual(["pause", "resume"]);
+    expect(steering.paused).toBe(false);
+  });
+
+  it("aborts the run when the step is declined", async () => {
+    const { steering, interrupt } = setup();
+    await expect(steering.holdForApproval(0, "Deploy", async () => "n")).resolves.toBe(false);
+    expect(interrupt.mock.calls.map((c) => c[1])).toEqual(["pause", "abort"]);
+  });
+
+  it("leaves a pause the user asked for in place", async () => {
+    const { steering, interrupt } = setup();
+    await steering.handle("/pause");
+    await steering.holdForApproval(0, "Deploy", async () => "y");
+    expect(interrupt.mock.calls.map((c) => c[1])).toEqual(["pause"]);
+    expect(steering.paused).toBe(true);
+  });
+});
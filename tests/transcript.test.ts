@@ -0,0 +1,118 @@
+import { describe, it, expect } from "vitest";
+import fs from "node:fs";
+import path from "node:path";
+import { TranscriptWriter, readTranscript, listTranscripts, transcriptPath, RUNS_DIR, DETACHED } from "../src/core/transcript.js";
+import type { NexusEvent } from "../src/core/events.js";
+
+async function* events(list: NexusEvent[], failWith?: Error): AsyncGenerator<NexusEvent> {
+  for (const event of list) yield event;
+  if (failWith) throw failWith;
+}
+
+describe("TranscriptWriter", () => {
+  it("records metadata, events and the inferred end status", async () => {
+    const writer = TranscriptWriter.start({ run_id: "run_a", task: "build it", mode: "BUILD", backend_url: "http://localhost:4200" });
+    const seen: string[] = [];
+    for await (const event of writer.tee(events([
+      { type: "thought", data: { content: "hmm" } },
+      { type: "custom_thing", data: { x: 1 } } as unknown as NexusEvent,
+      { type: "done", data: { summary: "ok" } },
+    ]))) {
+      seen.push(event.type);
+    }
+
+    expect(seen).toEqual(["thought", "custom_thing", "done"]);
+    const transcript = readTranscript("run_a");
+    expect(transcript.meta).toMatchObject({ run_id: "run_a", task: "build it", mode: "BUILD" });
+    expect(transcript.events.map((e) => e.event.type)).toEqual(["thought", "unknown", "done"]);
+    expect(transcript.end?.status).toBe("done");
+  });
+
+  it("redacts secrets before writing", async () => {
+    const writer = TranscriptWriter.start({ run_id: "run_b", task: "use sk-ant-REDACTED", mode: "RUN", backend_url: "http://localhost:4200" });
+    writer.record({ type: "thought", data: { content: "sk-abcdefghijklmnopqrstuvwxyz" } });
+    writer.finish();
+
+    const raw = fs.readFileSync(path.join(RUNS_DIR, "run_b.jsonl"), "utf-8");
+    expect(raw).not.toContain("sk-");
+    expect(raw).toContain("[REDACTED]");
+  });
+
+  it("marks runs that stop early as incomplete and failures after abort as interrupted", async () => {
+    const early = TranscriptWriter.start({ run_id: "run_c", task: "t", mode: "BUILD", backend_url: "u" });
+    for await (const _ of early.tee(events([{ type: "plan", data: { steps: ["a"] } }, { type: "done", data: {} }]))) break;
+    expect(readTranscript("run_c").end?.status).toBe("incomplete");
+
+    const controller = new AbortController();
+    controller.abort();
+    const aborted = TranscriptWriter.start({ run_id: "run_d", task: "t", mode: "RUN", backend_url: "u" });
+    const drain = async () => {
+      for await (const _ of aborted.tee(events([], new Error("aborted")), controller.signal)) { /* drain */ }
+    };
+    await expect(drain()).rejects.toThrow("aborted");
+    expect(readTranscript("run_d").end?.status).toBe("interrupted");
+
+    const detach = new AbortController();
+    const detached = TranscriptWriter.start({ run_id: "run_f", task: "t", mode: "BUILD", backend_url: "u" });
+    for await (const _ of detached.tee(events([{ type: "thought", data: {} }]), detach.signal)) detach.abort(DETACHED);
+    expect(readTranscript("run_f").end?.status).toBe("detached");
+  });
+
+  it("records plan and brainstorm runs that stop at their outcome as done", async () => {
+    const planning = TranscriptWriter.start({ run_id: "run_g", task: "t", mode: "PLAN", backend_url: "u" });
+    for await (const event of planning.tee(events([{ type: "thought", data: {} }, { type: "plan", data: { steps: ["a"] } }]))) {
+      if (event.type === "plan") break;
+    }
+    expect(readTranscript("run_g").end?.status).toBe("done");
+
+    const turn = TranscriptWriter.start({ run_id: "run_i", task: "t", mode: "BRAINSTORM", backend_url: "u" });
+    for await (const event of turn.tee(events([{ type: "final_result", data: { result: "idea" } }]))) {
+      if (event.type === "final_result") break;
+    }
+    expect(readTranscript("run_i").end?.status).toBe("done");
+  });
+
+  it("continues an existing transcript without a second metadata line", async () => {
+    const first = TranscriptWriter.start({ run_id: "run_h", task: "build it", mode: "BUILD", backend_url: "u" });
+    first.record({ type: "thought", data: { content: "one" } });
+    first.finish("detached");
+    const startedAt = readTranscript("run_h").meta.started_at;
+
+    const again = TranscriptWriter.start({ run_id: "run_h", task: "", mode: "BUILD", backend_url: "u" });
+    again.record({ type: "done", data: {} });
+    again.finish();
+
+    const raw = fs.readFileSync(transcriptPath("run_h"), "utf-8");
+    expect(raw.split("\n").filter((line) => line.includes('"kind":"meta"'))).toHaveLength(1);
+    const transcript = readTranscript("run_h");
+    expect(transcript.meta).toMatchObject({ task: "build it", started_at: startedAt });
+    expect(transcript.events.map((e) => e.event.type)).toEqual(["thought", "done"]);
+    expect(transcript.end?.status).toBe("done");
+  });
+});
+
+describe("readTranscript", () => {
+  it("rejects run IDs that could escape the runs directory", () => {
+    expect(() => transcriptPath("../secrets")).toThrow("Invalid run ID");
+  });
+
+  it("reports missing transcripts", () => {
+    expect(() => readTranscript("nope")).toThrow("No transcript");
+  });
+
+  it("returns no end record for a run that never finished", () => {
+    TranscriptWriter.start({ run_id: "run_e", task: "t", mode: "RUN", backend_url: "u" });
+    expect(readTranscript("run_e").end).toBeUndefined();
+  });
+});
+
+describe("listTranscripts", () => {
+  it("lists readable transcripts newest first and skips foreign files", () => {
+    fs.writeFileSync(path.join(RUNS_DIR, "garbage.jsonl"), "not json\n");
+    const ids = listTranscripts().map((t) => t.meta.run_id);
+    expect(ids).toEqual(expect.arrayContaining(["run_a", "run_e"]));
+    expect(ids).not.toContain("garbage");
+    const times = listTranscripts().map((t) => t.meta.started_at);
+    expect([...times].sort().reverse()).toEqual(times);
+  });
+});
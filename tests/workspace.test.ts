@@ -0,0 +1,120 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { execFileSync } from "node:child_process";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import {
+  detectStack,
+  directoryTree,
+  formatWorkspace,
+  gatherWorkspace,
+  gitState,
+  workspaceSharingEnabled,
+} from "../src/core/workspace.js";
+
+const SECRET = "sk-ant-api03-" + "x".repeat(40);
+
+let root: string;
+
+function write(rel: string, content: string): void {
+  const file = path.join(root, rel);
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, content);
+}
+
+function git(...args: string[]): void {
+  execFileSync("git", ["-c", "user.name=Test", "-c", "user.email=test@example.com", ...args], { cwd: root, stdio: "ignore" });
+}
+
+beforeEach(() => {
+  root = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), "nexus-workspace-")));
+});
+
+afterEach(() => {
+  fs.rmSync(root, { recursive: true, force: true });
+});
+
+describe("gitState", () => {
+  it("reports branch, changes and recent commits", () => {
+    git("init", "-q", "-b", "main");
+    write("a.ts", "a\n");
+    git("add", "a.ts");
+    git("commit", "-q", "-m", "Add a");
+    write("a.ts", "changed\n");
+    write("b.ts", "new\n");
+
+    const state = gitState(root);
+    expect(state?.branch).toBe("main");
+    expect(state?.dirty).toEqual([" M a.ts", "?? b.ts"]);
+    expect(state?.recent_commits).toHaveLength(1);
+    expect(state?.recent_commits[0]).toMatch(/^[0-9a-f]+ Add a$/);
+  });
+
+  it("handles repositories without commits, and plain directories", () => {
+    expect(gitState(root)).toBeNull();
+    git("init", "-q", "-b", "main");
+    expect(gitState(root)).toEqual({ branch: "main", dirty: [], dirty_omitted: 0, recent_commits: [] });
+  });
+});
+
+describe("detectStack", () => {
+  it("names languages and frameworks from manifests", () => {
+    write("package.json", JSON.stringify({ dependencies: { react: "^18" }, devDependencies: { typescript: "^5", vitest: "^1" } }));
+    write("api/requirements.txt", "fastapi==0.110\npytest\n");
+    expect(detectStack([root, path.join(root, "api")], root)).toEqual({
+      stack: ["Node.js", "TypeScript", "React", "Vitest", "Python", "FastAPI", "pytest"],
+      manifests: ["package.json", "api/requirements.txt"],
+    });
+  });
+
+  it("does not mistake a dependency prefix for a framework", () => {
+    write("package.json", JSON.stringify({ dependencies: { "react-dom": "^18", "next-auth": "^4" } }));
+    expect(detectStack([root], root).stack).toEqual(["Node.js"]);
+  });
+});
+
+describe("directoryTree", () => {
+  it("lists two levels, directories first, without ignored entries", () => {
+    write(".gitignore", "dist/\n");
+    write("src/index.ts", "");
+    write("src/lib/a.ts", "");
+    write("src/lib/b.ts", "");
+    write("dist/index.js", "");
+    write("README.md", "");
+    expect(directoryTree(root)).toBe(["src/", "  lib/ (2 entries)", "  index.ts", ".gitignore", "README.md"].join("\n"));
+  });
+});
+
+describe("gatherWorkspace", () => {
+  it("redacts secrets and renders a readable preview", () => {
+    git("init", "-q", "-b", "main");
+    write("README.md", "hi\n");
+    git("add", ".");
+    git("commit", "-q", "-m", `Rotate ${SECRET}`);
+
+    const context = gatherWorkspace(root);
+    expect(JSON.stringify(context)).not.toContain(SECRET);
+    expect(context.git?.recent_commits[0]).toContain("[REDACTED]");
+
+    const preview = formatWorkspace(context);
+    expect(preview).toContain("Git branch: main (clean)");
+    expect(preview).toContain("Stack: not detected");
+    expect(preview).toContain("  README.md");
+  });
+
+  it("describes a directory that no longer exists instead of throwing", () => {
+    const gone = path.join(root, "gone");
+    const context = gatherWorkspace(gone);
+    expect(context.cwd).toBe(gone);
+    expect(context.tree).toBe("");
+  });
+});
+
+describe("workspaceSharingEnabled", () => {
+  it("is on unless NEXUS_NO_CONTEXT is set", () => {
+    expect(workspaceSharingEnabled({})).toBe(true);
+    expect(workspaceSharingEnabled({ NEXUS_NO_CONTEXT: "0" })).toBe(true);
+    expect(workspaceSharingEnabled({ NEXUS_NO_CONTEXT: "1" })).toBe(false);
+    expect(workspaceSharingEnabled({ NEXUS_NO_CONTEXT: "true" })).toBe(false);
+  });
+});
@@ -4,14 +4,15 @@ import { readFileSync } from "node:fs";
 const packageJson = JSON.parse(readFileSync("package.json", "utf-8"));
 
 export default defineConfig({
-  entry: ["src/bin.ts"],
+  entry: ["src/bin.ts", "src/index.ts"],
   format: ["esm"],
   target: "node18",
   outDir: "dist",
   clean: true,
   splitting: false,
   sourcemap: false,
-  dts: false,
+  // Type declarations only for the programmatic API; the CLI entry has none
+  dts: { entry: "src/index.ts" },
   define: {
     __BUILDWITHNEXUS_VERSION__: JSON.stringify(packageJson.version),
   },